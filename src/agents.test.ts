@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BUILTIN_AGENT_PROFILES, buildAgentCommand, getAgentProfile, loadAgentProfiles } from './agents.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('Agent Profiles', () => {
+  let tempDir: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+    configPath = path.join(tempDir, 'config.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should fall back to the built-in profiles without a config file', () => {
+    const profiles = loadAgentProfiles(configPath);
+    expect(Object.keys(profiles)).toEqual(['claude', 'codex']);
+  });
+
+  it('should add configured profiles and override built-ins field by field', async () => {
+    await fs.writeFile(configPath, JSON.stringify({
+      agents: {
+        aider: { command: 'aider --yes-always', promptStyle: 'keys', env: { AIDER_MODEL: 'sonnet' } },
+        claude: { command: 'my-claude-wrapper {prompt}' },
+      },
+    }));
+    const profiles = loadAgentProfiles(configPath);
+
+    expect(profiles.aider).toMatchObject({ name: 'aider', command: 'aider --yes-always', promptStyle: 'keys', env: { AIDER_MODEL: 'sonnet' } });
+    expect(profiles.aider.mcpConfig).toBeUndefined();
+    expect(profiles.claude).toMatchObject({ command: 'my-claude-wrapper {prompt}', promptStyle: 'argument', headlessCommand: undefined, tmuxCommand: undefined });
+    expect(profiles.claude.mcpConfig).toEqual(BUILTIN_AGENT_PROFILES.claude.mcpConfig);
+    expect(() => getAgentProfile(profiles, 'gemini')).toThrow('Unknown agent type "gemini". Available: claude, codex, aider');
+  });
+
+  it('should let project profiles override user profiles', async () => {
+    const projectPath = path.join(tempDir, '.lockstep.json');
+    await fs.writeFile(configPath, JSON.stringify({ agents: { aider: { command: 'aider' }, local: { command: 'local-agent' } } }));
+    await fs.writeFile(projectPath, JSON.stringify({ mode: 'strict', agents: { aider: { command: 'aider --yes-always' } } }));
+    const profiles = loadAgentProfiles(configPath, projectPath, undefined);
+
+    expect(profiles.aider.command).toBe('aider --yes-always');
+    expect(profiles.local.command).toBe('local-agent');
+  });
+
+  it('should reject invalid profiles', async () => {
+    await fs.writeFile(configPath, JSON.stringify({ agents: { gemini: { command: 'gemini', promptStyle: 'telepathy' } } }));
+    expect(() => loadAgentProfiles(configPath)).toThrow('Invalid agent profile "gemini"');
+
+    await fs.writeFile(configPath, JSON.stringify({ agents: { gemini: { promptStyle: 'stdin' } } }));
+    expect(() => loadAgentProfiles(configPath)).toThrow('command is required');
+  });
+
+  it('should build commands for each prompt style', () => {
+    const prompt = "Run: coordination_init({ role: 'implementer' }) $& done";
+    const claude = buildAgentCommand(BUILTIN_AGENT_PROFILES.claude, prompt);
+    expect(claude.command).toBe(`claude --dangerously-skip-permissions 'Run: coordination_init({ role: '\\''implementer'\\'' }) $& done'`);
+
+    const headless = buildAgentCommand(BUILTIN_AGENT_PROFILES.codex, 'go', { headless: true });
+    expect(headless.command).toBe("codex exec --full-auto 'go'");
+
+    // tmux sessions are watched, so the built-ins run without skipping approvals there
+    expect(buildAgentCommand(BUILTIN_AGENT_PROFILES.claude, 'go', { tmux: true }).command).toBe("claude 'go'");
+    expect(buildAgentCommand(BUILTIN_AGENT_PROFILES.codex, undefined, { tmux: true }).command).toBe('codex');
+
+    const appended = buildAgentCommand({ name: 'gemini', command: 'gemini -i', promptStyle: 'argument' }, 'go');
+    expect(appended.command).toBe("gemini -i 'go'");
+
+    const piped = buildAgentCommand({ name: 'local', command: 'local-agent {prompt}', promptStyle: 'stdin', env: { MODEL: 'big one' } }, 'go');
+    expect(piped).toEqual({ command: "env MODEL='big one' local-agent", stdin: 'go' });
+
+    const typed = buildAgentCommand({ name: 'aider', command: 'aider', promptStyle: 'keys' }, 'go');
+    expect(typed).toEqual({ command: 'aider', keys: 'go' });
+
+    expect(buildAgentCommand(BUILTIN_AGENT_PROFILES.claude).command).toBe('claude --dangerously-skip-permissions');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Agent profiles: how to start each kind of agent. claude and codex are built
+ * in; more can be defined (or the built-ins overridden) under "agents" in the
+ * user config file or the project's .lockstep.json.
+ */
+import fs from "node:fs";
+import { expandHome } from "./utils.js";
+
+// How the initial prompt reaches the agent:
+// argument - substituted for {prompt} in the command (appended if absent)
+// stdin    - written to the agent's standard input
+// keys     - typed into the agent's terminal once it has started (tmux only)
+// none     - not delivered; the agent is expected to find its instructions itself
+export type PromptStyle = "argument" | "stdin" | "keys" | "none";
+
+export type AgentProfile = {
+  name: string;
+  command: string;             // Interactive command template
+  headlessCommand?: string;    // Template used by run-implementer (defaults to command)
+  tmuxCommand?: string;        // Template used by `lockstep-mcp tmux`, where a human watches (defaults to command)
+  promptStyle: PromptStyle;
+  env?: Record<string, string>;
+  mcpConfig?: {                // Where `lockstep-mcp install` registers the server for this agent
+    format: "json" | "toml";   // json: "mcpServers" object, toml: [mcp_servers.<name>] tables
+    path: string;              // ~ is expanded; relative paths resolve from the current directory
+  };
+};
+
+export type AgentCommand = {
+  command: string;   // Shell command, with env assignments and the prompt applied
+  stdin?: string;    // Prompt to write to standard input
+  keys?: string;     // Prompt to type into the terminal after start
+};
+
+const PROMPT_STYLES: PromptStyle[] = ["argument", "stdin", "keys", "none"];
+
+export const BUILTIN_AGENT_PROFILES: Record<string, AgentProfile> = {
+  claude: {
+    name: "claude",
+    command: "claude --dangerously-skip-permissions {prompt}",
+    headlessCommand: "claude -p --dangerously-skip-permissions {prompt}",
+    tmuxCommand: "claude {prompt}",
+    promptStyle: "argument",
+    mcpConfig: { format: "json", path: ".mcp.json" },
+  },
+  codex: {
+    name: "codex",
+    command: "codex --full-auto {prompt}",
+    headlessCommand: "codex exec --full-auto {prompt}",
+    tmuxCommand: "codex {prompt}",
+    promptStyle: "argument",
+    mcpConfig: { format: "toml", path: "~/.codex/config.toml" },
+  },
+};
+
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Shell line that feeds a prompt to a command's standard input
+ */
+export function pipeStdin(command: string, stdin?: string): string {
+  return stdin !== undefined ? `printf '%s\\n' ${shellQuote(stdin)} | ${command}` : command;
+}
+
+function parseProfile(name: string, raw: unknown, source: string): AgentProfile {
+  const fail = (problem: string) => new Error(`Invalid agent profile "${name}" in ${source}: ${problem}`);
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw fail("expected an object");
+  const value = raw as Record<string, unknown>;
+  const base = BUILTIN_AGENT_PROFILES[name];
+
+  const command = value.command ?? base?.command;
+  if (typeof command !== "string" || !command.trim()) throw fail("command is required");
+  const headlessCommand = value.headlessCommand ?? (value.command === undefined ? base?.headlessCommand : undefined);
+  if (headlessCommand !== undefined && typeof headlessCommand !== "string") throw fail("headlessCommand must be a string");
+  const tmuxCommand = value.tmuxCommand ?? (value.command === undefined ? base?.tmuxCommand : undefined);
+  if (tmuxCommand !== undefined && typeof tmuxCommand !== "string") throw fail("tmuxCommand must be a string");
+
+  const promptStyle = value.promptStyle ?? base?.promptStyle ?? "argument";
+  if (!PROMPT_STYLES.includes(promptStyle as PromptStyle)) {
+    throw fail(`promptStyle must be one of ${PROMPT_STYLES.join(", ")}`);
+  }
+
+  let env: Record<string, string> | undefined;
+  if (value.env !== undefined) {
+    if (!value.env || typeof value.env !== "object" || Array.isArray(value.env)) throw fail("env must be an object");
+    env = {};
+    for (const [key, envValue] of Object.entries(value.env)) {
+      if (typeof envValue !== "string") throw fail(`env.${key} must be a string`);
+      env[key] = envValue;
+    }
+  }
+
+  let mcpConfig = base?.mcpConfig;
+  if (value.mcpConfig !== undefined) {
+    const mcp = value.mcpConfig as Record<string, unknown> | null;
+    if (!mcp || typeof mcp.path !== "string" || (mcp.format !== "json" && mcp.format !== "toml")) {
+      throw fail('mcpConfig needs a path and a format of "json" or "toml"');
+    }
+    mcpConfig = { format: mcp.format, path: mcp.path };
+  }
+
+  return { name, command, headlessCommand, tmuxCommand, promptStyle: promptStyle as PromptStyle, env, mcpConfig };
+}
+
+/**
+ * Validate the "agents" section of a config file
+ */
+export function parseAgentProfiles(agents: unknown, source: string): Record<string, AgentProfile> {
+  if (!agents || typeof agents !== "object" || Array.isArray(agents)) {
+    throw new Error(`"agents" in ${source} must be an object of profiles`);
+  }
+  const profiles: Record<string, AgentProfile> = {};
+  for (const [name, raw] of Object.entries(agents)) {
+    profiles[name] = parseProfile(name, raw, source);
+  }
+  return profiles;
+}
+
+/**
+ * Built-in profiles merged with the "agents" sections of config files, later
+ * files taking precedence (user config, then the project's .lockstep.json).
+ * Missing files are skipped; an invalid one throws.
+ */
+export function loadAgentProfiles(...configPaths: (string | undefined)[]): Record<string, AgentProfile> {
+  const profiles = { ...BUILTIN_AGENT_PROFILES };
+  for (const configPath of configPaths) {
+    if (!configPath) continue;
+    const filePath = expandHome(configPath);
+    if (!fs.existsSync(filePath)) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not read ${filePath}: ${message}`);
+    }
+    const agents = (parsed as { agents?: unknown } | null)?.agents;
+    if (agents === undefined) continue;
+    Object.assign(profiles, parseAgentProfiles(agents, filePath));
+  }
+  return profiles;
+}
+
+export function getAgentProfile(profiles: Record<string, AgentProfile>, name: string): AgentProfile {
+  const profile = profiles[name];
+  if (!profile) {
+    throw new Error(`Unknown agent type "${name}". Available: ${Object.keys(profiles).join(", ")}`);
+  }
+  return profile;
+}
+
+/**
+ * Turn a profile and an optional prompt into the shell command to run
+ */
+export function buildAgentCommand(
+  profile: AgentProfile,
+  prompt?: string,
+  options: { headless?: boolean; tmux?: boolean } = {}
+): AgentCommand {
+  const template = (options.headless && profile.headlessCommand)
+    || (options.tmux && profile.tmuxCommand)
+    || profile.command;
+  const usesArgument = prompt !== undefined && profile.promptStyle === "argument";
+  let command: string;
+  if (template.includes("{prompt}")) {
+    command = template.replace(/\{prompt\}/g, () => (usesArgument ? shellQuote(prompt) : "")).replace(/\s+$/, "");
+  } else {
+    command = usesArgument ? `${template} ${shellQuote(prompt)}` : template;
+  }
+
+  const envEntries = Object.entries(profile.env ?? {});
+  if (envEntries.length > 0) {
+    command = `env ${envEntries.map(([key, value]) => `${key}=${shellQuote(value)}`).join(" ")} ${command}`;
+  }
+
+  const result: AgentCommand = { command };
+  if (prompt !== undefined && profile.promptStyle === "stdin") result.stdin = prompt;
+  if (prompt !== undefined && profile.promptStyle === "keys") result.keys = prompt;
+  return result;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BUNDLE_VERSION, createBundle, formatCounts, parseBundle, prepareImport } from './bundle.js';
+import { JsonStore, SqliteStore, sessionCounts } from './storage.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('Session Bundles', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should reject files that are not bundles or are too new', () => {
+    expect(() => parseBundle('{', 'bad.json')).toThrow('bad.json is not valid JSON');
+    expect(() => parseBundle('{"format":"other"}')).toThrow('is not a lockstep session bundle');
+
+    const bundle = createBundle('/repo', emptyData());
+    expect(parseBundle(JSON.stringify(bundle)).projectRoot).toBe('/repo');
+    expect(() => parseBundle(JSON.stringify({ ...bundle, version: BUNDLE_VERSION + 1 })))
+      .toThrow(`newer than this lockstep-mcp supports (${BUNDLE_VERSION})`);
+    expect(() => parseBundle(JSON.stringify({ ...bundle, data: { ...bundle.data, tasks: null } })))
+      .toThrow('data.tasks must be an array');
+  });
+
+  it('should move a session to another project root and stop its implementers', async () => {
+    const source = new SqliteStore(path.join(tempDir, 'source.db'), path.join(tempDir, 'logs'));
+    await source.init();
+    await source.createTask({ title: 'Build', complexity: 'simple', projectRoot: '/old/repo' });
+    await source.acquireLock({ path: 'src/a.ts', owner: 'impl-1', projectRoot: '/old/repo' });
+    await source.registerImplementer({
+      name: 'impl-1', type: 'codex', projectRoot: '/old/repo', pid: 1234, worktreePath: '/old/repo/.worktrees/impl-1',
+    });
+    const bundle = parseBundle(JSON.stringify(createBundle('/old/repo', await source.exportSession('/old/repo'))));
+
+    // Bundles are backend-neutral: a SQLite export imports into JSON storage
+    const target = new JsonStore(path.join(tempDir, 'data'), path.join(tempDir, 'logs'));
+    await target.init();
+    const result = await target.importSession(prepareImport(bundle, { projectRoot: '/new/repo' }));
+    expect(formatCounts(result.imported)).toMatch(/^1 tasks, \d+ task events, 1 locks, 1 notes, 1 implementers$/);
+
+    expect((await target.listTasks({ projectRoot: '/new/repo' })).map(t => t.title)).toEqual(['Build']);
+    expect((await target.listLocks({ projectRoot: '/new/repo' }))[0].path).toBe('src/a.ts');
+    const [implementer] = await target.listImplementers('/new/repo');
+    expect(implementer).toMatchObject({ status: 'stopped', worktreePath: '/new/repo/.worktrees/impl-1' });
+    expect(implementer.pid).toBeUndefined();
+    expect(formatCounts(sessionCounts())).toBe('nothing');
+  });
+
+  it('should free the tasks and locks of implementers an import stops', async () => {
+    const source = new SqliteStore(path.join(tempDir, 'source.db'), path.join(tempDir, 'logs'));
+    await source.init();
+    await source.registerImplementer({ name: 'impl-1', type: 'codex', projectRoot: '/repo' });
+    const claimed = await source.createTask({ title: 'Half done', complexity: 'simple', projectRoot: '/repo' });
+    const other = await source.createTask({ title: 'Someone else', complexity: 'simple', projectRoot: '/repo' });
+    await source.claimTask({ id: claimed.id, owner: 'impl-1' });
+    await source.claimTask({ id: other.id, owner: 'impl-2' });
+    await source.acquireLock({ path: 'src/a.ts', owner: 'impl-1', projectRoot: '/repo' });
+    await source.acquireLock({ path: 'src/b.ts', owner: 'impl-2', projectRoot: '/repo' });
+    const bundle = createBundle('/repo', await source.exportSession('/repo'));
+
+    const target = new JsonStore(path.join(tempDir, 'data'), path.join(tempDir, 'logs'));
+    await target.init();
+    await target.importSession(prepareImport(bundle));
+
+    const tasks = await target.listTasks({ projectRoot: '/repo' });
+    const freed = tasks.find(t => t.id === claimed.id);
+    expect(freed?.status).toBe('todo');
+    expect(freed?.owner).toBeUndefined();
+    expect(tasks.find(t => t.id === other.id)).toMatchObject({ status: 'in_progress', owner: 'impl-2' });
+    expect((await target.listLocks({ projectRoot: '/repo', status: 'active' })).map(l => l.path)).toEqual(['src/b.ts']);
+    expect((await target.listTaskEvents({ taskId: claimed.id })).at(-1)).toMatchObject({ type: 'owner', actor: 'system' });
+    const [note] = await target.listNotes(undefined, '/repo');
+    expect(note).toMatchObject({ author: 'system' });
+    expect(note.text).toContain('Returned 1 in-progress task(s) to todo: "Half done"; released 1 lock(s)');
+  });
+});
+
+function emptyData() {
+  return {
+    projectContext: null,
+    tasks: [],
+    taskEvents: [],
+    locks: [],
+    notes: [],
+    implementers: [],
+    discussions: [],
+    discussionMessages: [],
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Session bundles: one project's coordination state as a single versioned
+ * JSON document, for moving a session between machines or attaching it to a
+ * bug report. `lockstep-mcp export` writes them and `import` reads them back.
+ */
+import crypto from "node:crypto";
+import path from "node:path";
+import type { SnapshotReason } from "./snapshots.js";
+import type { SessionCounts, SessionData, TaskEvent } from "./storage.js";
+
+export const BUNDLE_FORMAT = "lockstep-session";
+export const BUNDLE_VERSION = 1;
+
+export type SessionBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  exportedBy?: string;  // lockstep-mcp version that wrote the bundle
+  projectRoot: string;
+  snapshot?: { name: string; reason: SnapshotReason };  // Set on snapshot files
+  data: SessionData;
+};
+
+const DATA_LISTS = [
+  "tasks", "taskEvents", "locks", "notes", "implementers", "discussions", "discussionMessages",
+] as const;
+
+export function createBundle(projectRoot: string, data: SessionData, exportedBy?: string): SessionBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy,
+    projectRoot,
+    data,
+  };
+}
+
+/**
+ * Parse and check a bundle. Bundles written by a newer format version are
+ * refused rather than half-imported.
+ */
+export function parseBundle(raw: string, source = "bundle"): SessionBundle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const bundle = parsed as Partial<SessionBundle> | null;
+  if (!bundle || typeof bundle !== "object" || bundle.format !== BUNDLE_FORMAT) {
+    throw new Error(`${source} is not a lockstep session bundle`);
+  }
+  if (typeof bundle.version !== "number" || !Number.isInteger(bundle.version) || bundle.version < 1) {
+    throw new Error(`${source} has an invalid bundle version`);
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error(`${source} uses bundle version ${bundle.version}, newer than this lockstep-mcp supports (${BUNDLE_VERSION})`);
+  }
+  if (typeof bundle.projectRoot !== "string" || !bundle.projectRoot) {
+    throw new Error(`${source} is missing its projectRoot`);
+  }
+  const data = bundle.data as Partial<SessionData> | undefined;
+  if (!data || typeof data !== "object") throw new Error(`${source} is missing its data`);
+  for (const key of DATA_LISTS) {
+    if (!Array.isArray(data[key])) throw new Error(`${source}: data.${key} must be an array`);
+  }
+  if (data.projectContext !== null && typeof data.projectContext !== "object") {
+    throw new Error(`${source}: data.projectContext must be an object or null`);
+  }
+  return bundle as SessionBundle;
+}
+
+// Move a path inside one project root to the same place under another
+function remapPath(value: string | undefined, from: string, to: string): string | undefined {
+  if (!value || !path.isAbsolute(value)) return value;
+  const relative = path.relative(from, value);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) return value;
+  return path.join(to, relative);
+}
+
+/**
+ * Rewrite a session for another project root: every record's projectRoot, and
+ * absolute paths inside the old root (lock paths, worktrees, implementer logs)
+ */
+export function remapProjectRoot(data: SessionData, from: string, to: string): SessionData {
+  const root = <T extends { projectRoot?: string }>(record: T): T =>
+    record.projectRoot === from ? { ...record, projectRoot: to } : record;
+  return {
+    projectContext: data.projectContext ? root(data.projectContext) : null,
+    tasks: data.tasks.map(root),
+    taskEvents: data.taskEvents.map(root),
+    locks: data.locks.map((lock) => ({ ...root(lock), path: remapPath(lock.path, from, to) ?? lock.path })),
+    notes: data.notes.map(root),
+    implementers: data.implementers.map((impl) => ({
+      ...root(impl),
+      worktreePath: remapPath(impl.worktreePath, from, to),
+      logFile: remapPath(impl.logFile, from, to),
+    })),
+    discussions: data.discussions.map(root),
+    discussionMessages: data.discussionMessages,
+  };
+}
+
+/**
+ * The session data to import from a bundle, moved to projectRoot if given.
+ * Implementers come in stopped: their processes belong to the machine and
+ * moment the bundle was exported on. Nothing would ever free the work of an
+ * implementer that was active, so, as when one misses its heartbeats, its
+ * in-progress tasks go back to todo, its locks are released and a [SYSTEM]
+ * note says so.
+ */
+export function prepareImport(bundle: SessionBundle, options: { projectRoot?: string } = {}): SessionData {
+  const data = options.projectRoot && options.projectRoot !== bundle.projectRoot
+    ? remapProjectRoot(bundle.data, bundle.projectRoot, options.projectRoot)
+    : bundle.data;
+  const projectRoot = options.projectRoot ?? bundle.projectRoot;
+  const now = new Date().toISOString();
+  const stopped = new Set(data.implementers.filter((impl) => impl.status === "active").map((impl) => impl.name));
+  const heldBy = (record: { owner?: string }) => !!record.owner && stopped.has(record.owner);
+
+  const taskEvents: TaskEvent[] = [];
+  const freedTasks: string[] = [];
+  const tasks = data.tasks.map((task) => {
+    if (task.status !== "in_progress" || !heldBy(task)) return task;
+    freedTasks.push(`"${task.title}"`);
+    for (const [field, from, to] of [["status", "in_progress", "todo"], ["owner", task.owner, undefined]] as const) {
+      taskEvents.push({
+        id: crypto.randomUUID(), taskId: task.id, projectRoot: task.projectRoot,
+        type: field, field, from, to, actor: "system", createdAt: now,
+      });
+    }
+    return { ...task, status: "todo" as const, owner: undefined, version: (task.version ?? 1) + 1, updatedAt: now };
+  });
+
+  let releasedLocks = 0;
+  const locks = data.locks.map((lock) => {
+    if (lock.status !== "active" || !heldBy(lock)) return lock;
+    releasedLocks++;
+    return { ...lock, status: "resolved" as const, updatedAt: now };
+  });
+
+  const notes = [...data.notes];
+  if (freedTasks.length > 0 || releasedLocks > 0) {
+    const taskList = freedTasks.length ? `: ${freedTasks.join(", ")}` : "";
+    notes.push({
+      id: crypto.randomUUID(),
+      projectRoot,
+      text: `[SYSTEM] Implementer(s) ${[...stopped].join(", ")} were stopped when this session was imported. ` +
+        `Returned ${freedTasks.length} in-progress task(s) to todo${taskList}; released ${releasedLocks} lock(s).`,
+      author: "system",
+      createdAt: now,
+    });
+  }
+
+  return {
+    ...data,
+    tasks,
+    taskEvents: [...data.taskEvents, ...taskEvents],
+    locks,
+    notes,
+    implementers: data.implementers.map((impl) => ({ ...impl, status: "stopped", pid: undefined })),
+  };
+}
+
+const COUNT_LABELS: Record<keyof SessionCounts, string> = {
+  projectContext: "project context",
+  tasks: "tasks",
+  taskEvents: "task events",
+  locks: "locks",
+  notes: "notes",
+  implementers: "implementers",
+  discussions: "discussions",
+  discussionMessages: "discussion messages",
+};
+
+// "3 tasks, 2 notes"; "nothing" when every count is zero
+export function formatCounts(counts: SessionCounts): string {
+  const parts = (Object.keys(COUNT_LABELS) as Array<keyof SessionCounts>)
+    .filter((key) => counts[key] > 0)
+    .map((key) => `${counts[key]} ${COUNT_LABELS[key]}`);
+  return parts.length > 0 ? parts.join(", ") : "nothing";
+}
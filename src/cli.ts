@@ -1,4 +1,6 @@
 import { installMcpEntry, uninstallMcpEntry, getInstallStatus, type InstallTarget } from "./install.js";
+import { loadAgentProfiles } from "./agents.js";
+import { describeConfig, loadConfig } from "./config.js";
 import { getAutopilotPrompts, getPlannerPrompt, getImplementerPrompt } from "./prompts.js";
 import path from "node:path";
 import fs from "node:fs";
@@ -53,17 +55,23 @@ function printHelp() {
   const text = `lockstep-mcp v${VERSION} - Multi-agent coordination for Claude and Codex
 
 Usage:
-  lockstep-mcp install [--claude] [--codex] [--all] [--config <path>] [--mode open|strict] [--roots <paths>] [--storage sqlite|json]
-  lockstep-mcp uninstall [--claude] [--codex] [--all] [--name <server-name>]
+  lockstep-mcp install [--claude] [--codex] [--agent <name>] [--all] [--config <path>] [--mode open|strict] [--roots <paths>] [--storage sqlite|json]
+  lockstep-mcp uninstall [--claude] [--codex] [--agent <name>] [--all] [--name <server-name>]
   lockstep-mcp init [--force]
   lockstep-mcp disable
   lockstep-mcp enable
   lockstep-mcp status
-  lockstep-mcp server [--mode open|strict] [--roots <paths>] [--storage sqlite|json] [--db-path <path>]
+  lockstep-mcp server [--mode open|strict] [--roots <paths>] [--storage sqlite|json] [--db-path <path>] [--lock-enforcement off|warn|strict] [--role-enforcement off|warn|strict] [--heartbeat-timeout <seconds>] [--launcher auto|tmux|background|macos] [--user-config <path>] [--project-config <path>]
+  lockstep-mcp server --http [--host <host>] [--port <port>]
   lockstep-mcp dashboard [--host <host>] [--port <port>] [--poll-ms <ms>]
-  lockstep-mcp tmux [--repo <path>] [--session <name>] [--layout windows|panes]
+  lockstep-mcp tmux [--repo <path>] [--session <name>] [--layout windows|panes] [--planner <agent>] [--implementer <agent>]
   lockstep-mcp macos [--repo <path>]
+  lockstep-mcp run-implementer --type <agent> [--name <name>] [--repo <path>] [--cmd <command>] [--max-restarts <n>]
   lockstep-mcp prompts [--role planner|implementer]
+  lockstep-mcp db migrate [--dry-run] [--db-path <path>]
+  lockstep-mcp export [--project <root>] [--output <file>]
+  lockstep-mcp import <file> [--project <root>] [--on-conflict fail|skip|replace|rename]
+  lockstep-mcp replay [--at <timestamp>] [--project <root>] [--log <events.jsonl>] [--json]
   lockstep-mcp version
 
 Commands:
@@ -72,11 +80,16 @@ Commands:
   init        Add coordination instructions to CLAUDE.md (creates if needed)
   disable     Remove coordination instructions from CLAUDE.md
   enable      Re-add coordination instructions to CLAUDE.md
-  status      Show installation status
-  server      Start the MCP server (called by Claude/Codex)
+  status      Show installation status and effective configuration
+  server      Start the MCP server (called by Claude/Codex), or with --http a shared coordinator plus dashboard
   dashboard   Start the web dashboard
   tmux        Launch Claude + Codex in tmux
   macos       Launch Claude + Codex in macOS Terminal
+  run-implementer  Run an implementer headless, restarting it if it crashes
+  db migrate  Apply pending SQLite schema migrations (--dry-run lists them without applying)
+  export      Write a project's session (context, tasks, locks, notes, implementers, discussions) as a JSON bundle
+  import      Load a session bundle, optionally into another project root
+  replay      Rebuild a project's tasks, locks and implementers as they were at a moment, from the event log
   version     Show version number
 
 Examples:
@@ -162,6 +175,12 @@ function enableProject(): { file: string; action: string } {
   return initProject(false);
 }
 
+// Agent profiles from the built-ins, the user config and the project's .lockstep.json
+function loadConfiguredAgents() {
+  const config = loadConfig();
+  return loadAgentProfiles(config.userConfigPath, config.projectConfigPath);
+}
+
 function getProjectStatus(): { enabled: boolean; file: string | null } {
   const candidates = ["CLAUDE.md", "AGENTS.md"];
   for (const candidate of candidates) {
@@ -196,6 +215,7 @@ async function main() {
     if (args["--all"]) target = "all";
     else if (args["--claude"]) target = "claude";
     else if (args["--codex"]) target = "codex";
+    else if (typeof args["--agent"] === "string") target = args["--agent"];
     else if (args["--config"]) target = "config";
     else target = "all"; // Default to all
 
@@ -211,6 +231,13 @@ async function main() {
       logDir: typeof args["--log-dir"] === "string" ? args["--log-dir"] : undefined,
       commandMode: typeof args["--command-mode"] === "string" ? args["--command-mode"] : undefined,
       commandAllow: typeof args["--command-allow"] === "string" ? args["--command-allow"] : undefined,
+      lockEnforcement: typeof args["--lock-enforcement"] === "string" ? args["--lock-enforcement"] : undefined,
+      roleEnforcement: typeof args["--role-enforcement"] === "string" ? args["--role-enforcement"] : undefined,
+      heartbeatTimeout: typeof args["--heartbeat-timeout"] === "string" ? args["--heartbeat-timeout"] : undefined,
+      launcher: typeof args["--launcher"] === "string" ? args["--launcher"] : undefined,
+      userConfig: typeof args["--user-config"] === "string" ? args["--user-config"] : undefined,
+      projectConfig: typeof args["--project-config"] === "string" ? args["--project-config"] : undefined,
+      agents: loadConfiguredAgents(),
     });
 
     if ("results" in result && result.results) {
@@ -228,11 +255,13 @@ async function main() {
     let target: InstallTarget = "all";
     if (args["--claude"]) target = "claude";
     else if (args["--codex"]) target = "codex";
+    else if (typeof args["--agent"] === "string") target = args["--agent"];
 
     const result = uninstallMcpEntry({
       target,
       name: typeof args["--name"] === "string" ? args["--name"] : undefined,
       configPath: typeof args["--config"] === "string" ? args["--config"] : undefined,
+      agents: loadConfiguredAgents(),
     });
 
     for (const r of result.results) {
@@ -287,17 +316,19 @@ async function main() {
   }
 
   if (command === "status") {
-    const installStatus = getInstallStatus();
+    const installStatus = getInstallStatus(loadConfiguredAgents());
     const projectStatus = getProjectStatus();
 
     process.stdout.write(`\nLockstep MCP Status\n`);
     process.stdout.write(`${"─".repeat(50)}\n\n`);
 
     process.stdout.write(`Global Installation:\n`);
-    process.stdout.write(`  Claude: ${installStatus.claude ? "✓ Installed" : "✗ Not installed"}\n`);
-    process.stdout.write(`          ${installStatus.claudePath}\n`);
-    process.stdout.write(`  Codex:  ${installStatus.codex ? "✓ Installed" : "✗ Not installed"}\n`);
-    process.stdout.write(`          ${installStatus.codexPath}\n\n`);
+    const width = Math.max(...installStatus.map((s) => s.agent.length)) + 1;
+    for (const status of installStatus) {
+      process.stdout.write(`  ${`${status.agent}:`.padEnd(width)} ${status.installed ? "✓ Installed" : "✗ Not installed"}\n`);
+      process.stdout.write(`  ${" ".repeat(width)} ${status.configPath}\n`);
+    }
+    process.stdout.write(`\n`);
 
     process.stdout.write(`Current Project (${process.cwd()}):\n`);
     if (projectStatus.enabled) {
@@ -308,6 +339,19 @@ async function main() {
       process.stdout.write(`  Run 'lockstep-mcp init' to enable.\n`);
     }
     process.stdout.write(`\n`);
+
+    const { files, settings } = describeConfig(loadConfig());
+    process.stdout.write(`Configuration:\n`);
+    process.stdout.write(`  Project file: ${files.project ?? "(none)"}\n`);
+    process.stdout.write(`  User file:    ${files.user ?? "(none)"}\n`);
+    const keyWidth = Math.max(...Object.keys(settings).map((key) => key.length)) + 1;
+    for (const [key, { value, source }] of Object.entries(settings)) {
+      const shown = Array.isArray(value)
+        ? (value.length > 0 ? value.join(", ") : "(empty)")
+        : typeof value === "object" ? JSON.stringify(value) : String(value);
+      process.stdout.write(`  ${`${key}:`.padEnd(keyWidth)} ${shown} [${source}]\n`);
+    }
+    process.stdout.write(`\n`);
     return;
   }
 
@@ -338,8 +382,17 @@ async function main() {
     const { launchTmux } = await import("./tmux.js");
     const repo = typeof args["--repo"] === "string" ? args["--repo"] : undefined;
     const session = typeof args["--session"] === "string" ? args["--session"] : undefined;
-    const claudeCmd = typeof args["--claude-cmd"] === "string" ? args["--claude-cmd"] : undefined;
-    const codexCmd = typeof args["--codex-cmd"] === "string" ? args["--codex-cmd"] : undefined;
+    const { getAgentProfile } = await import("./agents.js");
+    const profiles = loadConfiguredAgents();
+    let planner = getAgentProfile(profiles, typeof args["--planner"] === "string" ? args["--planner"] : "claude");
+    let implementer = getAgentProfile(profiles, typeof args["--implementer"] === "string" ? args["--implementer"] : "codex");
+    // Raw command overrides keep the old behaviour of typing the prompt in
+    if (typeof args["--claude-cmd"] === "string") {
+      planner = { ...planner, command: args["--claude-cmd"], tmuxCommand: undefined, promptStyle: "keys" };
+    }
+    if (typeof args["--codex-cmd"] === "string") {
+      implementer = { ...implementer, command: args["--codex-cmd"], tmuxCommand: undefined, promptStyle: "keys" };
+    }
     const injectPrompts = args["--no-prompts"] ? false : true;
     const layout = typeof args["--layout"] === "string" ? args["--layout"] : undefined;
     const split = typeof args["--split"] === "string" ? args["--split"] : undefined;
@@ -356,8 +409,8 @@ async function main() {
     await launchTmux({
       repo,
       session,
-      claudeCmd,
-      codexCmd,
+      planner,
+      implementer,
       injectPrompts,
       layout: layout === "panes" ? "panes" : "windows",
       split: split === "horizontal" ? "horizontal" : "vertical",
@@ -378,7 +431,158 @@ async function main() {
     return;
   }
 
+  if (command === "run-implementer") {
+    const { createStore } = await import("./storage.js");
+    const { runImplementer, nextImplementerName } = await import("./runner.js");
+    const { getAgentProfile } = await import("./agents.js");
+    const type = args["--type"];
+    if (typeof type !== "string") {
+      throw new Error("run-implementer requires --type <agent>");
+    }
+    const config = loadConfig();
+    const agent = getAgentProfile(loadAgentProfiles(config.userConfigPath, config.projectConfigPath), type);
+    const store = createStore(config);
+    await store.init();
+
+    const projectRoot = path.resolve(typeof args["--repo"] === "string" ? args["--repo"] : process.cwd());
+    const name = typeof args["--name"] === "string"
+      ? args["--name"]
+      : nextImplementerName(await store.listImplementers(projectRoot));
+    const maxRestarts = typeof args["--max-restarts"] === "string" ? Number(args["--max-restarts"]) : undefined;
+
+    const controller = new AbortController();
+    process.on("SIGINT", () => controller.abort());
+    process.on("SIGTERM", () => controller.abort());
+
+    const logDir = path.join(config.logDir, "implementers");
+    process.stdout.write(`Running ${type} implementer "${name}" in ${projectRoot}\n`);
+    process.stdout.write(`Output: ${path.join(logDir, `${name}.log`)}\n`);
+    const result = await runImplementer(store, {
+      name,
+      agent,
+      projectRoot,
+      logDir,
+      command: typeof args["--cmd"] === "string" ? args["--cmd"] : undefined,
+      maxRestarts: Number.isFinite(maxRestarts) ? maxRestarts : undefined,
+      signal: controller.signal,
+    });
+    process.stdout.write(`Implementer "${name}" ${result.reason} (exit code ${result.exitCode}, ${result.restarts} restart(s))\n`);
+    if (result.reason === "gave_up") process.exitCode = 1;
+    return;
+  }
+
+  if (command === "db") {
+    if (positional[1] !== "migrate") {
+      throw new Error("Usage: lockstep-mcp db migrate [--dry-run] [--db-path <path>]");
+    }
+    const config = loadConfig();
+    if (config.storage !== "sqlite") {
+      process.stdout.write("JSON storage has no database schema to migrate\n");
+      return;
+    }
+    const { migrateDatabase } = await import("./migrations.js");
+    const dryRun = args["--dry-run"] === true;
+    const result = migrateDatabase(config.dbPath, { dryRun, defaultProjectRoot: config.roots[0] });
+    process.stdout.write(`Database: ${config.dbPath}\n`);
+    if (result.applied.length === 0) {
+      process.stdout.write(`Schema is up to date (version ${result.fromVersion})\n`);
+      return;
+    }
+    process.stdout.write(
+      `${dryRun ? "Would apply" : "Applied"} ${result.applied.length} migration(s), version ${result.fromVersion} -> ${result.toVersion}:\n`
+    );
+    for (const migration of result.applied) {
+      process.stdout.write(`  ${migration.version} ${migration.name}\n`);
+    }
+    return;
+  }
+
+  if (command === "export") {
+    const { createStore, sessionCounts } = await import("./storage.js");
+    const { createBundle, formatCounts } = await import("./bundle.js");
+    const store = createStore(loadConfig());
+    await store.init();
+    const projectRoot = path.resolve(typeof args["--project"] === "string" ? args["--project"] : process.cwd());
+    const bundle = createBundle(projectRoot, await store.exportSession(projectRoot), `lockstep-mcp v${VERSION}`);
+    const json = `${JSON.stringify(bundle, null, 2)}\n`;
+    if (typeof args["--output"] === "string") {
+      const output = path.resolve(args["--output"]);
+      fs.writeFileSync(output, json);
+      process.stdout.write(`Exported ${formatCounts(sessionCounts(bundle.data))} from ${projectRoot} to ${output}\n`);
+    } else {
+      process.stdout.write(json);
+    }
+    return;
+  }
+
+  if (command === "import") {
+    const { createStore } = await import("./storage.js");
+    const { parseBundle, prepareImport, formatCounts } = await import("./bundle.js");
+    const file = positional[1];
+    if (!file) {
+      throw new Error("Usage: lockstep-mcp import <file> [--project <root>] [--on-conflict fail|skip|replace|rename]");
+    }
+    const onConflict = typeof args["--on-conflict"] === "string" ? args["--on-conflict"] : "fail";
+    if (onConflict !== "fail" && onConflict !== "skip" && onConflict !== "replace" && onConflict !== "rename") {
+      throw new Error("--on-conflict must be fail, skip, replace or rename");
+    }
+    const bundle = parseBundle(fs.readFileSync(path.resolve(file), "utf8"), file);
+    const projectRoot = typeof args["--project"] === "string" ? path.resolve(args["--project"]) : bundle.projectRoot;
+    const store = createStore(loadConfig());
+    await store.init();
+    const result = await store.importSession(prepareImport(bundle, { projectRoot }), { onConflict });
+    process.stdout.write(`Imported ${formatCounts(result.imported)} into ${projectRoot}\n`);
+    if (Object.values(result.skipped).some((count) => count > 0)) {
+      process.stdout.write(`Skipped existing: ${formatCounts(result.skipped)}\n`);
+    }
+    if (Object.values(result.renamed).some((count) => count > 0)) {
+      process.stdout.write(`Imported under new IDs: ${formatCounts(result.renamed)}\n`);
+    }
+    return;
+  }
+
+  if (command === "replay") {
+    const { eventLogPath, parseReplayTime, readEventLog, replayEvents } = await import("./replay.js");
+    const logPath = typeof args["--log"] === "string" ? path.resolve(args["--log"]) : eventLogPath(loadConfig().logDir);
+    const projectRoot = path.resolve(typeof args["--project"] === "string" ? args["--project"] : process.cwd());
+    const at = typeof args["--at"] === "string" ? parseReplayTime(args["--at"]) : undefined;
+    const events = await readEventLog(logPath);
+    if (events.length === 0) throw new Error(`No events in ${logPath}`);
+    const state = replayEvents(events, { at, projectRoot });
+    if (args["--json"]) {
+      process.stdout.write(`${JSON.stringify(state, null, 2)}\n`);
+      return;
+    }
+
+    const lines = [
+      `State of ${projectRoot} at ${state.at}`,
+      `Replayed ${state.eventsApplied} of ${events.length} events from ${logPath}${state.lastEvent ? ` (last: ${state.lastEvent.event} at ${state.lastEvent.ts})` : ""}`,
+      "",
+      state.projectContext ? `Project: ${state.projectContext.status} - ${state.projectContext.description}` : "Project: no context set",
+      "",
+      `Tasks (${state.tasks.length}):`,
+      ...state.tasks.map((task) => `  [${task.status}] ${task.title}${task.owner ? ` @${task.owner}` : ""}  ${task.id}`),
+    ];
+    const activeLocks = state.locks.filter((lock) => lock.status === "active");
+    lines.push("", `Locks (${activeLocks.length} active):`);
+    lines.push(...activeLocks.map((lock) => `  ${lock.path} ${lock.mode ?? "exclusive"}${lock.owner ? ` @${lock.owner}` : ""}`));
+    lines.push("", `Implementers (${state.implementers.length}):`);
+    lines.push(...state.implementers.map((impl) => `  ${impl.name} ${impl.status} (${impl.type})`));
+    if (state.warnings.length > 0) {
+      lines.push("", "Warnings:", ...state.warnings.map((warning) => `  ${warning}`));
+    }
+    process.stdout.write(`${lines.join("\n")}\n`);
+    return;
+  }
+
   if (command === "server") {
+    if (args["--http"]) {
+      const { startHttpServer } = await import("./server.js");
+      const port = typeof args["--port"] === "string" ? Number(args["--port"]) : undefined;
+      const host = typeof args["--host"] === "string" ? args["--host"] : undefined;
+      await startHttpServer({ port, host });
+      return;
+    }
     const { startServer } = await import("./server.js");
     await startServer();
     return;
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
 
 describe('Config', () => {
   const originalArgv = process.argv;
@@ -21,6 +23,13 @@ describe('Config', () => {
     delete process.env.COORD_DB_PATH;
     delete process.env.COORD_COMMAND_MODE;
     delete process.env.COORD_COMMAND_ALLOW;
+    delete process.env.COORD_LOCK_ENFORCEMENT;
+    delete process.env.COORD_ROLE_ENFORCEMENT;
+    delete process.env.COORD_HEARTBEAT_TIMEOUT;
+    delete process.env.COORD_LAUNCHER;
+    delete process.env.COORD_PROJECT_CONFIG;
+    // Keep the machine's own ~/.lockstep-mcp/config.json out of the results
+    process.env.COORD_USER_CONFIG = path.join(os.tmpdir(), 'lockstep-no-such-config.json');
   });
 
   afterEach(() => {
@@ -38,6 +47,9 @@ describe('Config', () => {
     expect(config.storage).toBe('sqlite');
     expect(config.command.mode).toBe('open');
     expect(config.command.allow).toEqual([]);
+    expect(config.lockEnforcement).toBe('off');
+    expect(config.heartbeatTimeoutSeconds).toBe(600);
+    expect(config.launcher).toBe('auto');
   });
 
   it('should parse --server-name argument', async () => {
@@ -99,6 +111,71 @@ describe('Config', () => {
     expect(config.command.allow).toContain('pnpm');
   });
 
+  it('should parse --lock-enforcement argument', async () => {
+    process.argv = ['node', 'script.js', '--lock-enforcement', 'strict'];
+    const { loadConfig } = await import('./config.js');
+    const config = loadConfig();
+
+    expect(config.lockEnforcement).toBe('strict');
+  });
+
+  it('should fall back to no lock enforcement for invalid values', async () => {
+    process.env.COORD_LOCK_ENFORCEMENT = 'sometimes';
+    const { loadConfig } = await import('./config.js');
+    const config = loadConfig();
+
+    expect(config.lockEnforcement).toBe('off');
+  });
+
+  it('should enforce roles strictly by default and parse --role-enforcement', async () => {
+    const { loadConfig } = await import('./config.js');
+    expect(loadConfig().roleEnforcement).toBe('strict');
+    expect(loadConfig().permissions.task_approve).toEqual(['planner']);
+
+    process.argv = ['node', 'script.js', '--role-enforcement', 'warn'];
+    expect(loadConfig().roleEnforcement).toBe('warn');
+  });
+
+  it('should parse --heartbeat-timeout argument', async () => {
+    process.argv = ['node', 'script.js', '--heartbeat-timeout', '0'];
+    const { loadConfig } = await import('./config.js');
+    const config = loadConfig();
+
+    expect(config.heartbeatTimeoutSeconds).toBe(0);
+  });
+
+  it('should fall back to the default heartbeat timeout for invalid values', async () => {
+    process.env.COORD_HEARTBEAT_TIMEOUT = 'soon';
+    const { loadConfig } = await import('./config.js');
+    const config = loadConfig();
+
+    expect(config.heartbeatTimeoutSeconds).toBe(600);
+  });
+
+  it('should parse --user-config argument', async () => {
+    process.argv = ['node', 'script.js', '--user-config', '/tmp/lockstep-config.json'];
+    const { loadConfig } = await import('./config.js');
+    const config = loadConfig();
+
+    expect(config.userConfigPath).toBe('/tmp/lockstep-config.json');
+  });
+
+  it('should parse --launcher argument', async () => {
+    process.argv = ['node', 'script.js', '--launcher', 'tmux'];
+    const { loadConfig } = await import('./config.js');
+    const config = loadConfig();
+
+    expect(config.launcher).toBe('tmux');
+  });
+
+  it('should fall back to launcher auto-detection for invalid values', async () => {
+    process.env.COORD_LAUNCHER = 'screen';
+    const { loadConfig } = await import('./config.js');
+    const config = loadConfig();
+
+    expect(config.launcher).toBe('auto');
+  });
+
   it('should handle invalid mode gracefully', async () => {
     process.argv = ['node', 'script.js', '--mode', 'invalid'];
     const { loadConfig } = await import('./config.js');
@@ -127,4 +204,131 @@ describe('Config', () => {
       expect(config.dataDir).toBe(path.resolve(path.join(home, 'custom-data')));
     }
   });
+
+  describe('config files', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lockstep-config-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function writeConfig(name: string, value: unknown): string {
+      const file = path.join(tempDir, name);
+      fs.writeFileSync(file, JSON.stringify(value));
+      return file;
+    }
+
+    it('should apply flags over env over project over user config', async () => {
+      process.env.COORD_USER_CONFIG = writeConfig('user.json', {
+        mode: 'strict',
+        storage: 'json',
+        lockEnforcement: 'warn',
+        launcher: 'background',
+      });
+      process.env.COORD_PROJECT_CONFIG = writeConfig('.lockstep.json', {
+        storage: 'sqlite',
+        lockEnforcement: 'strict',
+        launcher: 'tmux',
+      });
+      process.env.COORD_LOCK_ENFORCEMENT = 'off';
+      process.argv = ['node', 'script.js', '--launcher', 'macos'];
+      const { loadConfig } = await import('./config.js');
+      const config = loadConfig();
+
+      expect(config.mode).toBe('strict');
+      expect(config.storage).toBe('sqlite');
+      expect(config.lockEnforcement).toBe('off');
+      expect(config.launcher).toBe('macos');
+      expect(config.heartbeatTimeoutSeconds).toBe(600);
+      expect(config.sources).toMatchObject({
+        mode: 'user',
+        storage: 'project',
+        lockEnforcement: 'env',
+        launcher: 'flag',
+        heartbeatTimeoutSeconds: 'default',
+      });
+    });
+
+    it('should read the command policy and resolve paths from the file directory', async () => {
+      process.env.COORD_PROJECT_CONFIG = writeConfig('.lockstep.json', {
+        roots: ['.', 'packages/api'],
+        dataDir: '.lockstep/data',
+        command: { mode: 'allowlist', allow: ['npm', 'git'] },
+      });
+      const { loadConfig } = await import('./config.js');
+      const config = loadConfig();
+
+      expect(config.roots).toEqual([path.resolve(tempDir), path.resolve(tempDir, 'packages/api')]);
+      expect(config.dataDir).toBe(path.join(tempDir, '.lockstep/data'));
+      expect(config.dbPath).toBe(path.join(tempDir, '.lockstep/data', 'coordinator.db'));
+      expect(config.command).toEqual({ mode: 'allowlist', allow: ['npm', 'git'] });
+      expect(config.projectConfigPath).toBe(path.join(tempDir, '.lockstep.json'));
+    });
+
+    it('should merge permissions from a config file over the defaults', async () => {
+      process.env.COORD_PROJECT_CONFIG = writeConfig('.lockstep.json', {
+        roleEnforcement: 'warn',
+        permissions: { task_create: ['planner'], worktree_merge: ['planner', 'implementer'] },
+      });
+      const { loadConfig } = await import('./config.js');
+      const config = loadConfig();
+
+      expect(config.roleEnforcement).toBe('warn');
+      expect(config.permissions.task_create).toEqual(['planner']);
+      expect(config.permissions.worktree_merge).toEqual(['planner', 'implementer']);
+      expect(config.permissions.session_reset).toEqual(['planner']);
+      expect(config.sources.permissions).toBe('project');
+
+      process.env.COORD_PROJECT_CONFIG = writeConfig('bad.json', { permissions: { task_create: ['admin'] } });
+      expect(() => loadConfig()).toThrow('"permissions.task_create" must be an array of roles (planner, implementer)');
+    });
+
+    it('should find .lockstep.json in a parent directory', async () => {
+      const file = writeConfig('.lockstep.json', { mode: 'strict' });
+      const nested = path.join(tempDir, 'src', 'deep');
+      fs.mkdirSync(nested, { recursive: true });
+      const { findProjectConfig } = await import('./config.js');
+
+      expect(findProjectConfig(nested)).toBe(file);
+    });
+
+    it('should reject invalid config files with a clear error', async () => {
+      const { loadConfig } = await import('./config.js');
+
+      process.env.COORD_PROJECT_CONFIG = writeConfig('unknown.json', { locks: 'strict' });
+      expect(() => loadConfig()).toThrow(/Invalid config in .*unknown\.json: unknown key "locks"/);
+
+      process.env.COORD_PROJECT_CONFIG = writeConfig('mode.json', { mode: 'closed' });
+      expect(() => loadConfig()).toThrow('"mode" must be one of open, strict');
+
+      process.env.COORD_PROJECT_CONFIG = writeConfig('allow.json', { command: { allow: 'npm' } });
+      expect(() => loadConfig()).toThrow('"command.allow" must be an array of strings');
+
+      process.env.COORD_PROJECT_CONFIG = writeConfig('agents.json', { agents: { local: { promptStyle: 'telepathy' } } });
+      expect(() => loadConfig()).toThrow('Invalid agent profile "local"');
+
+      const broken = path.join(tempDir, 'broken.json');
+      fs.writeFileSync(broken, '{ mode: ');
+      process.env.COORD_PROJECT_CONFIG = broken;
+      expect(() => loadConfig()).toThrow(`Could not read ${broken}`);
+
+      process.env.COORD_PROJECT_CONFIG = path.join(tempDir, 'missing.json');
+      expect(() => loadConfig()).toThrow('Project config not found');
+    });
+
+    it('should describe effective settings and their sources', async () => {
+      const userFile = writeConfig('user.json', { heartbeatTimeoutSeconds: 120 });
+      process.env.COORD_USER_CONFIG = userFile;
+      const { describeConfig, loadConfig } = await import('./config.js');
+      const description = describeConfig(loadConfig());
+
+      expect(description.files).toEqual({ project: null, user: userFile });
+      expect(description.settings.heartbeatTimeoutSeconds).toEqual({ value: 120, source: 'user' });
+      expect(description.settings.mode).toEqual({ value: 'open', source: 'default' });
+    });
+  });
 });
@@ -1,15 +1,42 @@
+import fs from "node:fs";
 import path from "node:path";
+import { parseAgentProfiles } from "./agents.js";
+import { DEFAULT_PERMISSIONS, ROLES, type PermissionMatrix, type Role } from "./permissions.js";
 import { expandHome, normalizeRoots } from "./utils.js";
 
 export type AccessMode = "open" | "strict";
 export type CommandMode = "open" | "allowlist";
 export type StorageBackend = "json" | "sqlite";
+export type LockEnforcement = "off" | "warn" | "strict";
+export type RoleEnforcement = "off" | "warn" | "strict";
+export type LauncherBackend = "tmux" | "background" | "macos";
+export type LauncherChoice = LauncherBackend | "auto";
 
 export type CommandPolicy = {
   mode: CommandMode;
   allow: string[];
 };
 
+// Where a setting came from, highest precedence first
+export type ConfigSource = "flag" | "env" | "project" | "user" | "default";
+
+// Settings that can come from flags, env vars or config files
+export type ConfigSettings = {
+  mode: AccessMode;
+  roots: string[];
+  storage: StorageBackend;
+  dataDir: string;
+  logDir: string;
+  dbPath: string;
+  commandMode: CommandMode;
+  commandAllow: string[];
+  lockEnforcement: LockEnforcement;
+  roleEnforcement: RoleEnforcement;
+  permissions: PermissionMatrix;
+  heartbeatTimeoutSeconds: number;
+  launcher: LauncherChoice;
+};
+
 export type Config = {
   serverName: string;
   serverVersion: string;
@@ -20,9 +47,32 @@ export type Config = {
   mode: AccessMode;
   roots: string[];
   command: CommandPolicy;
+  lockEnforcement: LockEnforcement;
+  roleEnforcement: RoleEnforcement;  // How role permissions and session identities are enforced
+  permissions: PermissionMatrix;     // Defaults merged with the config file's "permissions"
+  heartbeatTimeoutSeconds: number;  // 0 disables stale-implementer reclamation
+  launcher: LauncherChoice;         // How launch_implementer opens agents; auto detects
+  userConfigPath: string;           // User config file (~/.lockstep-mcp/config.json)
+  projectConfigPath?: string;       // .lockstep.json that was applied, if any
+  sources: Record<keyof ConfigSettings, ConfigSource>;
 };
 
 const DEFAULT_ROOT = process.cwd();
+const DEFAULT_HEARTBEAT_TIMEOUT_SECONDS = 600;
+export const PROJECT_CONFIG_FILE = ".lockstep.json";
+
+const ACCESS_MODES: AccessMode[] = ["open", "strict"];
+const STORAGE_BACKENDS: StorageBackend[] = ["sqlite", "json"];
+const COMMAND_MODES: CommandMode[] = ["open", "allowlist"];
+const LOCK_ENFORCEMENTS: LockEnforcement[] = ["off", "warn", "strict"];
+const ROLE_ENFORCEMENTS: RoleEnforcement[] = ["off", "warn", "strict"];
+const LAUNCHER_CHOICES: LauncherChoice[] = ["auto", "tmux", "background", "macos"];
+
+// Keys accepted in .lockstep.json and the user config file
+const FILE_KEYS = [
+  "mode", "roots", "storage", "dataDir", "logDir", "dbPath", "command",
+  "lockEnforcement", "roleEnforcement", "permissions", "heartbeatTimeoutSeconds", "launcher", "agents",
+];
 
 function parseArgValue(args: string[], key: string): string | undefined {
   const idx = args.indexOf(key);
@@ -30,6 +80,174 @@ function parseArgValue(args: string[], key: string): string | undefined {
   return args[idx + 1];
 }
 
+function splitList(raw: string): string[] {
+  return raw
+    .split(",")
+    .map((item: string) => item.trim())
+    .filter(Boolean);
+}
+
+function oneOf<T extends string>(value: unknown, allowed: T[]): T | undefined {
+  return allowed.includes(value as T) ? (value as T) : undefined;
+}
+
+/**
+ * Settings from flags or env vars. Unknown values are ignored, so a bad flag
+ * falls through to the next source.
+ */
+function parseStringSettings(get: (flag: string, env: string) => string | undefined): Partial<ConfigSettings> {
+  const settings: Partial<ConfigSettings> = {};
+  const mode = oneOf(get("--mode", "COORD_MODE"), ACCESS_MODES);
+  if (mode) settings.mode = mode;
+  const roots = get("--roots", "COORD_ROOTS");
+  if (roots) settings.roots = normalizeRoots(splitList(roots));
+  const storage = oneOf(get("--storage", "COORD_STORAGE"), STORAGE_BACKENDS);
+  if (storage) settings.storage = storage;
+  const dataDir = get("--data-dir", "COORD_DATA_DIR");
+  if (dataDir) settings.dataDir = path.resolve(expandHome(dataDir));
+  const logDir = get("--log-dir", "COORD_LOG_DIR");
+  if (logDir) settings.logDir = path.resolve(expandHome(logDir));
+  const dbPath = get("--db-path", "COORD_DB_PATH");
+  if (dbPath) settings.dbPath = path.resolve(expandHome(dbPath));
+  const commandMode = oneOf(get("--command-mode", "COORD_COMMAND_MODE"), COMMAND_MODES);
+  if (commandMode) settings.commandMode = commandMode;
+  const commandAllow = get("--command-allow", "COORD_COMMAND_ALLOW");
+  if (commandAllow) settings.commandAllow = splitList(commandAllow);
+  const lockEnforcement = oneOf(get("--lock-enforcement", "COORD_LOCK_ENFORCEMENT"), LOCK_ENFORCEMENTS);
+  if (lockEnforcement) settings.lockEnforcement = lockEnforcement;
+  const roleEnforcement = oneOf(get("--role-enforcement", "COORD_ROLE_ENFORCEMENT"), ROLE_ENFORCEMENTS);
+  if (roleEnforcement) settings.roleEnforcement = roleEnforcement;
+  const heartbeatTimeout = Number(get("--heartbeat-timeout", "COORD_HEARTBEAT_TIMEOUT") || NaN);
+  if (Number.isFinite(heartbeatTimeout) && heartbeatTimeout >= 0) settings.heartbeatTimeoutSeconds = heartbeatTimeout;
+  const launcher = oneOf(get("--launcher", "COORD_LAUNCHER"), LAUNCHER_CHOICES);
+  if (launcher) settings.launcher = launcher;
+  return settings;
+}
+
+/**
+ * Validate the contents of a config file and return its settings. Relative
+ * paths resolve from the file's directory.
+ */
+export function parseConfigFile(raw: unknown, filePath: string): Partial<ConfigSettings> {
+  const fail = (problem: string) => new Error(`Invalid config in ${filePath}: ${problem}`);
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw fail("expected a JSON object");
+  const value = raw as Record<string, unknown>;
+  const baseDir = path.dirname(filePath);
+  const settings: Partial<ConfigSettings> = {};
+
+  for (const key of Object.keys(value)) {
+    if (!FILE_KEYS.includes(key)) throw fail(`unknown key "${key}" (expected one of ${FILE_KEYS.join(", ")})`);
+  }
+
+  const choice = <T extends string>(key: string, input: unknown, allowed: T[]): T | undefined => {
+    if (input === undefined) return undefined;
+    const picked = oneOf(input, allowed);
+    if (!picked) throw fail(`"${key}" must be one of ${allowed.join(", ")}`);
+    return picked;
+  };
+  const filePathSetting = (key: string): string | undefined => {
+    const input = value[key];
+    if (input === undefined) return undefined;
+    if (typeof input !== "string" || !input) throw fail(`"${key}" must be a path`);
+    return path.resolve(baseDir, expandHome(input));
+  };
+  const stringList = (key: string, input: unknown): string[] => {
+    if (!Array.isArray(input) || input.some((item) => typeof item !== "string")) {
+      throw fail(`"${key}" must be an array of strings`);
+    }
+    return input as string[];
+  };
+
+  const mode = choice("mode", value.mode, ACCESS_MODES);
+  if (mode) settings.mode = mode;
+  if (value.roots !== undefined) {
+    settings.roots = normalizeRoots(stringList("roots", value.roots).map((root) => path.resolve(baseDir, expandHome(root))));
+  }
+  const storage = choice("storage", value.storage, STORAGE_BACKENDS);
+  if (storage) settings.storage = storage;
+  const dataDir = filePathSetting("dataDir");
+  if (dataDir) settings.dataDir = dataDir;
+  const logDir = filePathSetting("logDir");
+  if (logDir) settings.logDir = logDir;
+  const dbPath = filePathSetting("dbPath");
+  if (dbPath) settings.dbPath = dbPath;
+
+  if (value.command !== undefined) {
+    const command = value.command as Record<string, unknown> | null;
+    if (!command || typeof command !== "object" || Array.isArray(command)) {
+      throw fail(`"command" must be an object with "mode" and/or "allow"`);
+    }
+    for (const key of Object.keys(command)) {
+      if (key !== "mode" && key !== "allow") throw fail(`unknown key "command.${key}" (expected mode, allow)`);
+    }
+    const commandMode = choice("command.mode", command.mode, COMMAND_MODES);
+    if (commandMode) settings.commandMode = commandMode;
+    if (command.allow !== undefined) settings.commandAllow = stringList("command.allow", command.allow);
+  }
+
+  const lockEnforcement = choice("lockEnforcement", value.lockEnforcement, LOCK_ENFORCEMENTS);
+  if (lockEnforcement) settings.lockEnforcement = lockEnforcement;
+  const roleEnforcement = choice("roleEnforcement", value.roleEnforcement, ROLE_ENFORCEMENTS);
+  if (roleEnforcement) settings.roleEnforcement = roleEnforcement;
+  if (value.permissions !== undefined) {
+    const permissions = value.permissions as Record<string, unknown> | null;
+    if (!permissions || typeof permissions !== "object" || Array.isArray(permissions)) {
+      throw fail(`"permissions" must be an object mapping tool names to arrays of roles`);
+    }
+    settings.permissions = {};
+    for (const [tool, roles] of Object.entries(permissions)) {
+      if (!Array.isArray(roles) || roles.some((role) => !ROLES.includes(role as Role))) {
+        throw fail(`"permissions.${tool}" must be an array of roles (${ROLES.join(", ")})`);
+      }
+      settings.permissions[tool] = roles as Role[];
+    }
+  }
+  if (value.heartbeatTimeoutSeconds !== undefined) {
+    const timeout = value.heartbeatTimeoutSeconds;
+    if (typeof timeout !== "number" || !Number.isFinite(timeout) || timeout < 0) {
+      throw fail(`"heartbeatTimeoutSeconds" must be a number of seconds (0 disables)`);
+    }
+    settings.heartbeatTimeoutSeconds = timeout;
+  }
+  const launcher = choice("launcher", value.launcher, LAUNCHER_CHOICES);
+  if (launcher) settings.launcher = launcher;
+
+  // Agent profiles are applied by loadAgentProfiles; check them here so a bad
+  // profile is reported at startup
+  if (value.agents !== undefined) parseAgentProfiles(value.agents, filePath);
+
+  return settings;
+}
+
+function readConfigFile(filePath: string): Partial<ConfigSettings> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read ${filePath}: ${message}`);
+  }
+  return parseConfigFile(raw, filePath);
+}
+
+/**
+ * Nearest .lockstep.json in a directory or one of its parents
+ */
+export function findProjectConfig(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+  for (;;) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILE);
+    if (fs.existsSync(candidate)) return candidate;
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Build the config from, in order of precedence: CLI flags, COORD_* env vars,
+ * the project's .lockstep.json, the user config file and defaults
+ */
 export function loadConfig(): Config {
   const args = process.argv.slice(2);
   const serverName =
@@ -37,53 +255,94 @@ export function loadConfig(): Config {
   const serverVersion =
     parseArgValue(args, "--server-version") || process.env.COORD_SERVER_VERSION || "0.1.0";
 
-  const mode =
-    (parseArgValue(args, "--mode") || process.env.COORD_MODE || "open") as AccessMode;
-
-  const rootsRaw =
-    parseArgValue(args, "--roots") || process.env.COORD_ROOTS || DEFAULT_ROOT;
-  const roots = normalizeRoots(
-    rootsRaw
-      .split(",")
-      .map((root: string) => root.trim())
-      .filter(Boolean)
-  );
-
-  const dataDirRaw =
-    parseArgValue(args, "--data-dir") || process.env.COORD_DATA_DIR || "~/.lockstep-mcp/data";
-  const logDirRaw =
-    parseArgValue(args, "--log-dir") || process.env.COORD_LOG_DIR || "~/.lockstep-mcp/logs";
-  const dataDir = path.resolve(expandHome(dataDirRaw));
-  const logDir = path.resolve(expandHome(logDirRaw));
-
-  const storage =
-    (parseArgValue(args, "--storage") || process.env.COORD_STORAGE || "sqlite") as StorageBackend;
-  const dbPathRaw =
-    parseArgValue(args, "--db-path") || process.env.COORD_DB_PATH || path.join(dataDir, "coordinator.db");
-
-  const commandMode =
-    (parseArgValue(args, "--command-mode") ||
-      process.env.COORD_COMMAND_MODE ||
-      "open") as CommandMode;
-  const commandAllowRaw =
-    parseArgValue(args, "--command-allow") || process.env.COORD_COMMAND_ALLOW || "";
-  const commandAllow = commandAllowRaw
-    .split(",")
-    .map((cmd: string) => cmd.trim())
-    .filter(Boolean);
+  const userConfigRaw =
+    parseArgValue(args, "--user-config") || process.env.COORD_USER_CONFIG || "~/.lockstep-mcp/config.json";
+  const userConfigPath = path.resolve(expandHome(userConfigRaw));
+
+  const projectConfigRaw = parseArgValue(args, "--project-config") || process.env.COORD_PROJECT_CONFIG;
+  const projectConfigPath = projectConfigRaw
+    ? path.resolve(expandHome(projectConfigRaw))
+    : findProjectConfig(process.cwd());
+  if (projectConfigPath && !fs.existsSync(projectConfigPath)) {
+    throw new Error(`Project config not found: ${projectConfigPath}`);
+  }
+
+  const layers: { source: ConfigSource; settings: Partial<ConfigSettings> }[] = [
+    { source: "flag", settings: parseStringSettings((flag) => parseArgValue(args, flag)) },
+    { source: "env", settings: parseStringSettings((_flag, env) => process.env[env]) },
+    { source: "project", settings: projectConfigPath ? readConfigFile(projectConfigPath) : {} },
+    { source: "user", settings: fs.existsSync(userConfigPath) ? readConfigFile(userConfigPath) : {} },
+  ];
+
+  const sources = {} as Record<keyof ConfigSettings, ConfigSource>;
+  const resolve = <K extends keyof ConfigSettings>(key: K, fallback: () => ConfigSettings[K]): ConfigSettings[K] => {
+    for (const layer of layers) {
+      const value = layer.settings[key];
+      if (value !== undefined) {
+        sources[key] = layer.source;
+        return value as ConfigSettings[K];
+      }
+    }
+    sources[key] = "default";
+    return fallback();
+  };
+
+  const dataDir = resolve("dataDir", () => path.resolve(expandHome("~/.lockstep-mcp/data")));
+  const logDir = resolve("logDir", () => path.resolve(expandHome("~/.lockstep-mcp/logs")));
 
   return {
     serverName,
     serverVersion,
     dataDir,
     logDir,
-    storage: storage === "json" ? "json" : "sqlite",
-    dbPath: path.resolve(expandHome(dbPathRaw)),
-    mode: mode === "strict" ? "strict" : "open",
-    roots,
+    storage: resolve("storage", () => "sqlite"),
+    dbPath: resolve("dbPath", () => path.join(dataDir, "coordinator.db")),
+    mode: resolve("mode", () => "open"),
+    roots: resolve("roots", () => normalizeRoots([DEFAULT_ROOT])),
     command: {
-      mode: commandMode === "allowlist" ? "allowlist" : "open",
-      allow: commandAllow,
+      mode: resolve("commandMode", () => "open"),
+      allow: resolve("commandAllow", () => []),
+    },
+    lockEnforcement: resolve("lockEnforcement", () => "off"),
+    roleEnforcement: resolve("roleEnforcement", () => "strict"),
+    // The file's entries override individual tools; the rest keep their defaults
+    permissions: { ...DEFAULT_PERMISSIONS, ...resolve("permissions", () => ({})) },
+    heartbeatTimeoutSeconds: resolve("heartbeatTimeoutSeconds", () => DEFAULT_HEARTBEAT_TIMEOUT_SECONDS),
+    launcher: resolve("launcher", () => "auto"),
+    userConfigPath,
+    projectConfigPath,
+    sources,
+  };
+}
+
+/**
+ * Effective settings and where each came from, for status reports
+ */
+export function describeConfig(config: Config) {
+  const values: ConfigSettings = {
+    mode: config.mode,
+    roots: config.roots,
+    storage: config.storage,
+    dataDir: config.dataDir,
+    logDir: config.logDir,
+    dbPath: config.dbPath,
+    commandMode: config.command.mode,
+    commandAllow: config.command.allow,
+    lockEnforcement: config.lockEnforcement,
+    roleEnforcement: config.roleEnforcement,
+    permissions: config.permissions,
+    heartbeatTimeoutSeconds: config.heartbeatTimeoutSeconds,
+    launcher: config.launcher,
+  };
+  const settings = Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, { value, source: config.sources[key as keyof ConfigSettings] }])
+  ) as { [K in keyof ConfigSettings]: { value: ConfigSettings[K]; source: ConfigSource } };
+
+  return {
+    files: {
+      project: config.projectConfigPath ?? null,
+      user: fs.existsSync(config.userConfigPath) ? config.userConfigPath : null,
     },
+    settings,
   };
 }
@@ -3,8 +3,14 @@ import url from "node:url";
 import { exec } from "node:child_process";
 import { WebSocketServer } from "ws";
 import { loadConfig } from "./config.js";
+import { reclaimStaleWork } from "./heartbeats.js";
+import { focusTmuxWindow } from "./launcher.js";
+import { tailFile } from "./logTail.js";
+import { describeLockQueue } from "./lockQueue.js";
+import { describeTimeline, eventLogPath, parseReplayTime, readEventLog, replayEvents } from "./replay.js";
+import { createSnapshot, listSnapshots, pruneSnapshots, resetWithSnapshot, restoreSnapshot, snapshotDirFor } from "./snapshots.js";
 import { createStore } from "./storage.js";
-import type { Implementer } from "./storage.js";
+import type { Implementer, Store } from "./storage.js";
 
 // Focus a terminal window by name using AppleScript (macOS)
 function focusTerminalWindow(windowName: string): Promise<{ success: boolean; error?: string }> {
@@ -343,11 +349,16 @@ const DASHBOARD_HTML = `<!doctype html>
       .tag.todo { background: var(--bg-hover); color: var(--text-muted); }
       .tag.in_progress { background: var(--blue-glow); color: var(--blue); }
       .tag.review { background: var(--violet-glow); color: var(--violet); }
+      .tag.blocked { background: var(--orange-glow); color: var(--orange); }
       .tag.done { background: var(--green-glow); color: var(--green); }
       .tag.active { background: var(--green-glow); color: var(--green); }
+      .tag.shared { background: var(--blue-glow); color: var(--blue); }
+      .tag.waiting { background: var(--orange-glow); color: var(--orange); }
       .tag.stopped { background: var(--red-glow); color: var(--red); }
       .tag.terminated { background: var(--red-glow); color: var(--red); }
       .tag.worktree { background: var(--violet-glow); color: var(--violet); }
+      .tag.p0 { background: var(--red-glow); color: var(--red); }
+      .tag.p1 { background: var(--orange-glow); color: var(--orange); }
       .tag.shared { background: var(--bg-hover); color: var(--text-muted); }
       .tag.branch { background: var(--violet-glow); color: var(--violet); font-size: 9px; }
 
@@ -408,6 +419,9 @@ const DASHBOARD_HTML = `<!doctype html>
         color: var(--text-muted);
       }
 
+      .mono.lease { color: var(--orange); }
+      .mono.overdue { color: var(--red); }
+
       .empty {
         color: var(--text-muted);
         font-size: 13px;
@@ -715,6 +729,100 @@ const DASHBOARD_HTML = `<!doctype html>
         color: white;
       }
 
+      .modal.wide {
+        max-width: 560px;
+      }
+
+      /* Snapshots */
+      .snapshot-form {
+        display: flex;
+        gap: 8px;
+        margin-bottom: 16px;
+      }
+
+      .snapshot-form input {
+        flex: 1;
+        padding: 8px 10px;
+        border-radius: 6px;
+        border: 1px solid var(--border);
+        background: var(--bg-card);
+        color: var(--text-primary);
+        font-size: 12px;
+      }
+
+      .snapshot-list {
+        max-height: 320px;
+        overflow-y: auto;
+        margin-bottom: 16px;
+      }
+
+      .snapshot-row {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 8px 0;
+        border-bottom: 1px solid var(--border);
+        font-size: 12px;
+      }
+
+      .snapshot-info {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .snapshot-name {
+        color: var(--text-primary);
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .snapshot-meta {
+        color: var(--text-muted);
+        font-size: 11px;
+      }
+
+      /* Timeline Replay */
+      .replay-controls {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 12px 20px;
+        border-bottom: 1px solid var(--border);
+      }
+
+      .replay-controls input[type="range"] {
+        flex: 1;
+        accent-color: var(--blue);
+      }
+
+      .replay-time {
+        font-size: 11px;
+        color: var(--text-secondary);
+        min-width: 200px;
+        text-align: right;
+      }
+
+      .replay-columns {
+        display: grid;
+        grid-template-columns: repeat(3, 1fr);
+      }
+
+      .replay-columns .list { max-height: 320px; }
+
+      .replay-columns h3 {
+        font-size: 11px;
+        font-weight: 600;
+        text-transform: uppercase;
+        letter-spacing: 0.05em;
+        color: var(--text-muted);
+        padding: 12px 12px 0;
+      }
+
+      @media (max-width: 900px) {
+        .replay-columns { grid-template-columns: 1fr; }
+      }
+
       /* Card Action Buttons */
       .card-actions {
         display: flex;
@@ -724,6 +832,25 @@ const DASHBOARD_HTML = `<!doctype html>
         border-top: 1px solid var(--border);
       }
 
+      .card.expandable { cursor: pointer; }
+
+      .timeline {
+        margin-top: 10px;
+        padding-top: 8px;
+        border-top: 1px solid var(--border);
+        font-size: 11px;
+      }
+
+      .timeline-item {
+        display: flex;
+        gap: 8px;
+        padding: 3px 0;
+        color: var(--text-secondary);
+      }
+
+      .timeline-item .mono { flex-shrink: 0; }
+      .timeline-item.review_feedback { color: var(--orange); }
+
       .action-btn {
         padding: 5px 10px;
         border-radius: 4px;
@@ -779,6 +906,20 @@ const DASHBOARD_HTML = `<!doctype html>
         cursor: not-allowed;
       }
 
+      .log-output {
+        max-height: 420px;
+        overflow: auto;
+        padding: 12px;
+        background: var(--bg-base);
+        border: 1px solid var(--border);
+        border-radius: 4px;
+        font-family: "JetBrains Mono", monospace;
+        font-size: 11px;
+        color: var(--text-secondary);
+        white-space: pre-wrap;
+        word-break: break-all;
+      }
+
       /* Header Controls */
       .header-controls {
         display: flex;
@@ -885,6 +1026,7 @@ const DASHBOARD_HTML = `<!doctype html>
       <div class="header-controls">
         <button class="control-btn stop" id="stop-all-btn" title="Stop all implementers">⏹ Stop All</button>
         <button class="control-btn complete" id="complete-btn" title="Mark project complete">✓ Complete</button>
+        <button class="control-btn" id="snapshots-btn" title="Save or restore snapshots of the session">Snapshots</button>
         <button class="reset-btn" id="reset-btn" title="Reset session for fresh start">Reset Session</button>
         <div class="status-badge" id="status-badge">
           <div class="status-dot" id="status-dot"></div>
@@ -972,6 +1114,29 @@ const DASHBOARD_HTML = `<!doctype html>
         </div>
         <div class="list" id="note-list"></div>
       </div>
+      <div class="panel full" id="replay-panel">
+        <div class="panel-header">
+          <h2>Timeline</h2>
+          <span class="pill blue" id="replay-meta">live</span>
+        </div>
+        <div class="replay-controls">
+          <button class="action-btn" id="replay-load" title="Load the event log to scrub through it">Load History</button>
+          <input type="range" id="replay-slider" min="0" max="0" value="0" disabled>
+          <span class="replay-time mono" id="replay-time">Drag to see the session at any moment</span>
+        </div>
+        <div class="replay-columns" id="replay-columns" style="display: none">
+          <div><h3>Tasks</h3><div class="list" id="replay-tasks"></div></div>
+          <div><h3>Locks</h3><div class="list" id="replay-locks"></div></div>
+          <div><h3>Implementers</h3><div class="list" id="replay-implementers"></div></div>
+        </div>
+      </div>
+      <div class="panel full" id="log-panel" style="display: none">
+        <div class="panel-header">
+          <h2 id="log-title">Log</h2>
+          <button class="action-btn" id="log-close">Close</button>
+        </div>
+        <pre class="log-output" id="log-output"></pre>
+      </div>
     </section>
 
     <footer>
@@ -1005,7 +1170,11 @@ const DASHBOARD_HTML = `<!doctype html>
       let currentTaskFilter = "all";
       let allTasks = [];
       let allLocks = [];
+      let lockQueue = [];
+      let expandedTasks = new Set();
+      let taskHistory = {};  // taskId -> { updatedAt, events }
       let activityLog = [];
+      let currentProjectRoot = null;
 
       // Toggle resolved locks
       showResolvedToggle.addEventListener("click", () => {
@@ -1036,7 +1205,7 @@ const DASHBOARD_HTML = `<!doctype html>
         overlay.innerHTML = \`
           <div class="modal">
             <h3>Reset Session?</h3>
-            <p>This will clear all tasks, locks, notes, and archive discussions. Use this when starting a new project or when data from previous sessions is cluttering the dashboard.</p>
+            <p>This will clear all tasks, locks, notes, and archive discussions. Use this when starting a new project or when data from previous sessions is cluttering the dashboard. A snapshot is saved first, so you can restore it from Snapshots.</p>
             <label style="display: flex; align-items: center; gap: 8px; margin-bottom: 16px; font-size: 12px; color: var(--text-secondary);">
               <input type="checkbox" id="keep-context-checkbox">
               Keep project description (only reset tasks and data)
@@ -1071,7 +1240,7 @@ const DASHBOARD_HTML = `<!doctype html>
           const response = await fetch("/api/reset", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ keepProjectContext })
+            body: JSON.stringify({ keepProjectContext, projectRoot: currentProjectRoot })
           });
           const result = await response.json();
           if (result.success) {
@@ -1093,6 +1262,133 @@ const DASHBOARD_HTML = `<!doctype html>
         }
       }
 
+      // Snapshots button
+      const snapshotsBtn = document.getElementById("snapshots-btn");
+      snapshotsBtn.addEventListener("click", () => {
+        showSnapshotsModal();
+      });
+
+      function describeCounts(counts) {
+        const parts = [];
+        if (counts.tasks) parts.push(counts.tasks + " tasks");
+        if (counts.locks) parts.push(counts.locks + " locks");
+        if (counts.notes) parts.push(counts.notes + " notes");
+        if (counts.discussions) parts.push(counts.discussions + " discussions");
+        return parts.length > 0 ? parts.join(", ") : "empty";
+      }
+
+      async function postSnapshots(action, body) {
+        const response = await fetch("/api/snapshots" + (action ? "/" + action : ""), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...body, projectRoot: currentProjectRoot })
+        });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.error || "Unknown error");
+        return result;
+      }
+
+      async function loadSnapshots(list) {
+        list.innerHTML = '<div class="empty">Loading...</div>';
+        try {
+          const query = currentProjectRoot ? "?projectRoot=" + encodeURIComponent(currentProjectRoot) : "";
+          const response = await fetch("/api/snapshots" + query);
+          const result = await response.json();
+          if (!result.success) throw new Error(result.error || "Unknown error");
+          if (result.snapshots.length === 0) {
+            list.innerHTML = '<div class="empty">No snapshots yet</div>';
+            return;
+          }
+          list.innerHTML = result.snapshots.map(snapshot =>
+            '<div class="snapshot-row">' +
+              '<div class="snapshot-info">' +
+                '<div class="snapshot-name" title="' + escapeHtml(snapshot.id) + '">' + escapeHtml(snapshot.name) + '</div>' +
+                '<div class="snapshot-meta">' + formatTime(snapshot.createdAt) + ' · ' + escapeHtml(snapshot.reason) + ' · ' + describeCounts(snapshot.counts) + '</div>' +
+              '</div>' +
+              '<button class="action-btn" data-restore="' + escapeHtml(snapshot.id) + '">Restore</button>' +
+              '<button class="action-btn danger" data-delete="' + escapeHtml(snapshot.id) + '">Delete</button>' +
+            '</div>'
+          ).join("");
+        } catch (err) {
+          list.innerHTML = '<div class="empty">Failed to load snapshots: ' + escapeHtml(err.message) + '</div>';
+        }
+      }
+
+      function showSnapshotsModal() {
+        const overlay = document.createElement("div");
+        overlay.className = "modal-overlay";
+        overlay.innerHTML = \`
+          <div class="modal wide">
+            <h3>Snapshots</h3>
+            <p>Point-in-time copies of this project's tasks, locks, notes and discussions. Restoring one saves the current state as a snapshot first.</p>
+            <div class="snapshot-form">
+              <input type="text" id="snapshot-name" placeholder="Snapshot name (optional)">
+              <button class="modal-btn cancel" id="take-snapshot">Take Snapshot</button>
+            </div>
+            <div class="snapshot-list" id="snapshot-list"></div>
+            <div class="modal-actions">
+              <button class="modal-btn danger" id="prune-snapshots" title="Delete all but the 10 newest snapshots">Keep Newest 10</button>
+              <button class="modal-btn cancel" id="close-snapshots">Close</button>
+            </div>
+          </div>
+        \`;
+        document.body.appendChild(overlay);
+        const list = document.getElementById("snapshot-list");
+        loadSnapshots(list);
+
+        document.getElementById("close-snapshots").addEventListener("click", () => {
+          overlay.remove();
+        });
+
+        overlay.addEventListener("click", (e) => {
+          if (e.target === overlay) overlay.remove();
+        });
+
+        document.getElementById("take-snapshot").addEventListener("click", async () => {
+          const input = document.getElementById("snapshot-name");
+          try {
+            await postSnapshots("", { name: input.value });
+            input.value = "";
+            await loadSnapshots(list);
+          } catch (err) {
+            alert("Snapshot failed: " + err.message);
+          }
+        });
+
+        document.getElementById("prune-snapshots").addEventListener("click", async () => {
+          if (!confirm("Delete all but the 10 newest snapshots?")) return;
+          try {
+            await postSnapshots("prune", { keep: 10 });
+            await loadSnapshots(list);
+          } catch (err) {
+            alert("Prune failed: " + err.message);
+          }
+        });
+
+        list.addEventListener("click", async (e) => {
+          const restoreId = e.target.dataset.restore;
+          const deleteId = e.target.dataset.delete;
+          try {
+            if (restoreId) {
+              if (!confirm("Replace the current session with this snapshot? The current state is saved as a snapshot first.")) return;
+              const result = await postSnapshots("restore", { snapshot: restoreId });
+              activityLog = [];
+              prevTaskStates = {};
+              prevLockStates = {};
+              overlay.remove();
+              await fetchState();
+              alert(result.message);
+            } else if (deleteId) {
+              if (!confirm("Delete this snapshot?")) return;
+              await postSnapshots("prune", { ids: [deleteId] });
+              await loadSnapshots(list);
+            }
+          } catch (err) {
+            alert((restoreId ? "Restore" : "Delete") + " failed: " + err.message);
+          }
+        });
+      }
+
       // Stop All Implementers button
       const stopAllBtn = document.getElementById("stop-all-btn");
       stopAllBtn.addEventListener("click", async () => {
@@ -1200,6 +1496,61 @@ const DASHBOARD_HTML = `<!doctype html>
         return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
       }
 
+      function formatDuration(ms) {
+        const seconds = Math.round(ms / 1000);
+        if (seconds < 60) return seconds + "s";
+        if (seconds < 3600) return Math.floor(seconds / 60) + "m " + (seconds % 60) + "s";
+        return Math.floor(seconds / 3600) + "h " + Math.floor((seconds % 3600) / 60) + "m";
+      }
+
+      function formatTimeLeft(isoString) {
+        const ms = new Date(isoString).getTime() - Date.now();
+        return ms <= 0 ? "expiring" : formatDuration(ms) + " left";
+      }
+
+      function formatDue(isoString) {
+        const ms = new Date(isoString).getTime() - Date.now();
+        return ms <= 0 ? "overdue " + formatDuration(-ms) : "due in " + formatDuration(ms);
+      }
+
+      function describeTaskEvent(event) {
+        const label = value => (value || "none").replace("_", " ");
+        if (event.type === "created") return "created as " + label(event.to);
+        if (event.type === "status") return label(event.from) + " → " + label(event.to);
+        if (event.type === "owner") return event.to ? "assigned to @" + event.to : "unassigned";
+        if (event.type === "review_requested") return "submitted for review: " + (event.to || "");
+        if (event.type === "review_feedback") return "review feedback: " + (event.to || "");
+        return event.field + " changed";
+      }
+
+      function renderTaskHistory(events, container) {
+        if (!events.length) {
+          container.innerHTML = '<div class="timeline-item">No history recorded</div>';
+          return;
+        }
+        container.innerHTML = events.map(event =>
+          '<div class="timeline-item ' + event.type + '">' +
+          '<span class="mono">' + formatTime(event.createdAt) + '</span>' +
+          '<span>' + (event.actor ? '@' + escapeHtml(event.actor) + ' ' : '') + escapeHtml(describeTaskEvent(event)) + '</span>' +
+          '</div>'
+        ).join("");
+      }
+
+      // Show a task's timeline, fetching it again only when the task has changed
+      async function loadTaskHistory(task, container) {
+        const cached = taskHistory[task.id];
+        if (cached) renderTaskHistory(cached.events, container);
+        if (cached && cached.updatedAt === task.updatedAt) return;
+        try {
+          const response = await fetch("/api/task/" + encodeURIComponent(task.id) + "/history");
+          const result = await response.json();
+          taskHistory[task.id] = { updatedAt: task.updatedAt, events: result.events || [] };
+          renderTaskHistory(taskHistory[task.id].events, container);
+        } catch (err) {
+          container.innerHTML = '<div class="timeline-item">Failed to load history</div>';
+        }
+      }
+
       function renderTasks(tasks) {
         allTasks = tasks; // Store for filtering
         taskList.innerHTML = "";
@@ -1220,7 +1571,7 @@ const DASHBOARD_HTML = `<!doctype html>
         const sorted = [...filtered].sort((a, b) => (order[a.status] || 99) - (order[b.status] || 99));
         sorted.forEach(task => {
           const card = document.createElement("div");
-          card.className = "card";
+          card.className = "card expandable";
           const desc = task.description
             ? '<div class="card-desc">' + escapeHtml(task.description.substring(0, 150)) + (task.description.length > 150 ? '...' : '') + "</div>"
             : "";
@@ -1244,12 +1595,25 @@ const DASHBOARD_HTML = `<!doctype html>
             desc +
             '<div class="card-meta">' +
             (task.owner ? '<span class="mono">@' + escapeHtml(task.owner) + '</span>' : '') +
+            (task.priority ? '<span class="tag ' + task.priority.toLowerCase() + '">' + task.priority + '</span>' : '') +
             (task.complexity ? '<span class="tag">' + task.complexity + '</span>' : '') +
             isolationTag +
+            (task.dependsOn && task.dependsOn.length ? '<span class="mono">needs ' + task.dependsOn.length + ' task(s)</span>' : '') +
+            (task.dueAt && task.status !== "done" ? '<span class="mono' + (new Date(task.dueAt).getTime() < Date.now() ? ' overdue' : '') + '">' + formatDue(task.dueAt) + '</span>' : '') +
             '<span class="mono">' + formatTime(task.updatedAt) + '</span>' +
             "</div>" +
             reviewNotes +
-            actions;
+            actions +
+            (expandedTasks.has(task.id) ? '<div class="timeline"></div>' : '');
+
+          // Click a card to show its history timeline
+          card.addEventListener("click", () => {
+            if (expandedTasks.has(task.id)) expandedTasks.delete(task.id);
+            else expandedTasks.add(task.id);
+            renderTasks(allTasks);
+          });
+          const timeline = card.querySelector(".timeline");
+          if (timeline) loadTaskHistory(task, timeline);
 
           // Add event listeners for action buttons
           if (task.status === "review") {
@@ -1280,7 +1644,7 @@ const DASHBOARD_HTML = `<!doctype html>
         // Filter based on toggle
         let filtered = showResolvedLocks ? locks : locks.filter(l => l.status === "active");
 
-        if (!filtered.length) {
+        if (!filtered.length && !lockQueue.length) {
           const msg = showResolvedLocks ? "No locks" : "No active locks";
           lockList.innerHTML = '<div class="empty">' + msg + '</div>';
           return;
@@ -1293,22 +1657,62 @@ const DASHBOARD_HTML = `<!doctype html>
           return b.updatedAt.localeCompare(a.updatedAt);
         });
 
+        // Holders of the same active shared lock are shown as one card
+        const sharedGroups = {};
+        const cards = [];
         filtered.forEach(lock => {
+          if (lock.mode === "shared" && lock.status === "active") {
+            if (sharedGroups[lock.path]) {
+              sharedGroups[lock.path].push(lock);
+              return;
+            }
+            sharedGroups[lock.path] = [lock];
+            cards.push(sharedGroups[lock.path]);
+          } else {
+            cards.push([lock]);
+          }
+        });
+
+        cards.forEach(holders => {
+          const lock = holders[0];
           const card = document.createElement("div");
           card.className = "card";
           const fileName = lock.path.split('/').pop();
+          const holderMeta = holders.map(holder =>
+            (holder.owner ? '<span class="mono">@' + escapeHtml(holder.owner) + '</span>' : '') +
+            (holder.status === "active" && holder.expiresAt ? '<span class="mono lease">' + formatTimeLeft(holder.expiresAt) + '</span>' : '')
+          ).join("");
           card.innerHTML =
             '<div class="card-title">' +
             '<span class="tag ' + lock.status + '">' + lock.status + '</span>' +
+            (lock.mode === "shared" ? '<span class="tag shared">shared' + (holders.length > 1 ? ' ×' + holders.length : '') + '</span>' : '') +
             escapeHtml(fileName) +
             "</div>" +
             '<div class="card-desc mono">' + escapeHtml(lock.path) + '</div>' +
             '<div class="card-meta">' +
-            (lock.owner ? '<span class="mono">@' + escapeHtml(lock.owner) + '</span>' : '') +
+            holderMeta +
             '<span class="mono">' + formatTime(lock.updatedAt) + '</span>' +
             "</div>";
           lockList.appendChild(card);
         });
+
+        // Agents queued for a lock, in the order they will be served
+        lockQueue.forEach(waiter => {
+          const card = document.createElement("div");
+          card.className = "card";
+          card.innerHTML =
+            '<div class="card-title">' +
+            '<span class="tag waiting">waiting #' + waiter.position + '</span>' +
+            escapeHtml(waiter.path.split('/').pop()) +
+            "</div>" +
+            '<div class="card-desc mono">' + escapeHtml(waiter.path) + '</div>' +
+            '<div class="card-meta">' +
+            (waiter.owner ? '<span class="mono">@' + escapeHtml(waiter.owner) + '</span>' : '') +
+            (waiter.blockedBy.length ? '<span class="mono">behind ' + waiter.blockedBy.map(o => '@' + escapeHtml(o)).join(", ") + '</span>' : '') +
+            '<span class="mono lease">~' + formatDuration(waiter.estimatedWaitMs) + ' wait</span>' +
+            "</div>";
+          lockList.appendChild(card);
+        });
       }
 
       function renderNotes(notes) {
@@ -1535,9 +1939,13 @@ const DASHBOARD_HTML = `<!doctype html>
             tasksHtml += '</div>';
           }
 
-          // Add stop button for active implementers
-          const actionsHtml = isActive
-            ? '<div class="card-actions"><button class="action-btn danger" data-impl-id="' + impl.id + '" data-impl-name="' + escapeHtml(impl.name) + '">⏹ Stop</button></div>'
+          // Add stop button for active implementers, and a log viewer when output is captured
+          const logBtnHtml = impl.logFile ? '<button class="action-btn log">Logs</button>' : '';
+          const stopBtnHtml = isActive
+            ? '<button class="action-btn danger" data-impl-id="' + impl.id + '" data-impl-name="' + escapeHtml(impl.name) + '">⏹ Stop</button>'
+            : '';
+          const actionsHtml = logBtnHtml || stopBtnHtml
+            ? '<div class="card-actions">' + logBtnHtml + stopBtnHtml + '</div>'
             : '';
 
           card.innerHTML =
@@ -1549,10 +1957,19 @@ const DASHBOARD_HTML = `<!doctype html>
             '<span class="tag">' + impl.type + '</span>' +
             isolationHtml +
             '<span class="mono">' + formatTime(impl.createdAt) + '</span>' +
+            (impl.exitCode !== undefined && impl.exitCode !== null ? '<span class="mono">exit ' + impl.exitCode + '</span>' : '') +
+            (isActive && impl.lastSeenAt ? '<span class="mono">seen ' + formatDuration(Math.max(Date.now() - new Date(impl.lastSeenAt).getTime(), 0)) + ' ago</span>' : '') +
             "</div>" +
             tasksHtml +
             actionsHtml;
 
+          const logBtn = card.querySelector(".action-btn.log");
+          if (logBtn) {
+            logBtn.addEventListener("click", (e) => {
+              e.stopPropagation();
+              openLog(impl.id, impl.name);
+            });
+          }
           if (isActive) {
             // Add click to focus (but not on the stop button)
             card.addEventListener("click", (e) => {
@@ -1572,7 +1989,8 @@ const DASHBOARD_HTML = `<!doctype html>
         });
       }
 
-      function updateState(state, config, projectContext, implementers) {
+      function updateState(state, config, projectContext, implementers, queue) {
+        lockQueue = queue || [];
         taskCount.textContent = state.tasks.length;
         const activeLocks = state.locks.filter(lock => lock.status === "active").length;
         lockCount.textContent = activeLocks; // Show ACTIVE locks only
@@ -1585,7 +2003,8 @@ const DASHBOARD_HTML = `<!doctype html>
         const doneTasks = state.tasks.filter(t => t.status === "done").length;
         taskMeta.textContent = todoTasks + " todo / " + inProgressTasks + " active / " + reviewTasks + " review / " + doneTasks + " done";
 
-        lockMeta.textContent = activeLocks + " active" + (state.locks.length > activeLocks ? " / " + state.locks.length + " total" : "");
+        lockMeta.textContent = activeLocks + " active" + (state.locks.length > activeLocks ? " / " + state.locks.length + " total" : "") +
+          (lockQueue.length ? " / " + lockQueue.length + " waiting" : "");
         implMeta.textContent = activeImpls + " active";
 
         // Update progress bar
@@ -1611,30 +2030,79 @@ const DASHBOARD_HTML = `<!doctype html>
           const response = await fetch("/api/state");
           const data = await response.json();
           console.log("Fetched state:", data);
-          updateState(data.state, data.config, data.projectContext, data.implementers);
+          currentProjectRoot = data.projectRoot;
+          updateState(data.state, data.config, data.projectContext, data.implementers, data.lockQueue);
         } catch (err) {
           console.error("Failed to fetch state:", err);
           statusEl.textContent = "Error loading data - check console";
         }
       }
 
+      // Live implementer log, streamed over the WebSocket
+      const logPanel = document.getElementById("log-panel");
+      const logTitle = document.getElementById("log-title");
+      const logOutput = document.getElementById("log-output");
+      const MAX_LOG_CHARS = 200000;
+      let liveSocket = null;
+      let logImplementerId = null;
+
+      function sendSocket(message) {
+        if (liveSocket && liveSocket.readyState === WebSocket.OPEN) {
+          liveSocket.send(JSON.stringify(message));
+        }
+      }
+
+      function openLog(implId, implName) {
+        logImplementerId = implId;
+        logTitle.textContent = "Log: " + implName;
+        logOutput.textContent = "Waiting for output...";
+        logPanel.style.display = "";
+        sendSocket({ type: "log_subscribe", implementerId: implId });
+        logPanel.scrollIntoView({ behavior: "smooth" });
+      }
+
+      function closeLog() {
+        logImplementerId = null;
+        logPanel.style.display = "none";
+        sendSocket({ type: "log_unsubscribe" });
+      }
+
+      function appendLogOutput(payload) {
+        if (payload.implementerId !== logImplementerId) return;
+        if (payload.error) {
+          logOutput.textContent = payload.error;
+          return;
+        }
+        const atBottom = logOutput.scrollTop + logOutput.clientHeight >= logOutput.scrollHeight - 20;
+        const text = (payload.reset ? "" : logOutput.textContent) + payload.data;
+        logOutput.textContent = text.length > MAX_LOG_CHARS ? text.slice(-MAX_LOG_CHARS) : text;
+        if (atBottom) logOutput.scrollTop = logOutput.scrollHeight;
+      }
+
+      document.getElementById("log-close").addEventListener("click", closeLog);
+
       function connect() {
         const protocol = window.location.protocol === "https:" ? "wss" : "ws";
         const wsUrl = protocol + "://" + window.location.host + "/ws";
         console.log("Connecting to WebSocket:", wsUrl);
         const socket = new WebSocket(wsUrl);
+        liveSocket = socket;
 
         socket.addEventListener("open", () => {
           console.log("WebSocket connected");
           statusEl.textContent = "Live";
           statusBadge.classList.add("connected");
+          if (logImplementerId) sendSocket({ type: "log_subscribe", implementerId: logImplementerId });
         });
 
         socket.addEventListener("message", (event) => {
           const payload = JSON.parse(event.data);
           console.log("WebSocket message:", payload.type);
           if (payload.type === "snapshot" || payload.type === "state") {
-            updateState(payload.state, payload.config, payload.projectContext, payload.implementers);
+            currentProjectRoot = payload.projectRoot;
+            updateState(payload.state, payload.config, payload.projectContext, payload.implementers, payload.lockQueue);
+          } else if (payload.type === "log") {
+            appendLogOutput(payload);
           }
         });
 
@@ -1651,11 +2119,86 @@ const DASHBOARD_HTML = `<!doctype html>
         });
       }
 
+      // Timeline scrubber: replays the event log up to the chosen moment
+      const replaySlider = document.getElementById("replay-slider");
+      const replayTime = document.getElementById("replay-time");
+      const replayMeta = document.getElementById("replay-meta");
+      const replayColumns = document.getElementById("replay-columns");
+
+      function renderReplayList(containerId, items, emptyText, renderItem) {
+        const container = document.getElementById(containerId);
+        container.innerHTML = items.length
+          ? items.map(item => '<div class="card">' + renderItem(item) + '</div>').join("")
+          : '<div class="empty">' + emptyText + '</div>';
+      }
+
+      function renderReplay(state) {
+        replayColumns.style.display = "";
+        replayMeta.textContent = state.eventsApplied + " events";
+        replayTime.textContent = new Date(state.at).toLocaleString() +
+          (state.lastEvent ? " · " + state.lastEvent.event : "");
+        renderReplayList("replay-tasks", state.tasks, "No tasks", task =>
+          '<div class="card-title"><span class="tag ' + task.status + '">' + task.status.replace("_", " ") + '</span>' + escapeHtml(task.title) + '</div>' +
+          '<div class="card-meta">' + (task.owner ? '<span class="mono">@' + escapeHtml(task.owner) + '</span>' : '') + '<span class="mono">' + formatTime(task.updatedAt) + '</span></div>'
+        );
+        renderReplayList("replay-locks", state.locks.filter(lock => lock.status === "active"), "No active locks", lock =>
+          '<div class="card-title mono">' + escapeHtml(lock.path) + '</div>' +
+          '<div class="card-meta">' + (lock.owner ? '<span class="mono">@' + escapeHtml(lock.owner) + '</span>' : '') + '<span class="tag">' + escapeHtml(lock.mode || "exclusive") + '</span></div>'
+        );
+        renderReplayList("replay-implementers", state.implementers, "No implementers", impl =>
+          '<div class="card-title"><span class="tag ' + impl.status + '">' + impl.status + '</span>' + escapeHtml(impl.name) + '</div>' +
+          '<div class="card-meta"><span class="mono">' + escapeHtml(impl.type) + '</span></div>'
+        );
+      }
+
+      async function loadReplay(at) {
+        const params = new URLSearchParams();
+        if (currentProjectRoot) params.set("projectRoot", currentProjectRoot);
+        if (at) params.set("at", new Date(at).toISOString());
+        try {
+          const response = await fetch("/api/replay?" + params.toString());
+          const result = await response.json();
+          if (!result.success) throw new Error(result.error || "Unknown error");
+          return result;
+        } catch (err) {
+          replayTime.textContent = "Replay failed: " + err.message;
+          return null;
+        }
+      }
+
+      document.getElementById("replay-load").addEventListener("click", async () => {
+        const result = await loadReplay();
+        if (!result) return;
+        if (!result.timeline.events) {
+          replayTime.textContent = "The event log is empty";
+          return;
+        }
+        replaySlider.min = String(new Date(result.timeline.first).getTime());
+        replaySlider.max = String(new Date(result.timeline.last).getTime());
+        replaySlider.value = replaySlider.max;
+        replaySlider.disabled = false;
+        renderReplay(result.state);
+      });
+
+      replaySlider.addEventListener("input", () => {
+        replayTime.textContent = new Date(Number(replaySlider.value)).toLocaleString();
+      });
+
+      replaySlider.addEventListener("change", async () => {
+        const result = await loadReplay(Number(replaySlider.value));
+        if (result) renderReplay(result.state);
+      });
+
       // Load initial data immediately, then connect for live updates
       fetchState().then(() => {
         console.log("Initial fetch complete");
       });
       connect();
+
+      // Keep lease countdowns current between state updates
+      setInterval(() => {
+        if (allLocks.some(l => l.status === "active" && l.expiresAt)) renderLocks(allLocks);
+      }, 1000);
     </script>
   </body>
 </html>
@@ -1665,21 +2208,54 @@ type DashboardOptions = {
   port?: number;
   host?: string;
   pollMs?: number;
+  store?: Store;  // Share an initialized store instead of opening one
+  mcp?: (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>;  // Serves /mcp when set
+};
+
+export type DashboardHandle = {
+  url: string;
+  close: () => Promise<void>;
 };
 
-export async function startDashboard(options: DashboardOptions = {}) {
+export async function startDashboard(options: DashboardOptions = {}): Promise<DashboardHandle> {
   const config = loadConfig();
-  const store = createStore(config);
-  await store.init();
+  const store = options.store ?? createStore(config);
+  if (!options.store) await store.init();
+  const snapshotDir = snapshotDirFor(config.dataDir);
 
   const port = options.port ?? 8787;
   const host = options.host ?? "127.0.0.1";
   const pollMsIdle = options.pollMs ?? 1500;
   const pollMsActive = 500; // Faster polling during active work
 
+  // The dashboard shows one project: the requested root, else the first configured root
+  // if it has a context, else the most recently updated project
+  const resolveProjectRoot = async (requested?: string | null) => {
+    if (requested) return requested;
+    const fallback = config.roots[0] ?? process.cwd();
+    if (await store.getProjectContext(fallback)) return fallback;
+    const allContexts = await store.listAllProjectContexts();
+    const latest = allContexts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+    return latest?.projectRoot ?? fallback;
+  };
+
   const server = http.createServer(async (req, res) => {
     const parsed = url.parse(req.url || "");
 
+    // MCP clients of the HTTP server (lockstep-mcp server --http)
+    if (options.mcp && parsed.pathname === "/mcp") {
+      try {
+        await options.mcp(req, res);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        if (!res.headersSent) {
+          res.writeHead(500, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32603, message }, id: null }));
+        }
+      }
+      return;
+    }
+
     // Handle focus implementer API
     const focusMatch = parsed.pathname?.match(/^\/api\/focus\/(.+)$/);
     if (focusMatch && req.method === "POST") {
@@ -1699,7 +2275,9 @@ export async function startDashboard(options: DashboardOptions = {}) {
         return;
       }
 
-      const result = await focusTerminalWindow(impl.name);
+      const result = impl.tmuxTarget
+        ? focusTmuxWindow(impl.tmuxTarget)
+        : await focusTerminalWindow(impl.name);
       res.writeHead(result.success ? 200 : 400, { "Content-Type": "application/json" });
       res.end(JSON.stringify(result));
       return;
@@ -1713,15 +2291,15 @@ export async function startDashboard(options: DashboardOptions = {}) {
         try {
           const data = JSON.parse(body || "{}");
           const keepProjectContext = data.keepProjectContext ?? false;
-          const projectRoot = config.roots[0] ?? process.cwd();
+          const projectRoot = await resolveProjectRoot(data.projectRoot);
 
-          const result = await store.resetSession(projectRoot, { keepProjectContext });
+          const result = await resetWithSnapshot(store, snapshotDir, projectRoot, { keepProjectContext });
 
           res.writeHead(200, { "Content-Type": "application/json" });
           res.end(JSON.stringify({
             success: true,
             ...result,
-            message: `Cleared ${result.tasksCleared} tasks, ${result.locksCleared} locks, ${result.notesCleared} notes. Reset ${result.implementersReset} implementers, archived ${result.discussionsArchived} discussions.`
+            message: `Cleared ${result.tasksCleared} tasks, ${result.locksCleared} locks, ${result.notesCleared} notes. Reset ${result.implementersReset} implementers, archived ${result.discussionsArchived} discussions. The previous state was saved as snapshot "${result.snapshot.name}".`
           }));
         } catch (error) {
           const message = error instanceof Error ? error.message : "Unknown error";
@@ -1732,10 +2310,84 @@ export async function startDashboard(options: DashboardOptions = {}) {
       return;
     }
 
+    // Handle event log replay API
+    if (parsed.pathname === "/api/replay" && req.method === "GET") {
+      try {
+        const query = new URLSearchParams(parsed.query ?? "");
+        const projectRoot = await resolveProjectRoot(query.get("projectRoot"));
+        const at = query.get("at");
+        const events = await readEventLog(eventLogPath(config.logDir));
+        const state = replayEvents(events, { projectRoot, at: at ? parseReplayTime(at) : undefined });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true, timeline: describeTimeline(events), state }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: false, error: message }));
+      }
+      return;
+    }
+
+    // Handle snapshot list API
+    if (parsed.pathname === "/api/snapshots" && req.method === "GET") {
+      try {
+        const projectRoot = await resolveProjectRoot(new URLSearchParams(parsed.query ?? "").get("projectRoot"));
+        const snapshots = await listSnapshots(snapshotDir, projectRoot);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true, projectRoot, snapshots }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: false, error: message }));
+      }
+      return;
+    }
+
+    // Handle snapshot take, restore and prune APIs
+    const snapshotMatch = parsed.pathname?.match(/^\/api\/snapshots(?:\/(restore|prune))?$/);
+    if (snapshotMatch && req.method === "POST") {
+      let body = "";
+      req.on("data", (chunk) => { body += chunk; });
+      req.on("end", async () => {
+        try {
+          const data = JSON.parse(body || "{}");
+          const projectRoot = await resolveProjectRoot(data.projectRoot);
+          let result: Record<string, unknown>;
+
+          if (snapshotMatch[1] === "restore") {
+            const restored = await restoreSnapshot(store, snapshotDir, { projectRoot, snapshot: String(data.snapshot ?? "") });
+            result = {
+              ...restored,
+              message: `Restored snapshot "${restored.snapshot.name}". The previous state was saved as "${restored.backup.name}". Implementers were restored as stopped.`
+            };
+          } else if (snapshotMatch[1] === "prune") {
+            const pruned = await pruneSnapshots(store, snapshotDir, {
+              projectRoot,
+              ids: Array.isArray(data.ids) ? data.ids : undefined,
+              keep: typeof data.keep === "number" ? data.keep : undefined,
+              olderThanDays: typeof data.olderThanDays === "number" ? data.olderThanDays : undefined,
+            });
+            result = { pruned: pruned.map((snapshot) => snapshot.id) };
+          } else {
+            const name = typeof data.name === "string" ? data.name : undefined;
+            result = { snapshot: await createSnapshot(store, snapshotDir, { projectRoot, name }) };
+          }
+
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ success: true, ...result }));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown error";
+          res.writeHead(500, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ success: false, error: message }));
+        }
+      });
+      return;
+    }
+
     // Handle stop all implementers API
     if (parsed.pathname === "/api/stop-all" && req.method === "POST") {
       try {
-        const implementers = await store.listImplementers();
+        const implementers = await store.listImplementers(await resolveProjectRoot());
         let stoppedCount = 0;
 
         for (const impl of implementers) {
@@ -1766,7 +2418,7 @@ export async function startDashboard(options: DashboardOptions = {}) {
     // Handle mark project complete API
     if (parsed.pathname === "/api/complete" && req.method === "POST") {
       try {
-        const projectRoot = config.roots[0] ?? process.cwd();
+        const projectRoot = await resolveProjectRoot();
         const context = await store.getProjectContext(projectRoot);
 
         if (context) {
@@ -1776,8 +2428,8 @@ export async function startDashboard(options: DashboardOptions = {}) {
           });
         }
 
-        // Stop all active implementers
-        const implementers = await store.listImplementers();
+        // Stop all of the project's active implementers
+        const implementers = await store.listImplementers(projectRoot);
         for (const impl of implementers) {
           if (impl.status === "active") {
             if (impl.pid) {
@@ -1801,12 +2453,28 @@ export async function startDashboard(options: DashboardOptions = {}) {
       return;
     }
 
+    // Handle task history API
+    const historyMatch = parsed.pathname?.match(/^\/api\/task\/(.+)\/history$/);
+    if (historyMatch && req.method === "GET") {
+      try {
+        const taskId = decodeURIComponent(historyMatch[1]);
+        const events = await store.listTaskEvents({ taskId });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true, events }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: false, error: message }));
+      }
+      return;
+    }
+
     // Handle task approve API
     const approveMatch = parsed.pathname?.match(/^\/api\/task\/(.+)\/approve$/);
     if (approveMatch && req.method === "POST") {
       try {
         const taskId = decodeURIComponent(approveMatch[1]);
-        await store.approveTask({ id: taskId });
+        await store.approveTask({ id: taskId, actor: "dashboard" });
 
         res.writeHead(200, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ success: true }));
@@ -1830,7 +2498,7 @@ export async function startDashboard(options: DashboardOptions = {}) {
           const feedback = data.feedback || "Changes requested";
 
           // Mark task as in_progress with feedback
-          await store.requestTaskChanges({ id: taskId, feedback });
+          await store.requestTaskChanges({ id: taskId, feedback, actor: "dashboard" });
 
           res.writeHead(200, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ success: true }));
@@ -1857,6 +2525,9 @@ export async function startDashboard(options: DashboardOptions = {}) {
           return;
         }
 
+        // Mark stopped first so a headless runner does not restart the process
+        await store.updateImplementer(impl.id, "stopped");
+
         // Try to kill the process if we have a PID
         if (impl.pid) {
           try {
@@ -1866,8 +2537,6 @@ export async function startDashboard(options: DashboardOptions = {}) {
           }
         }
 
-        await store.updateImplementer(impl.id, "stopped");
-
         res.writeHead(200, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ success: true }));
       } catch (error) {
@@ -1879,18 +2548,19 @@ export async function startDashboard(options: DashboardOptions = {}) {
     }
 
     if (parsed.pathname === "/api/state") {
-      const state = await store.status();
-      // Get ALL project contexts and implementers (not filtered by root)
+      const projectRoot = await resolveProjectRoot(new URLSearchParams(parsed.query ?? "").get("projectRoot"));
+      const state = await store.status(projectRoot);
+      // All contexts are still listed so the UI can show other projects
       const allContexts = await store.listAllProjectContexts();
-      // Use the most recently updated context, or first one
-      const projectContext = allContexts.length > 0
-        ? allContexts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
-        : null;
+      const projectContext = await store.getProjectContext(projectRoot);
       // Get implementers and clean up any dead processes
-      const rawImplementers = await store.listImplementers();
+      const rawImplementers = await store.listImplementers(projectRoot);
       const implementers = await cleanupDeadImplementers(store, rawImplementers);
+      const lockQueue = describeLockQueue(await store.listLockWaiters({ projectRoot, status: "waiting" }), state.locks);
       const payload = {
+        projectRoot,
         state,
+        lockQueue,
         projectContext,
         allContexts,
         implementers,
@@ -1933,16 +2603,18 @@ export async function startDashboard(options: DashboardOptions = {}) {
   };
 
   const sendSnapshot = async () => {
-    const state = await store.status();
+    const projectRoot = await resolveProjectRoot();
+    const state = await store.status(projectRoot);
     const allContexts = await store.listAllProjectContexts();
-    const projectContext = allContexts.length > 0
-      ? allContexts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
-      : null;
-    const rawImplementers = await store.listImplementers();
+    const projectContext = await store.getProjectContext(projectRoot);
+    const rawImplementers = await store.listImplementers(projectRoot);
     const implementers = await cleanupDeadImplementers(store, rawImplementers);
+    const lockQueue = describeLockQueue(await store.listLockWaiters({ projectRoot, status: "waiting" }), state.locks);
     broadcast({
       type: "snapshot",
+      projectRoot,
       state,
+      lockQueue,
       projectContext,
       allContexts,
       implementers,
@@ -1956,22 +2628,67 @@ export async function startDashboard(options: DashboardOptions = {}) {
     });
   };
 
-  wss.on("connection", () => {
+  wss.on("connection", (socket) => {
     sendSnapshot().catch(() => undefined);
+
+    // Each client follows at most one implementer log at a time
+    let stopTail: (() => void) | null = null;
+    let subscription = 0;
+    const send = (payload: unknown) => {
+      if (socket.readyState === 1) socket.send(JSON.stringify(payload));
+    };
+
+    socket.on("message", async (raw) => {
+      let message: { type?: string; implementerId?: string };
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      if (message.type !== "log_subscribe" && message.type !== "log_unsubscribe") return;
+
+      stopTail?.();
+      stopTail = null;
+      const request = ++subscription;
+      if (message.type === "log_unsubscribe" || !message.implementerId) return;
+
+      const implementerId = message.implementerId;
+      const impl = (await store.listImplementers()).find((i) => i.id === implementerId);
+      if (request !== subscription) return;
+      if (!impl?.logFile) {
+        send({ type: "log", implementerId, error: "No output captured for this implementer" });
+        return;
+      }
+      let reset = true;
+      stopTail = tailFile(impl.logFile, (data) => {
+        send({ type: "log", implementerId, data, reset });
+        reset = false;
+      });
+    });
+
+    socket.on("close", () => stopTail?.());
   });
 
   let lastHash = "";
   let lastActiveCount = 0;
   let pollInterval: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
 
   const poll = async () => {
-    const state = await store.status();
+    if (closed) return;
+    const projectRoot = await resolveProjectRoot();
+    for (const { implementer, tasks, locks } of await reclaimStaleWork(store, {
+      timeoutSeconds: config.heartbeatTimeoutSeconds,
+      projectRoot,
+    })) {
+      console.log(`Implementer ${implementer.name} missed heartbeats: returned ${tasks.length} task(s), released ${locks.length} lock(s)`);
+    }
+    const state = await store.status(projectRoot);
     const allContexts = await store.listAllProjectContexts();
-    const projectContext = allContexts.length > 0
-      ? allContexts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
-      : null;
-    const rawImplementers = await store.listImplementers();
+    const projectContext = await store.getProjectContext(projectRoot);
+    const rawImplementers = await store.listImplementers(projectRoot);
     const implementers = await cleanupDeadImplementers(store, rawImplementers);
+    const lockQueue = describeLockQueue(await store.listLockWaiters({ projectRoot, status: "waiting" }), state.locks);
 
     // Check if we should use fast or slow polling
     const activeImpls = implementers.filter(i => i.status === "active").length;
@@ -1992,12 +2709,14 @@ export async function startDashboard(options: DashboardOptions = {}) {
     }
     lastActiveCount = isActive ? 1 : 0;
 
-    const next = JSON.stringify({ state, projectContext, implementers });
+    const next = JSON.stringify({ state, projectContext, implementers, lockQueue });
     if (next !== lastHash) {
       lastHash = next;
       broadcast({
         type: "state",
+        projectRoot,
         state,
+        lockQueue,
         projectContext,
         allContexts,
         implementers,
@@ -2018,7 +2737,20 @@ export async function startDashboard(options: DashboardOptions = {}) {
     poll().catch(() => undefined);
   }, pollMsIdle);
 
-  server.listen(port, host, () => {
-    process.stdout.write(`Dashboard running at http://${host}:${port}\n`);
-  });
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+  const address = server.address();
+  const dashboardUrl = `http://${host}:${typeof address === "object" && address ? address.port : port}`;
+  process.stdout.write(`Dashboard running at ${dashboardUrl}\n`);
+
+  return {
+    url: dashboardUrl,
+    close: async () => {
+      closed = true;
+      if (pollInterval) clearInterval(pollInterval);
+      for (const client of wss.clients) client.terminate();
+      wss.close();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
 }
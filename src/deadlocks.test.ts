@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { buildWaitForGraph, findDeadlocks } from './deadlocks.js';
+import type { Lock, LockWaiter, Task } from './storage.js';
+
+const now = new Date().toISOString();
+
+function lock(path: string, owner: string): Lock {
+  return { id: `lock-${owner}-${path}`, projectRoot: '/repo', path, owner, status: 'active', mode: 'exclusive', createdAt: now, updatedAt: now };
+}
+
+function waiter(path: string, owner: string): LockWaiter {
+  return { id: `wait-${owner}-${path}`, projectRoot: '/repo', path, owner, mode: 'exclusive', status: 'waiting', deadline: now, createdAt: now, updatedAt: now };
+}
+
+function task(id: string, owner: string, dependsOn: string[] = []): Task {
+  return { id, title: id, description: '', status: 'in_progress', complexity: 'medium', isolation: 'shared', owner, dependsOn, projectRoot: '/repo', createdAt: now, updatedAt: now };
+}
+
+describe('Deadlock Detection', () => {
+  it('should detect two agents waiting on each other\'s locks', () => {
+    const edges = buildWaitForGraph({
+      locks: [lock('src/a.ts', 'impl-1'), lock('src/b.ts', 'impl-2')],
+      waiters: [waiter('src/b.ts', 'impl-1'), waiter('src/a.ts', 'impl-2')],
+      tasks: [],
+    });
+
+    const deadlocks = findDeadlocks(edges);
+    expect(deadlocks).toHaveLength(1);
+    expect(deadlocks[0].agents).toEqual(['impl-1', 'impl-2']);
+    expect(deadlocks[0].edges.map((edge) => edge.path).sort()).toEqual(['src/a.ts', 'src/b.ts']);
+  });
+
+  it('should detect cycles that go through task dependencies', () => {
+    const edges = buildWaitForGraph({
+      locks: [lock('src/**', 'impl-2')],
+      waiters: [waiter('src/app.ts', 'impl-1')],
+      tasks: [task('task-1', 'impl-1'), task('task-2', 'impl-2', ['task-1'])],
+    });
+
+    const deadlocks = findDeadlocks(edges);
+    expect(deadlocks).toHaveLength(1);
+    expect(deadlocks[0].edges.map((edge) => edge.reason).sort()).toEqual(['lock', 'task']);
+  });
+
+  it('should not report an agent that owns both a task and its prerequisite', () => {
+    const edges = buildWaitForGraph({
+      locks: [],
+      waiters: [],
+      tasks: [task('t1', 'impl-1'), task('t2', 'impl-1', ['t1'])],
+    });
+
+    expect(edges).toEqual([]);
+    expect(findDeadlocks(edges)).toEqual([]);
+  });
+
+  it('should only count tasks in progress as waiting on their prerequisites', () => {
+    const edges = buildWaitForGraph({
+      locks: [lock('src/**', 'impl-2')],
+      waiters: [waiter('src/app.ts', 'impl-1')],
+      tasks: [task('task-1', 'impl-1'), { ...task('task-2', 'impl-2', ['task-1']), status: 'blocked' }],
+    });
+
+    expect(edges.map((edge) => edge.reason)).toEqual(['lock']);
+    expect(findDeadlocks(edges)).toEqual([]);
+  });
+
+  it('should not report a plain wait chain', () => {
+    const edges = buildWaitForGraph({
+      locks: [lock('src/a.ts', 'impl-1'), lock('src/b.ts', 'impl-2')],
+      waiters: [waiter('src/a.ts', 'impl-2'), waiter('src/b.ts', 'impl-3')],
+      tasks: [],
+    });
+
+    expect(edges).toHaveLength(2);
+    expect(findDeadlocks(edges)).toEqual([]);
+  });
+
+  it('should detect an agent queued behind its own lock', () => {
+    const edges = buildWaitForGraph({
+      locks: [lock('src/a.ts', 'impl-1')],
+      waiters: [waiter('src/a.ts', 'impl-1')],
+      tasks: [],
+    });
+
+    expect(findDeadlocks(edges)).toEqual([
+      { agents: ['impl-1'], edges: [{ from: 'impl-1', to: 'impl-1', reason: 'lock', path: 'src/a.ts' }] },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Deadlock detection: a wait-for graph between agents built from active locks,
+ * queued lock requests and task dependencies, and the cycles in it
+ */
+import { unmetDependencies } from "./graph.js";
+import { lockRequestsConflict } from "./lockPatterns.js";
+import type { Lock, LockWaiter, Task } from "./storage.js";
+
+export type WaitForEdge = {
+  from: string;              // Agent that is waiting
+  to: string;                // Agent it is waiting for
+  reason: "lock" | "queue" | "task";
+  path?: string;             // Lock path for lock/queue edges
+  taskId?: string;           // Unfinished prerequisite for task edges
+};
+
+export type Deadlock = {
+  agents: string[];
+  edges: WaitForEdge[];
+};
+
+/**
+ * Build the wait-for graph. An agent waits for another when its queued lock
+ * request conflicts with a lock the other holds or an earlier request the other
+ * queued, or when a task it is working on depends on an unfinished task the
+ * other owns. A pre-assigned task not yet started waits on nobody, and an agent
+ * owning both ends of a dependency just does the prerequisite first. Requests
+ * and locks without an owner cannot be attributed and are skipped.
+ */
+export function buildWaitForGraph(input: { locks: Lock[]; waiters: LockWaiter[]; tasks: Task[] }): WaitForEdge[] {
+  const edges: WaitForEdge[] = [];
+  const active = input.locks.filter((lock) => lock.status === "active" && lock.owner);
+  const waiting = input.waiters.filter((waiter) => waiter.status === "waiting" && waiter.owner);
+
+  waiting.forEach((waiter, index) => {
+    const from = waiter.owner as string;
+    for (const lock of active) {
+      if (lock.projectRoot === waiter.projectRoot && lockRequestsConflict(lock, waiter)) {
+        edges.push({ from, to: lock.owner as string, reason: "lock", path: lock.path });
+      }
+    }
+    for (const earlier of waiting.slice(0, index)) {
+      if (earlier.projectRoot === waiter.projectRoot && lockRequestsConflict(earlier, waiter)) {
+        edges.push({ from, to: earlier.owner as string, reason: "queue", path: earlier.path });
+      }
+    }
+  });
+
+  const tasksById = new Map(input.tasks.map((task) => [task.id, task]));
+  for (const task of input.tasks) {
+    if (!task.owner || task.status !== "in_progress") continue;
+    for (const depId of unmetDependencies(task, tasksById)) {
+      const dep = tasksById.get(depId);
+      if (dep?.owner && dep.owner !== task.owner) edges.push({ from: task.owner, to: dep.owner, reason: "task", taskId: dep.id });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Find deadlocks: strongly connected groups of agents that wait on each other
+ * (including an agent waiting on itself)
+ */
+export function findDeadlocks(edges: WaitForEdge[]): Deadlock[] {
+  const adjacency = new Map<string, Set<string>>();
+  for (const edge of edges) {
+    if (!adjacency.has(edge.from)) adjacency.set(edge.from, new Set());
+    if (!adjacency.has(edge.to)) adjacency.set(edge.to, new Set());
+    adjacency.get(edge.from)?.add(edge.to);
+  }
+
+  // Tarjan's strongly connected components
+  let counter = 0;
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const connect = (agent: string) => {
+    index.set(agent, counter);
+    lowlink.set(agent, counter);
+    counter++;
+    stack.push(agent);
+    onStack.add(agent);
+    for (const next of adjacency.get(agent) ?? []) {
+      if (!index.has(next)) {
+        connect(next);
+        lowlink.set(agent, Math.min(lowlink.get(agent) as number, lowlink.get(next) as number));
+      } else if (onStack.has(next)) {
+        lowlink.set(agent, Math.min(lowlink.get(agent) as number, index.get(next) as number));
+      }
+    }
+    if (lowlink.get(agent) === index.get(agent)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop() as string;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== agent);
+      components.push(component);
+    }
+  };
+
+  for (const agent of adjacency.keys()) {
+    if (!index.has(agent)) connect(agent);
+  }
+
+  return components
+    .filter((component) => component.length > 1 || adjacency.get(component[0])?.has(component[0]))
+    .map((component) => {
+      const members = new Set(component);
+      return {
+        agents: [...component].sort(),
+        edges: edges.filter((edge) => members.has(edge.from) && members.has(edge.to)),
+      };
+    });
+}
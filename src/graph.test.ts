@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { buildTaskGraph, findDependencyCycle } from './graph.js';
+import type { Task } from './storage.js';
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    status: 'todo',
+    complexity: 'medium',
+    isolation: 'shared',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Graph', () => {
+  describe('findDependencyCycle', () => {
+    it('should return null for an acyclic graph', () => {
+      const deps = new Map([
+        ['a', []],
+        ['b', ['a']],
+        ['c', ['a', 'b']],
+      ]);
+
+      expect(findDependencyCycle(deps)).toBeNull();
+    });
+
+    it('should return the cycle path', () => {
+      const deps = new Map([
+        ['a', ['c']],
+        ['b', ['a']],
+        ['c', ['b']],
+      ]);
+
+      const cycle = findDependencyCycle(deps);
+      expect(cycle).not.toBeNull();
+      expect(cycle?.[0]).toBe(cycle?.[cycle.length - 1]);
+      expect(cycle).toHaveLength(4);
+    });
+  });
+
+  describe('buildTaskGraph', () => {
+    it('should build edges and ready list', () => {
+      const graph = buildTaskGraph([
+        makeTask('a', { status: 'done' }),
+        makeTask('b', { dependsOn: ['a'] }),
+        makeTask('c', { status: 'blocked', dependsOn: ['b'] }),
+      ]);
+
+      expect(graph.edges).toEqual([
+        { from: 'a', to: 'b' },
+        { from: 'b', to: 'c' },
+      ]);
+      expect(graph.ready).toEqual(['b']);
+      expect(graph.nodes.find((n) => n.id === 'c')?.unmetDependencies).toEqual(['b']);
+    });
+
+    it('should pick the heaviest chain of unfinished work as critical path', () => {
+      const graph = buildTaskGraph([
+        makeTask('a', { complexity: 'simple' }),
+        makeTask('b', { complexity: 'critical' }),
+        makeTask('c', { complexity: 'medium', dependsOn: ['a', 'b'] }),
+        makeTask('d', { complexity: 'simple', dependsOn: ['a'] }),
+      ]);
+
+      expect(graph.criticalPath.taskIds).toEqual(['b', 'c']);
+      expect(graph.criticalPath.weight).toBe(7);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Task dependency graph helpers: validation, cycle detection and critical path
+ */
+import type { Task, TaskComplexity, TaskStatus } from "./storage.js";
+
+export type TaskGraphNode = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  complexity: TaskComplexity;
+  owner?: string;
+  dependsOn: string[];
+  dependents: string[];
+  unmetDependencies: string[];
+};
+
+export type TaskGraphEdge = {
+  from: string;  // Prerequisite task
+  to: string;    // Task that depends on it
+};
+
+export type TaskGraph = {
+  nodes: TaskGraphNode[];
+  edges: TaskGraphEdge[];
+  ready: string[];         // todo tasks whose dependencies are all done
+  criticalPath: {
+    taskIds: string[];
+    weight: number;        // Sum of complexity weights of unfinished tasks on the path
+  };
+};
+
+// Relative effort used when weighing the critical path
+const COMPLEXITY_WEIGHT: Record<TaskComplexity, number> = {
+  simple: 1,
+  medium: 2,
+  complex: 3,
+  critical: 5,
+};
+
+/**
+ * Return the dependencies of a task that are not yet done
+ */
+export function unmetDependencies(task: Pick<Task, "dependsOn">, tasksById: Map<string, Task>): string[] {
+  return (task.dependsOn ?? []).filter((id) => tasksById.get(id)?.status !== "done");
+}
+
+/**
+ * Find a cycle in a dependency map (task id -> prerequisite ids).
+ * Returns the cycle as a list of ids ending where it started, or null.
+ */
+export function findDependencyCycle(dependencies: Map<string, string[]>): string[] | null {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (visiting.has(id)) {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+    if (visited.has(id)) return null;
+    visiting.add(id);
+    stack.push(id);
+    for (const dep of dependencies.get(id) ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  for (const id of dependencies.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Validate a task's dependency list against the existing tasks.
+ * Throws if a dependency is missing, self-referential, in another project, or
+ * would create a cycle. Cross-project dependencies are refused because a reset
+ * of the other project would leave the task blocked for good.
+ */
+export function assertValidDependencies(
+  taskId: string,
+  dependsOn: string[],
+  tasks: Task[],
+  projectRoot: string | undefined
+): void {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  for (const dep of dependsOn) {
+    if (dep === taskId) throw new Error(`Task cannot depend on itself: ${taskId}`);
+    const target = tasksById.get(dep);
+    if (!target) throw new Error(`Dependency not found: ${dep}`);
+    if (target.projectRoot !== projectRoot) {
+      throw new Error(`Dependency ${dep} belongs to another project (${target.projectRoot ?? "unscoped"})`);
+    }
+  }
+
+  const dependencies = new Map<string, string[]>();
+  for (const task of tasks.filter((item) => item.projectRoot === projectRoot)) {
+    dependencies.set(task.id, task.dependsOn ?? []);
+  }
+  dependencies.set(taskId, dependsOn);
+
+  const cycle = findDependencyCycle(dependencies);
+  if (cycle) throw new Error(`Dependency cycle detected: ${cycle.join(" -> ")}`);
+}
+
+/**
+ * Build the dependency DAG for a set of tasks, including the critical path:
+ * the chain of unfinished work with the largest total complexity weight.
+ */
+export function buildTaskGraph(tasks: Task[]): TaskGraph {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const dependents = new Map<string, string[]>();
+  const edges: TaskGraphEdge[] = [];
+
+  for (const task of tasks) {
+    for (const dep of task.dependsOn ?? []) {
+      if (!tasksById.has(dep)) continue;
+      edges.push({ from: dep, to: task.id });
+      dependents.set(dep, [...(dependents.get(dep) ?? []), task.id]);
+    }
+  }
+
+  const nodes: TaskGraphNode[] = tasks.map((task) => ({
+    id: task.id,
+    title: task.title,
+    status: task.status,
+    complexity: task.complexity,
+    owner: task.owner,
+    dependsOn: task.dependsOn ?? [],
+    dependents: dependents.get(task.id) ?? [],
+    unmetDependencies: unmetDependencies(task, tasksById),
+  }));
+
+  const ready = nodes
+    .filter((node) => node.status === "todo" && node.unmetDependencies.length === 0)
+    .map((node) => node.id);
+
+  // Longest weighted path ending at each task (memoized DFS over prerequisites)
+  const best = new Map<string, { weight: number; path: string[] }>();
+  const longestTo = (id: string): { weight: number; path: string[] } => {
+    const cached = best.get(id);
+    if (cached) return cached;
+    const task = tasksById.get(id);
+    if (!task) return { weight: 0, path: [] };
+    let prefix = { weight: 0, path: [] as string[] };
+    for (const dep of task.dependsOn ?? []) {
+      const candidate = longestTo(dep);
+      if (candidate.weight > prefix.weight) prefix = candidate;
+    }
+    const own = task.status === "done" ? 0 : COMPLEXITY_WEIGHT[task.complexity] ?? 1;
+    const result = own > 0
+      ? { weight: prefix.weight + own, path: [...prefix.path, id] }
+      : prefix;
+    best.set(id, result);
+    return result;
+  };
+
+  let criticalPath = { weight: 0, path: [] as string[] };
+  for (const task of tasks) {
+    const candidate = longestTo(task.id);
+    if (candidate.weight > criticalPath.weight) criticalPath = candidate;
+  }
+
+  return {
+    nodes,
+    edges,
+    ready,
+    criticalPath: { taskIds: criticalPath.path, weight: criticalPath.weight },
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SqliteStore } from './storage.js';
+import { callerImplementer, createActivityTracker, reclaimStaleWork } from './heartbeats.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('Implementer Heartbeats', () => {
+  let store: SqliteStore;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+    store = new SqliteStore(path.join(tempDir, 'test.db'), path.join(tempDir, 'logs'));
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record heartbeats for active implementers', async () => {
+    const impl = await store.registerImplementer({ name: 'impl-1', type: 'claude', projectRoot: '/repo' });
+    expect(impl.lastSeenAt).toBeDefined();
+
+    const beat = await store.heartbeatImplementer({ name: 'impl-1', projectRoot: '/repo' });
+    expect(beat.id).toBe(impl.id);
+    await expect(
+      store.heartbeatImplementer({ name: 'ghost', projectRoot: '/repo' })
+    ).rejects.toThrow('No active implementer named ghost');
+  });
+
+  it('should reclaim the tasks and locks of an implementer that missed heartbeats', async () => {
+    await store.registerImplementer({ name: 'impl-1', type: 'claude', projectRoot: '/repo' });
+    const task = await store.createTask({ title: 'Half done', projectRoot: '/repo' });
+    await store.claimTask({ id: task.id, owner: 'impl-1' });
+    await store.acquireLock({ path: 'src/app.ts', owner: 'impl-1', projectRoot: '/repo' });
+
+    const later = Date.now() + 120_000;
+    const reclaimed = await reclaimStaleWork(store, { timeoutSeconds: 60, projectRoot: '/repo', now: later });
+
+    expect(reclaimed).toHaveLength(1);
+    expect(reclaimed[0].implementer.status).toBe('stopped');
+    const [returned] = await store.listTasks({ projectRoot: '/repo' });
+    expect(returned).toMatchObject({ status: 'todo', owner: undefined });
+    expect(await store.listLocks({ projectRoot: '/repo', status: 'active' })).toEqual([]);
+    const notes = await store.listNotes(10, '/repo');
+    expect(notes.at(-1)?.text).toContain('Implementer impl-1 missed its heartbeats');
+    expect(notes.at(-1)?.text).toContain('"Half done"');
+  });
+
+  it('should leave implementers alone within the timeout or when disabled', async () => {
+    await store.registerImplementer({ name: 'impl-1', type: 'claude', projectRoot: '/repo' });
+
+    expect(await reclaimStaleWork(store, { timeoutSeconds: 60, projectRoot: '/repo' })).toEqual([]);
+    expect(await reclaimStaleWork(store, { timeoutSeconds: 0, projectRoot: '/repo', now: Date.now() + 1e9 })).toEqual([]);
+    expect((await store.listImplementers('/repo'))[0].status).toBe('active');
+  });
+
+  it('should keep an implementer that is busy calling other tools', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const start = Date.now();
+      await store.registerImplementer({ name: 'impl-1', type: 'claude', projectRoot: '/repo' });
+      const task = await store.createTask({ title: 'Long haul', projectRoot: '/repo' });
+      await store.claimTask({ id: task.id, owner: 'impl-1' });
+      const recordActivity = createActivityTracker(store, { timeoutSeconds: 60 });
+
+      // Five minutes of lock renewals and file writes, no implementer_heartbeat
+      for (let step = 1; step <= 6; step++) {
+        vi.setSystemTime(start + step * 50_000);
+        const caller = callerImplementer({ owner: 'impl-1', path: 'src/app.ts' }, {});
+        await recordActivity(caller!, '/repo');
+        expect(await reclaimStaleWork(store, { timeoutSeconds: 60, projectRoot: '/repo' })).toEqual([]);
+      }
+      expect((await store.listTasks({ projectRoot: '/repo' }))[0]).toMatchObject({ id: task.id, status: 'in_progress' });
+
+      // Planners name other agents; bound implementers speak for themselves
+      expect(callerImplementer({ owner: 'impl-1' }, { name: 'planner', role: 'planner' })).toBeUndefined();
+      expect(callerImplementer({ owner: 'impl-2' }, { name: 'impl-1', role: 'implementer' })).toBe('impl-1');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
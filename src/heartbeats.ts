@@ -0,0 +1,109 @@
+/**
+ * Implementer heartbeats: find implementers that stopped checking in and hand
+ * their work back to the rest of the team
+ */
+import type { Implementer, Lock, Store, Task } from "./storage.js";
+
+export type ReclaimedWork = {
+  implementer: Implementer;
+  tasks: Task[];     // in_progress tasks returned to todo
+  locks: Lock[];     // Locks released on its behalf
+};
+
+/**
+ * Active implementers whose last heartbeat is older than the timeout
+ */
+export function findStaleImplementers(implementers: Implementer[], timeoutSeconds: number, now = Date.now()): Implementer[] {
+  if (timeoutSeconds <= 0) return [];
+  return implementers.filter((impl) => {
+    if (impl.status !== "active") return false;
+    const lastSeen = Date.parse(impl.lastSeenAt ?? impl.updatedAt);
+    return now - lastSeen > timeoutSeconds * 1000;
+  });
+}
+
+/**
+ * The implementer a tool call shows to be alive: the session's own identity
+ * when it is bound as an implementer, else the owner or author the call acts
+ * as. Planner calls name other agents (assigning a task, say) and vouch for
+ * nobody.
+ */
+export function callerImplementer(
+  args: Record<string, unknown>,
+  identity: { name?: string; role?: string }
+): string | undefined {
+  if (identity.role === "implementer") return identity.name;
+  if (identity.role) return undefined;
+  for (const value of [args.owner, args.author]) {
+    if (typeof value === "string" && value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Treat any tool call from an implementer as a heartbeat, so one busy on a
+ * long task (editing files, waiting on review) is not reclaimed just because
+ * it has not called implementer_heartbeat lately. Heartbeats are written at
+ * most once per tenth of the timeout per implementer; callers that are not a
+ * registered, active implementer are ignored.
+ */
+export function createActivityTracker(store: Store, options: { timeoutSeconds: number }) {
+  const lastBeat = new Map<string, number>();
+  const intervalMs = options.timeoutSeconds * 100;
+
+  return async function recordActivity(name: string, projectRoot: string): Promise<void> {
+    if (options.timeoutSeconds <= 0) return;
+    const key = `${projectRoot}\0${name}`;
+    const now = Date.now();
+    if (now - (lastBeat.get(key) ?? -Infinity) < intervalMs) return;
+    try {
+      await store.heartbeatImplementer({ name, projectRoot });
+      lastBeat.set(key, now);
+    } catch {
+      // Not an active implementer of this project
+    }
+  };
+}
+
+/**
+ * Stop implementers that missed their heartbeats, return their in_progress
+ * tasks to todo and release their locks, leaving a [SYSTEM] note for each
+ */
+export async function reclaimStaleWork(
+  store: Store,
+  options: { timeoutSeconds: number; projectRoot?: string; now?: number }
+): Promise<ReclaimedWork[]> {
+  const stale = findStaleImplementers(
+    await store.listImplementers(options.projectRoot),
+    options.timeoutSeconds,
+    options.now
+  );
+  const reclaimed: ReclaimedWork[] = [];
+
+  for (const impl of stale) {
+    const implementer = await store.updateImplementer(impl.id, "stopped");
+    const projectRoot = impl.projectRoot;
+
+    const tasks: Task[] = [];
+    for (const task of await store.listTasks({ projectRoot, owner: impl.name, status: "in_progress" })) {
+      tasks.push(await store.updateTask({ id: task.id, status: "todo", owner: null, actor: "system" }));
+    }
+
+    const locks: Lock[] = [];
+    for (const lock of await store.listLocks({ projectRoot, owner: impl.name, status: "active" })) {
+      locks.push(await store.releaseLock({ path: lock.path, owner: impl.name, projectRoot }));
+    }
+
+    const lastSeen = impl.lastSeenAt ?? impl.updatedAt;
+    const taskList = tasks.length ? `: ${tasks.map((task) => `"${task.title}"`).join(", ")}` : "";
+    await store.appendNote({
+      text: `[SYSTEM] Implementer ${impl.name} missed its heartbeats (last seen ${lastSeen}) and was marked stopped. ` +
+        `Returned ${tasks.length} in-progress task(s) to todo${taskList}; released ${locks.length} lock(s).`,
+      author: "system",
+      projectRoot,
+    });
+    reclaimed.push({ implementer, tasks, locks });
+  }
+
+  return reclaimed;
+}
@@ -2,8 +2,11 @@ import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import os from "node:os";
+import { BUILTIN_AGENT_PROFILES, getAgentProfile, type AgentProfile } from "./agents.js";
 
-export type InstallTarget = "claude" | "codex" | "all" | "config";
+// "all" (every agent profile with an mcpConfig), "config" (an explicit --config
+// file) or the name of an agent profile
+export type InstallTarget = string;
 
 export type InstallOptions = {
   target?: InstallTarget;
@@ -17,6 +20,13 @@ export type InstallOptions = {
   logDir?: string;
   commandMode?: string;
   commandAllow?: string;
+  lockEnforcement?: string;
+  roleEnforcement?: string;
+  heartbeatTimeout?: string;
+  launcher?: string;
+  userConfig?: string;
+  projectConfig?: string;
+  agents?: Record<string, AgentProfile>;  // Profiles to install for (default: built-ins)
 };
 
 function expandHome(input: string): string {
@@ -25,15 +35,19 @@ function expandHome(input: string): string {
   return path.join(home, input.slice(1));
 }
 
-function getClaudeConfigPath(): string {
-  // Claude Code uses project-level .mcp.json or we create in home
-  const localConfig = path.resolve(process.cwd(), ".mcp.json");
-  if (fs.existsSync(localConfig)) return localConfig;
-  return localConfig; // Default to creating in current directory
+// MCP config file of an agent; relative paths (Claude's project-level .mcp.json)
+// resolve from the current directory
+function getAgentConfigPath(agent: AgentProfile): string {
+  if (!agent.mcpConfig) {
+    throw new Error(`Agent profile "${agent.name}" has no mcpConfig; add one to install lockstep for it`);
+  }
+  return path.resolve(process.cwd(), expandHome(agent.mcpConfig.path));
 }
 
-function getCodexConfigPath(): string {
-  return path.join(os.homedir(), ".codex", "config.toml");
+// Agents a target refers to
+function resolveAgents(target: InstallTarget, agents: Record<string, AgentProfile>): AgentProfile[] {
+  if (target === "all") return Object.values(agents).filter((agent) => agent.mcpConfig);
+  return [getAgentProfile(agents, target)];
 }
 
 function resolveConfigPath(configPath?: string): string | undefined {
@@ -107,13 +121,30 @@ function buildServerArgs(options: InstallOptions): string[] {
   if (options.commandAllow) {
     args.push("--command-allow", options.commandAllow);
   }
+  if (options.lockEnforcement) {
+    args.push("--lock-enforcement", options.lockEnforcement);
+  }
+  if (options.roleEnforcement) {
+    args.push("--role-enforcement", options.roleEnforcement);
+  }
+  if (options.heartbeatTimeout) {
+    args.push("--heartbeat-timeout", options.heartbeatTimeout);
+  }
+  if (options.launcher) {
+    args.push("--launcher", options.launcher);
+  }
+  if (options.userConfig) {
+    args.push("--user-config", options.userConfig);
+  }
+  if (options.projectConfig) {
+    args.push("--project-config", options.projectConfig);
+  }
 
   return args;
 }
 
-// Install to Claude's .mcp.json
-function installToClaude(options: InstallOptions): { configPath: string; name: string } {
-  const configPath = options.configPath ? expandHome(options.configPath) : getClaudeConfigPath();
+// Install to a JSON config with an "mcpServers" object (Claude's .mcp.json)
+function installToJson(configPath: string, options: InstallOptions): { configPath: string; name: string } {
   const config = loadJsonConfig(configPath);
   const entryName = options.name ?? "lockstep";
   const entry = resolveServerEntry();
@@ -134,9 +165,8 @@ function installToClaude(options: InstallOptions): { configPath: string; name: s
   return { configPath, name: entryName };
 }
 
-// Install to Codex's config.toml
-function installToCodex(options: InstallOptions): { configPath: string; name: string } {
-  const configPath = getCodexConfigPath();
+// Install to a TOML config with [mcp_servers.<name>] tables (Codex's config.toml)
+function installToToml(configPath: string, options: InstallOptions): { configPath: string; name: string } {
   const entryName = options.name ?? "lockstep";
   const entry = resolveServerEntry();
   const args = buildServerArgs(options);
@@ -184,9 +214,8 @@ env = { }
   return { configPath, name: entryName };
 }
 
-// Uninstall from Claude's .mcp.json
-function uninstallFromClaude(name: string, configPath?: string): boolean {
-  const fullPath = configPath ? expandHome(configPath) : getClaudeConfigPath();
+// Uninstall from a JSON config
+function uninstallFromJson(name: string, fullPath: string): boolean {
   if (!fs.existsSync(fullPath)) return false;
 
   const config = loadJsonConfig(fullPath);
@@ -197,9 +226,8 @@ function uninstallFromClaude(name: string, configPath?: string): boolean {
   return true;
 }
 
-// Uninstall from Codex's config.toml
-function uninstallFromCodex(name: string): boolean {
-  const configPath = getCodexConfigPath();
+// Uninstall from a TOML config
+function uninstallFromToml(name: string, configPath: string): boolean {
   if (!fs.existsSync(configPath)) return false;
 
   let content = fs.readFileSync(configPath, "utf8");
@@ -243,61 +271,66 @@ export function installMcpEntry(options: InstallOptions) {
     return { configPath, name: entryName, serverPath: args.join(" ") };
   }
 
-  if (target === "claude" || target === "all") {
-    const result = installToClaude(options);
-    results.push({ target: "claude", ...result });
-  }
-
-  if (target === "codex" || target === "all") {
-    const result = installToCodex(options);
-    results.push({ target: "codex", ...result });
+  for (const agent of resolveAgents(target, options.agents ?? BUILTIN_AGENT_PROFILES)) {
+    const format = agent.mcpConfig?.format;
+    // --config overrides the location of a JSON config, as it always has for Claude
+    const configPath = format === "json" && options.configPath
+      ? expandHome(options.configPath)
+      : getAgentConfigPath(agent);
+    const result = format === "toml" ? installToToml(configPath, options) : installToJson(configPath, options);
+    results.push({ target: agent.name, ...result });
   }
 
   return { results };
 }
 
-export function uninstallMcpEntry(options: { target?: InstallTarget; name?: string; configPath?: string }) {
+export function uninstallMcpEntry(options: {
+  target?: InstallTarget;
+  name?: string;
+  configPath?: string;
+  agents?: Record<string, AgentProfile>;
+}) {
   const target = options.target ?? "all";
   const name = options.name ?? "lockstep";
   const results: { target: string; removed: boolean }[] = [];
 
-  if (target === "claude" || target === "all") {
-    const removed = uninstallFromClaude(name, options.configPath);
-    results.push({ target: "claude", removed });
-  }
-
-  if (target === "codex" || target === "all") {
-    const removed = uninstallFromCodex(name);
-    results.push({ target: "codex", removed });
+  for (const agent of resolveAgents(target, options.agents ?? BUILTIN_AGENT_PROFILES)) {
+    const format = agent.mcpConfig?.format;
+    const configPath = format === "json" && options.configPath
+      ? expandHome(options.configPath)
+      : getAgentConfigPath(agent);
+    const removed = format === "toml" ? uninstallFromToml(name, configPath) : uninstallFromJson(name, configPath);
+    results.push({ target: agent.name, removed });
   }
 
   return { results };
 }
 
-export function getInstallStatus(): { claude: boolean; codex: boolean; claudePath: string; codexPath: string } {
-  const claudePath = getClaudeConfigPath();
-  const codexPath = getCodexConfigPath();
-
-  let claudeInstalled = false;
-  let codexInstalled = false;
-
-  if (fs.existsSync(claudePath)) {
-    try {
-      const config = loadJsonConfig(claudePath);
-      claudeInstalled = !!config.mcpServers["lockstep"] || !!config.mcpServers["lockstep-mcp"];
-    } catch {
-      // ignore
-    }
-  }
+export type AgentInstallStatus = {
+  agent: string;
+  installed: boolean;
+  configPath: string;
+};
 
-  if (fs.existsSync(codexPath)) {
-    try {
-      const content = fs.readFileSync(codexPath, "utf8");
-      codexInstalled = /\[mcp_servers\.lockstep/.test(content);
-    } catch {
-      // ignore
+export function getInstallStatus(agents: Record<string, AgentProfile> = BUILTIN_AGENT_PROFILES): AgentInstallStatus[] {
+  return resolveAgents("all", agents).map((agent) => {
+    const configPath = getAgentConfigPath(agent);
+    let installed = false;
+
+    if (fs.existsSync(configPath)) {
+      try {
+        if (agent.mcpConfig?.format === "toml") {
+          const content = fs.readFileSync(configPath, "utf8");
+          installed = /\[mcp_servers\.lockstep/.test(content);
+        } else {
+          const config = loadJsonConfig(configPath);
+          installed = !!config.mcpServers["lockstep"] || !!config.mcpServers["lockstep-mcp"];
+        }
+      } catch {
+        // ignore
+      }
     }
-  }
 
-  return { claude: claudeInstalled, codex: codexInstalled, claudePath, codexPath };
+    return { agent: agent.name, installed, configPath };
+  });
 }
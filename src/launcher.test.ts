@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { detectLauncherBackend, getLauncher } from './launcher.js';
+import { sleep } from './utils.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('detectLauncherBackend', () => {
+  it('should prefer tmux when running inside a tmux session', () => {
+    expect(detectLauncherBackend({ TMUX: '/tmp/tmux-0/default,1,0' }, 'darwin', () => false)).toBe('tmux');
+  });
+
+  it('should use Terminal on macOS', () => {
+    expect(detectLauncherBackend({}, 'darwin', () => true)).toBe('macos');
+  });
+
+  it('should use tmux when installed, otherwise a background process', () => {
+    expect(detectLauncherBackend({}, 'linux', () => true)).toBe('tmux');
+    expect(detectLauncherBackend({}, 'linux', () => false)).toBe('background');
+    expect(detectLauncherBackend({}, 'win32', () => false)).toBe('background');
+  });
+});
+
+describe('background launcher', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should run the command detached and write its output to a log file', async () => {
+    const launcher = getLauncher('background');
+    const result = await launcher.launch({
+      name: 'impl-1',
+      command: 'echo "hello from $PWD"',
+      cwd: tempDir,
+      logDir: path.join(tempDir, 'logs'),
+    });
+
+    expect(result.backend).toBe('background');
+    expect(result.pid).toBeGreaterThan(0);
+    expect(result.logFile).toBe(path.join(tempDir, 'logs', 'impl-1.log'));
+
+    let output = '';
+    for (let attempt = 0; attempt < 50 && !output; attempt += 1) {
+      await sleep(50);
+      output = await fs.readFile(result.logFile!, 'utf8');
+    }
+    expect(output.trim()).toBe(`hello from ${tempDir}`);
+  });
+});
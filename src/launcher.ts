@@ -0,0 +1,187 @@
+/**
+ * Launcher backends: where launch_implementer and dashboard_open start their
+ * processes. tmux windows, detached background processes logging to a file, or
+ * macOS Terminal windows.
+ */
+import { spawn, spawnSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { pipeStdin, shellQuote } from "./agents.js";
+import type { LauncherBackend, LauncherChoice } from "./config.js";
+import { sleep } from "./utils.js";
+
+export type LaunchRequest = {
+  name: string;        // Window title / log file name
+  command: string;     // Shell command to run
+  cwd: string;
+  logDir: string;      // Where the background backend writes <name>.log
+  session?: string;    // tmux session (default "lockstep")
+  stdin?: string;      // Piped to the command's standard input
+  keys?: string;       // Typed into the window once the command has started (tmux only)
+};
+
+export type LaunchResult = {
+  backend: LauncherBackend;
+  pid?: number;         // Process running the command, when it could be determined
+  tmuxTarget?: string;  // session:window of the tmux window
+  logFile?: string;     // Output file of a background process
+};
+
+export type Launcher = {
+  backend: LauncherBackend;
+  launch(request: LaunchRequest): Promise<LaunchResult>;
+};
+
+const DEFAULT_TMUX_SESSION = "lockstep";
+const KEYS_DELAY_MS = 1500;
+
+// Shell line that runs the request's command in place of the shell
+function execLine(request: LaunchRequest): string {
+  return request.stdin !== undefined ? pipeStdin(request.command, request.stdin) : `exec ${request.command}`;
+}
+
+function escapeForAppleScript(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+export function isTmuxAvailable(): boolean {
+  const result = spawnSync("tmux", ["-V"], { stdio: "ignore" });
+  return !result.error && result.status === 0;
+}
+
+/**
+ * Pick a backend: inside tmux use tmux, on macOS use Terminal, otherwise tmux if
+ * installed, falling back to a background process
+ */
+export function detectLauncherBackend(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform,
+  hasTmux: () => boolean = isTmuxAvailable
+): LauncherBackend {
+  if (env.TMUX) return "tmux";
+  if (platform === "darwin") return "macos";
+  return hasTmux() ? "tmux" : "background";
+}
+
+// Each window runs `exec <command>` so the pane's PID is the agent's PID (unless
+// a prompt is piped in)
+const tmuxLauncher: Launcher = {
+  backend: "tmux",
+  async launch(request) {
+    const session = request.session ?? DEFAULT_TMUX_SESSION;
+    const hasSession = spawnSync("tmux", ["has-session", "-t", session], { stdio: "ignore" }).status === 0;
+    const format = "#{session_name}:#{window_index} #{pane_pid}";
+    const args = hasSession
+      ? ["new-window", "-d", "-t", `${session}:`, "-n", request.name, "-c", request.cwd, "-P", "-F", format]
+      : ["new-session", "-d", "-s", session, "-n", request.name, "-c", request.cwd, "-P", "-F", format];
+    const result = spawnSync("tmux", [...args, execLine(request)], { encoding: "utf8" });
+    if (result.error) throw new Error(`tmux not available: ${result.error.message}`);
+    if (result.status !== 0) throw new Error(`tmux failed: ${result.stderr.trim() || `exit code ${result.status}`}`);
+    const [tmuxTarget, pid] = result.stdout.trim().split(" ");
+    if (request.keys !== undefined) {
+      // Give the agent time to draw its input before typing into it
+      await sleep(KEYS_DELAY_MS);
+      spawnSync("tmux", ["send-keys", "-t", tmuxTarget, "-l", request.keys]);
+      spawnSync("tmux", ["send-keys", "-t", tmuxTarget, "C-m"]);
+    }
+    return { backend: "tmux", tmuxTarget, pid: Number(pid) || undefined };
+  },
+};
+
+const backgroundLauncher: Launcher = {
+  backend: "background",
+  async launch(request) {
+    fs.mkdirSync(request.logDir, { recursive: true });
+    const logFile = path.join(request.logDir, `${request.name}.log`);
+    const fd = fs.openSync(logFile, "a");
+    try {
+      const child = spawn("sh", ["-c", execLine(request)], {
+        cwd: request.cwd,
+        detached: true,
+        stdio: ["ignore", fd, fd],
+      });
+      child.unref();
+      return { backend: "background", pid: child.pid, logFile };
+    } finally {
+      fs.closeSync(fd);
+    }
+  },
+};
+
+// Terminal does not report the PID of what it runs, so the shell writes its own
+// PID to a file before exec-ing the command
+const macosLauncher: Launcher = {
+  backend: "macos",
+  async launch(request) {
+    fs.mkdirSync(request.logDir, { recursive: true });
+    const pidFile = path.join(request.logDir, `${request.name}.pid`);
+    fs.rmSync(pidFile, { force: true });
+    const command = `cd ${shellQuote(request.cwd)} && echo $$ > ${shellQuote(pidFile)} && ${execLine(request)}`;
+    const result = spawnSync("osascript", ["-e", `tell application "Terminal" to do script "${escapeForAppleScript(command)}"`], {
+      encoding: "utf8",
+    });
+    if (result.error) throw new Error(`osascript not available: ${result.error.message}`);
+    if (result.status !== 0) throw new Error(`Terminal launch failed: ${result.stderr.trim()}`);
+
+    for (let attempt = 0; attempt < 10; attempt += 1) {
+      if (fs.existsSync(pidFile)) {
+        const pid = Number(fs.readFileSync(pidFile, "utf8").trim());
+        if (pid) return { backend: "macos", pid };
+      }
+      await sleep(200);
+    }
+    return { backend: "macos" };
+  },
+};
+
+const LAUNCHERS: Record<LauncherBackend, Launcher> = {
+  tmux: tmuxLauncher,
+  background: backgroundLauncher,
+  macos: macosLauncher,
+};
+
+export function getLauncher(choice: LauncherChoice): Launcher {
+  return LAUNCHERS[choice === "auto" ? detectLauncherBackend() : choice];
+}
+
+const LAUNCHER_DESCRIPTIONS: Record<LauncherChoice, string> = {
+  tmux: "a new window in the lockstep tmux session",
+  background: "a detached background process logging to a file",
+  macos: "a new macOS Terminal window",
+  auto: "a tmux window, a macOS Terminal window or a background process, whichever this machine supports",
+};
+
+/**
+ * Where a launcher choice starts processes, for tool descriptions and instructions
+ */
+export function describeLauncher(choice: LauncherChoice): string {
+  return LAUNCHER_DESCRIPTIONS[choice];
+}
+
+/**
+ * Bring a tmux window to the front of its session
+ */
+export function focusTmuxWindow(target: string): { success: boolean; error?: string } {
+  const result = spawnSync("tmux", ["select-window", "-t", target], { encoding: "utf8" });
+  if (result.error) return { success: false, error: result.error.message };
+  if (result.status !== 0) return { success: false, error: result.stderr.trim() || "tmux window not found" };
+  return { success: true };
+}
+
+/**
+ * Open a URL in the desktop browser after a delay, where there is one
+ */
+export function openBrowser(url: string, delaySeconds = 2): void {
+  const opener = process.platform === "darwin"
+    ? "open"
+    : process.platform === "linux" && (process.env.DISPLAY || process.env.WAYLAND_DISPLAY)
+      ? "xdg-open"
+      : undefined;
+  if (!opener) return;
+  const child = spawn("sh", ["-c", `sleep ${delaySeconds} && ${opener} ${shellQuote(url)}`], {
+    detached: true,
+    stdio: "ignore",
+  });
+  child.on("error", () => undefined);
+  child.unref();
+}
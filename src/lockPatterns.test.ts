@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { lockPatternsOverlap, normalizeLockPath } from './lockPatterns.js';
+
+describe('Lock Patterns', () => {
+  describe('normalizeLockPath', () => {
+    it('should make paths inside the project root relative', () => {
+      expect(normalizeLockPath('/repo/src/app.ts', '/repo')).toBe('src/app.ts');
+      expect(normalizeLockPath('./src/app.ts', '/repo')).toBe('src/app.ts');
+      expect(normalizeLockPath('src/../lib/x.ts', '/repo')).toBe('lib/x.ts');
+    });
+
+    it('should keep paths outside the project root absolute', () => {
+      expect(normalizeLockPath('/other/file.ts', '/repo')).toBe('/other/file.ts');
+    });
+
+    it('should turn directories into recursive patterns', () => {
+      expect(normalizeLockPath('src/api/', '/repo')).toBe('src/api/**');
+      expect(normalizeLockPath('/repo/', '/repo')).toBe('**');
+    });
+
+    it('should reject empty paths', () => {
+      expect(() => normalizeLockPath('  ', '/repo')).toThrow('must not be empty');
+    });
+  });
+
+  describe('lockPatternsOverlap', () => {
+    it('should match identical files only', () => {
+      expect(lockPatternsOverlap('src/a.ts', 'src/a.ts')).toBe(true);
+      expect(lockPatternsOverlap('src/a.ts', 'src/b.ts')).toBe(false);
+    });
+
+    it('should detect files under a recursive pattern', () => {
+      expect(lockPatternsOverlap('src/api/**', 'src/api/users.ts')).toBe(true);
+      expect(lockPatternsOverlap('src/api/users/get.ts', 'src/api/**')).toBe(true);
+      expect(lockPatternsOverlap('src/api/**', 'src/web/index.ts')).toBe(false);
+    });
+
+    it('should match single-segment wildcards', () => {
+      expect(lockPatternsOverlap('src/*.ts', 'src/app.ts')).toBe(true);
+      expect(lockPatternsOverlap('src/*.ts', 'src/api/app.ts')).toBe(false);
+      expect(lockPatternsOverlap('src/?.ts', 'src/a.ts')).toBe(true);
+    });
+
+    it('should detect overlap between two patterns', () => {
+      expect(lockPatternsOverlap('src/**', 'src/api/*.ts')).toBe(true);
+      expect(lockPatternsOverlap('src/*.test.ts', 'src/*.ts')).toBe(true);
+      expect(lockPatternsOverlap('src/*.ts', 'src/*.md')).toBe(false);
+      expect(lockPatternsOverlap('**/*.ts', 'docs/**')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Lock path patterns: normalization, overlap detection and mode conflicts.
+ *
+ * A lock path is either a single file ("src/app.ts"), a directory
+ * ("src/api/" - everything below it) or a glob using `*`, `?` and `**`
+ * ("src/api/**", "src/*.test.ts").
+ */
+import path from "node:path";
+import { expandHome, isPathUnderRoot } from "./utils.js";
+import type { LockMode } from "./storage.js";
+
+const WILDCARD = /[*?]/;
+
+/**
+ * Canonical form of a lock path: paths inside the project root become
+ * relative POSIX paths, and directories become "dir/**"
+ */
+export function normalizeLockPath(pattern: string, projectRoot: string): string {
+  const trimmed = pattern.trim();
+  if (!trimmed) throw new Error("Lock path must not be empty");
+  const isDirectory = /[\\/]$/.test(trimmed);
+  const resolved = path.resolve(projectRoot, expandHome(trimmed));
+  let normalized = isPathUnderRoot(resolved, projectRoot)
+    ? path.relative(projectRoot, resolved)
+    : resolved;
+  normalized = normalized.split(path.sep).join("/");
+  if (isDirectory || normalized === "") {
+    normalized = normalized ? `${normalized}/**` : "**";
+  }
+  return normalized;
+}
+
+function toSegments(pattern: string): string[] {
+  const withDirs = pattern.endsWith("/") ? `${pattern}**` : pattern;
+  return withDirs.split("/").filter((segment, index) => segment !== "" || index === 0);
+}
+
+function segmentToRegExp(segment: string): RegExp {
+  const source = segment
+    .split("")
+    .map((char) => (char === "*" ? "[^/]*" : char === "?" ? "[^/]" : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+// Two single path segments can name the same entry. When both contain wildcards
+// this is approximated by comparing their literal prefixes and suffixes, which
+// errs on the side of reporting a conflict.
+function segmentsOverlap(a: string, b: string): boolean {
+  const aWild = WILDCARD.test(a);
+  const bWild = WILDCARD.test(b);
+  if (!aWild && !bWild) return a === b;
+  if (!aWild) return segmentToRegExp(b).test(a);
+  if (!bWild) return segmentToRegExp(a).test(b);
+  const prefix = (s: string) => s.slice(0, s.search(WILDCARD));
+  const suffix = (s: string) => s.slice(Math.max(s.lastIndexOf("*"), s.lastIndexOf("?")) + 1);
+  const [pa, pb] = [prefix(a), prefix(b)];
+  const [sa, sb] = [suffix(a), suffix(b)];
+  return (pa.startsWith(pb) || pb.startsWith(pa)) && (sa.endsWith(sb) || sb.endsWith(sa));
+}
+
+/**
+ * Whether two normalized lock paths could match at least one common file
+ */
+export function lockPatternsOverlap(a: string, b: string): boolean {
+  const left = toSegments(a);
+  const right = toSegments(b);
+  const memo = new Map<string, boolean>();
+
+  const overlap = (i: number, j: number): boolean => {
+    const key = `${i}:${j}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let result: boolean;
+    if (i === left.length && j === right.length) {
+      result = true;
+    } else if (left[i] === "**") {
+      // ** matches zero or more segments of the other pattern
+      result = overlap(i + 1, j) || (j < right.length && overlap(i, j + 1));
+    } else if (right[j] === "**") {
+      result = overlap(i, j + 1) || (i < left.length && overlap(i + 1, j));
+    } else if (i === left.length || j === right.length) {
+      result = false;
+    } else {
+      result = segmentsOverlap(left[i], right[j]) && overlap(i + 1, j + 1);
+    }
+    memo.set(key, result);
+    return result;
+  };
+
+  return overlap(0, 0);
+}
+
+/**
+ * Whether two lock requests (held or queued) exclude each other. Readers share;
+ * any overlap involving an exclusive lock conflicts, and a holder may not take
+ * a second shared lock on the same path.
+ */
+export function lockRequestsConflict(
+  a: { path: string; owner?: string; mode: LockMode },
+  b: { path: string; owner?: string; mode: LockMode }
+): boolean {
+  if (!lockPatternsOverlap(a.path, b.path)) return false;
+  if (a.mode === "shared" && b.mode === "shared") {
+    return a.path === b.path && a.owner === b.owner;
+  }
+  return true;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { describeLockQueue } from './lockQueue.js';
+import type { Lock, LockWaiter } from './storage.js';
+
+const NOW = Date.parse('2025-01-01T00:10:00.000Z');
+
+function makeLock(overrides: Partial<Lock> = {}): Lock {
+  return {
+    id: 'lock',
+    path: 'src/a.ts',
+    owner: 'impl-1',
+    status: 'active',
+    mode: 'exclusive',
+    createdAt: '2025-01-01T00:09:30.000Z',
+    updatedAt: '2025-01-01T00:09:30.000Z',
+    ...overrides,
+  };
+}
+
+function makeWaiter(id: string, overrides: Partial<LockWaiter> = {}): LockWaiter {
+  return {
+    id,
+    path: 'src/a.ts',
+    owner: id,
+    mode: 'exclusive',
+    status: 'waiting',
+    deadline: '2025-01-01T00:20:00.000Z',
+    createdAt: '2025-01-01T00:09:40.000Z',
+    updatedAt: '2025-01-01T00:09:40.000Z',
+    ...overrides,
+  };
+}
+
+describe('Lock Queue', () => {
+  it('should number waiters for the same path and estimate from lock history', () => {
+    const locks = [
+      makeLock(),
+      // Past locks held for 60s on average
+      makeLock({ id: 'old', status: 'resolved', createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:01:00.000Z' }),
+    ];
+    const queue = describeLockQueue([makeWaiter('impl-2'), makeWaiter('impl-3')], locks, NOW);
+
+    expect(queue.map(e => e.position)).toEqual([1, 2]);
+    expect(queue[0].blockedBy).toEqual(['impl-1']);
+    // The active lock has been held 30s of an average 60s
+    expect(queue[0].estimatedWaitMs).toBe(30_000);
+    expect(queue[1].estimatedWaitMs).toBe(90_000);
+  });
+
+  it('should use the lease expiry of the blocking lock', () => {
+    const locks = [makeLock({ expiresAt: '2025-01-01T00:10:05.000Z' })];
+    const queue = describeLockQueue([makeWaiter('impl-2')], locks, NOW);
+
+    expect(queue[0].estimatedWaitMs).toBe(5_000);
+  });
+
+  it('should not count waiters for unrelated paths as ahead', () => {
+    const queue = describeLockQueue(
+      [makeWaiter('impl-2', { path: 'src/b.ts' }), makeWaiter('impl-3')],
+      [makeLock()],
+      NOW
+    );
+
+    expect(queue.map(e => e.position)).toEqual([1, 1]);
+    expect(queue[0].blockedBy).toEqual([]);
+  });
+});
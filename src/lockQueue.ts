@@ -0,0 +1,55 @@
+/**
+ * Lock wait queue helpers: queue positions and estimated waits
+ */
+import { lockRequestsConflict } from "./lockPatterns.js";
+import type { Lock, LockWaiter } from "./storage.js";
+
+export type LockQueueEntry = LockWaiter & {
+  position: number;          // 1 = next in line for the paths it wants
+  blockedBy: string[];       // Owners of the active locks in the way
+  estimatedWaitMs: number;
+};
+
+// Assumed hold time when there is no lock history to learn from
+const DEFAULT_HOLD_MS = 60_000;
+
+// Average time locks were held, from resolved locks
+function averageLockHoldMs(locks: Lock[]): number {
+  const held = locks
+    .filter((lock) => lock.status === "resolved")
+    .map((lock) => Date.parse(lock.updatedAt) - Date.parse(lock.createdAt))
+    .filter((ms) => Number.isFinite(ms) && ms >= 0);
+  if (held.length === 0) return DEFAULT_HOLD_MS;
+  return Math.round(held.reduce((sum, ms) => sum + ms, 0) / held.length);
+}
+
+/**
+ * Describe waiting lock requests with their position among conflicting waiters
+ * and an estimated wait: the remaining hold time of the blocking locks plus one
+ * average hold per waiter ahead.
+ */
+export function describeLockQueue(waiters: LockWaiter[], locks: Lock[], now = Date.now()): LockQueueEntry[] {
+  const averageHoldMs = averageLockHoldMs(locks);
+  const active = locks.filter((lock) => lock.status === "active");
+  const waiting = waiters.filter((waiter) => waiter.status === "waiting");
+
+  return waiting.map((waiter, index) => {
+    const sameProject = <T extends { projectRoot?: string }>(item: T) => item.projectRoot === waiter.projectRoot;
+    const ahead = waiting
+      .slice(0, index)
+      .filter((other) => sameProject(other) && lockRequestsConflict(other, waiter));
+    const blocking = active.filter((lock) => sameProject(lock) && lockRequestsConflict(lock, waiter));
+
+    const remainingMs = blocking.map((lock) => {
+      if (lock.expiresAt) return Math.max(Date.parse(lock.expiresAt) - now, 0);
+      return Math.max(averageHoldMs - (now - Date.parse(lock.createdAt)), 0);
+    });
+
+    return {
+      ...waiter,
+      position: ahead.length + 1,
+      blockedBy: blocking.map((lock) => lock.owner ?? "unknown"),
+      estimatedWaitMs: Math.max(0, ...remainingMs) + ahead.length * averageHoldMs,
+    };
+  });
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tailFile } from './logTail.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('tailFile', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should send the end of the file, then appended output', async () => {
+    const file = path.join(tempDir, 'impl-1.log');
+    await fs.writeFile(file, 'old line\nrecent line\n');
+    const chunks: string[] = [];
+    const stop = tailFile(file, (chunk) => chunks.push(chunk), { initialBytes: 12, intervalMs: 10 });
+
+    expect(chunks).toEqual(['recent line\n']);
+    await fs.appendFile(file, 'new output\n');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    stop();
+    expect(chunks).toEqual(['recent line\n', 'new output\n']);
+  });
+
+  it('should wait for a file that does not exist yet and restart after truncation', async () => {
+    const file = path.join(tempDir, 'impl-1.log');
+    const chunks: string[] = [];
+    const stop = tailFile(file, (chunk) => chunks.push(chunk), { intervalMs: 10 });
+
+    await fs.writeFile(file, 'first run output\n');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await fs.writeFile(file, 'second\n');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    stop();
+    expect(chunks).toEqual(['first run output\n', 'second\n']);
+  });
+});
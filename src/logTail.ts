@@ -0,0 +1,45 @@
+/**
+ * Follow a growing log file, the way `tail -f` does
+ */
+import fs from "node:fs";
+
+export type TailOptions = {
+  initialBytes?: number;  // How much existing output to send first (default 64KB)
+  intervalMs?: number;    // How often to check for new output (default 1000)
+};
+
+/**
+ * Call onData with the last initialBytes of the file and then with everything
+ * appended to it. A truncated file is read again from the start. Returns a
+ * function that stops following.
+ */
+export function tailFile(filePath: string, onData: (chunk: string) => void, options: TailOptions = {}): () => void {
+  const initialBytes = options.initialBytes ?? 64 * 1024;
+  let offset = -1;
+
+  const read = () => {
+    let size: number;
+    try {
+      size = fs.statSync(filePath).size;
+    } catch {
+      return; // Not written yet
+    }
+    if (offset < 0) offset = Math.max(size - initialBytes, 0);
+    if (size < offset) offset = 0;
+    if (size === offset) return;
+
+    const fd = fs.openSync(filePath, "r");
+    try {
+      const buffer = Buffer.alloc(size - offset);
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, offset);
+      offset += bytesRead;
+      onData(buffer.subarray(0, bytesRead).toString("utf8"));
+    } finally {
+      fs.closeSync(fd);
+    }
+  };
+
+  read();
+  const timer = setInterval(read, options.intervalMs ?? 1000);
+  return () => clearInterval(timer);
+}
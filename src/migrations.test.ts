@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { MIGRATIONS, SCHEMA_VERSION, migrate, migrateDatabase, schemaVersion } from './migrations.js';
+import { JsonStore, SqliteStore } from './storage.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('Schema Migrations', () => {
+  let tempDir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+    dbPath = path.join(tempDir, 'test.db');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should apply every migration once, in order', () => {
+    const db = new Database(dbPath);
+    const first = migrate(db);
+    expect(first.fromVersion).toBe(0);
+    expect(first.applied.map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+    expect(schemaVersion(db)).toBe(SCHEMA_VERSION);
+
+    expect(migrate(db).applied).toEqual([]);
+    db.close();
+  });
+
+  it('should upgrade a database created before migrations were versioned', () => {
+    const db = new Database(dbPath);
+    db.exec(`
+      CREATE TABLE tasks (id TEXT PRIMARY KEY, title TEXT NOT NULL, description TEXT, status TEXT NOT NULL,
+        owner TEXT, tags TEXT, metadata TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL);
+      CREATE TABLE locks (path TEXT PRIMARY KEY, owner TEXT, note TEXT, status TEXT NOT NULL,
+        created_at TEXT NOT NULL, updated_at TEXT NOT NULL);
+      INSERT INTO tasks VALUES ('t1', 'Old task', NULL, 'todo', NULL, NULL, NULL, '2024-01-01', '2024-01-01');
+      INSERT INTO locks VALUES ('src/a.ts', 'impl-1', NULL, 'active', '2024-01-01', '2024-01-01');
+    `);
+
+    migrate(db);
+
+    const task = db.prepare('SELECT * FROM tasks').get() as Record<string, unknown>;
+    expect(task).toMatchObject({ title: 'Old task', priority: 'P2', complexity: 'medium', version: 1 });
+    const lock = db.prepare('SELECT * FROM locks').get() as Record<string, unknown>;
+    expect(lock).toMatchObject({ path: 'src/a.ts', owner: 'impl-1', mode: 'exclusive' });
+    expect(lock.id).toEqual(expect.any(String));
+    db.close();
+  });
+
+  it('should give rows from before project scoping the only project with a context', () => {
+    const db = new Database(dbPath);
+    db.exec(`
+      CREATE TABLE tasks (id TEXT PRIMARY KEY, title TEXT NOT NULL, description TEXT, status TEXT NOT NULL,
+        owner TEXT, tags TEXT, metadata TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL);
+      CREATE TABLE notes (id TEXT PRIMARY KEY, text TEXT NOT NULL, author TEXT, created_at TEXT NOT NULL);
+      CREATE TABLE project_contexts (project_root TEXT PRIMARY KEY, description TEXT NOT NULL, end_state TEXT NOT NULL,
+        tech_stack TEXT, constraints TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL);
+      INSERT INTO tasks VALUES ('t1', 'Old task', NULL, 'todo', NULL, NULL, NULL, '2024-01-01', '2024-01-01');
+      INSERT INTO notes VALUES ('n1', 'Old note', NULL, '2024-01-01');
+      INSERT INTO project_contexts VALUES ('/repo', 'App', 'Shipped', NULL, NULL, '2024-01-01', '2024-01-01');
+    `);
+
+    migrate(db, { defaultProjectRoot: '/configured' });
+
+    expect(db.prepare('SELECT project_root FROM tasks').get()).toEqual({ project_root: '/repo' });
+    expect(db.prepare('SELECT project_root FROM notes').get()).toEqual({ project_root: '/repo' });
+    db.close();
+  });
+
+  it('should make pre-scoping tasks and locks visible to the default root', async () => {
+    const db = new Database(dbPath);
+    db.exec(`
+      CREATE TABLE tasks (id TEXT PRIMARY KEY, title TEXT NOT NULL, description TEXT, status TEXT NOT NULL,
+        owner TEXT, tags TEXT, metadata TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL);
+      CREATE TABLE locks (path TEXT PRIMARY KEY, owner TEXT, note TEXT, status TEXT NOT NULL,
+        created_at TEXT NOT NULL, updated_at TEXT NOT NULL);
+      INSERT INTO tasks VALUES ('t1', 'Old task', NULL, 'todo', NULL, NULL, NULL, '2024-01-01', '2024-01-01');
+      INSERT INTO locks VALUES ('src/a.ts', 'impl-1', NULL, 'active', '2024-01-01', '2024-01-01');
+    `);
+    db.close();
+
+    const store = new SqliteStore(dbPath, path.join(tempDir, 'logs'), { defaultProjectRoot: '/repo' });
+    await store.init();
+    expect((await store.listTasks({ projectRoot: '/repo' })).map(t => t.id)).toEqual(['t1']);
+    await expect(store.acquireLock({ path: 'src/a.ts', owner: 'impl-2', projectRoot: '/repo' })).rejects.toThrow();
+    await store.releaseLock({ path: 'src/a.ts', owner: 'impl-1', projectRoot: '/repo' });
+    expect(await store.listLocks({ projectRoot: '/repo', status: 'active' })).toEqual([]);
+  });
+
+  it('should give unscoped JSON records the default root', async () => {
+    const dataDir = path.join(tempDir, 'data');
+    await fs.mkdir(dataDir);
+    await fs.writeFile(path.join(dataDir, 'state.json'), JSON.stringify({
+      tasks: [{ id: 't1', title: 'Old task', status: 'todo', complexity: 'medium', isolation: 'shared', createdAt: '2024-01-01', updatedAt: '2024-01-01' }],
+      locks: [],
+      notes: [{ id: 'n1', text: 'Old note', createdAt: '2024-01-01' }],
+    }));
+
+    const store = new JsonStore(dataDir, path.join(tempDir, 'logs'), { defaultProjectRoot: '/repo' });
+    await store.init();
+    expect((await store.listTasks({ projectRoot: '/repo' })).map(t => t.id)).toEqual(['t1']);
+    expect((await store.listNotes(undefined, '/repo')).map(n => n.id)).toEqual(['n1']);
+  });
+
+  it('should only report pending migrations on a dry run', () => {
+    const db = new Database(dbPath);
+    db.exec('CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+    db.prepare('INSERT INTO schema_migrations VALUES (1, ?, ?)').run('initial_schema', '2025-01-01');
+    db.close();
+
+    const result = migrateDatabase(dbPath, { dryRun: true });
+    expect(result).toMatchObject({ fromVersion: 1, dryRun: true });
+    expect(result.applied[0].version).toBe(2);
+
+    const check = new Database(dbPath);
+    expect(schemaVersion(check)).toBe(1);
+    check.close();
+  });
+
+  it('should not create a missing database on a dry run', async () => {
+    const result = migrateDatabase(dbPath, { dryRun: true });
+    expect(result.applied).toHaveLength(MIGRATIONS.length);
+    await expect(fs.access(dbPath)).rejects.toThrow();
+  });
+
+  it('should refuse to open a database with a newer schema', async () => {
+    const store = new SqliteStore(dbPath, path.join(tempDir, 'logs'));
+    await store.init();
+    const db = new Database(dbPath);
+    db.prepare('INSERT INTO schema_migrations VALUES (?, ?, ?)').run(SCHEMA_VERSION + 1, 'future', '2030-01-01');
+    db.close();
+
+    expect(() => migrateDatabase(dbPath, { dryRun: true })).toThrow(`newer than this lockstep-mcp supports (${SCHEMA_VERSION})`);
+    await expect(new SqliteStore(dbPath, path.join(tempDir, 'logs')).init()).rejects.toThrow('Upgrade lockstep-mcp');
+  });
+});
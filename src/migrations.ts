@@ -0,0 +1,376 @@
+/**
+ * Versioned schema migrations for the SQLite store. Each migration runs once,
+ * in order, inside its own transaction and is recorded in schema_migrations.
+ *
+ * Databases created before migrations were versioned start at version 0, in
+ * whatever shape their release left them, so the first migrations check the
+ * existing tables instead of assuming a blank database. New migrations can
+ * rely on the previous ones and are appended to the end of MIGRATIONS.
+ */
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+export type MigrationOptions = {
+  dryRun?: boolean;
+  defaultProjectRoot?: string;  // Owner of rows written before project scoping, if the database names none
+};
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (db: Database.Database, options: MigrationOptions) => void;
+};
+
+export type MigrationResult = {
+  fromVersion: number;
+  toVersion: number;
+  applied: Array<{ version: number; name: string }>;  // Pending migrations when dryRun is set
+  dryRun: boolean;
+};
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((item) => item.name === column);
+}
+
+function addColumn(db: Database.Database, table: string, column: string, definition: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          project_root TEXT,
+          title TEXT NOT NULL,
+          description TEXT,
+          status TEXT NOT NULL,
+          complexity TEXT NOT NULL DEFAULT 'medium',
+          isolation TEXT NOT NULL DEFAULT 'shared',
+          priority TEXT NOT NULL DEFAULT 'P2',
+          due_at TEXT,
+          owner TEXT,
+          tags TEXT,
+          metadata TEXT,
+          depends_on TEXT,
+          review_notes TEXT,
+          review_feedback TEXT,
+          review_requested_at TEXT,
+          version INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS locks (
+          id TEXT PRIMARY KEY,
+          project_root TEXT,
+          path TEXT NOT NULL,
+          owner TEXT,
+          note TEXT,
+          status TEXT NOT NULL,
+          mode TEXT NOT NULL DEFAULT 'exclusive',
+          ttl_seconds INTEGER,
+          expires_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS lock_waiters (
+          id TEXT PRIMARY KEY,
+          project_root TEXT,
+          path TEXT NOT NULL,
+          owner TEXT,
+          note TEXT,
+          mode TEXT NOT NULL,
+          ttl_seconds INTEGER,
+          status TEXT NOT NULL,
+          lock_id TEXT,
+          deadline TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS task_events (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          project_root TEXT,
+          type TEXT NOT NULL,
+          field TEXT,
+          from_value TEXT,
+          to_value TEXT,
+          actor TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS notes (
+          id TEXT PRIMARY KEY,
+          project_root TEXT,
+          text TEXT NOT NULL,
+          author TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS project_contexts (
+          project_root TEXT PRIMARY KEY,
+          description TEXT NOT NULL,
+          end_state TEXT NOT NULL,
+          tech_stack TEXT,
+          constraints TEXT,
+          acceptance_criteria TEXT,
+          tests TEXT,
+          implementation_plan TEXT,
+          status TEXT NOT NULL DEFAULT 'planning',
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS implementers (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          project_root TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'active',
+          pid INTEGER,
+          isolation TEXT NOT NULL DEFAULT 'shared',
+          worktree_path TEXT,
+          branch_name TEXT,
+          last_seen_at TEXT,
+          launcher TEXT,
+          tmux_target TEXT,
+          log_file TEXT,
+          exit_code INTEGER,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS discussions (
+          id TEXT PRIMARY KEY,
+          topic TEXT NOT NULL,
+          category TEXT NOT NULL DEFAULT 'other',
+          priority TEXT NOT NULL DEFAULT 'medium',
+          status TEXT NOT NULL DEFAULT 'open',
+          project_root TEXT NOT NULL,
+          created_by TEXT NOT NULL,
+          waiting_on TEXT,
+          decision TEXT,
+          decision_reasoning TEXT,
+          decided_by TEXT,
+          linked_task_id TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          resolved_at TEXT,
+          archived_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS discussion_messages (
+          id TEXT PRIMARY KEY,
+          discussion_id TEXT NOT NULL,
+          author TEXT NOT NULL,
+          message TEXT NOT NULL,
+          recommendation TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (discussion_id) REFERENCES discussions(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_discussions_status ON discussions(status);
+        CREATE INDEX IF NOT EXISTS idx_discussions_project ON discussions(project_root);
+        CREATE INDEX IF NOT EXISTS idx_discussion_messages_discussion ON discussion_messages(discussion_id);
+      `);
+    },
+  },
+  {
+    // Columns added by releases that patched the schema in place
+    version: 2,
+    name: "unversioned_columns",
+    up: (db) => {
+      addColumn(db, "project_contexts", "acceptance_criteria", "TEXT");
+      addColumn(db, "project_contexts", "tests", "TEXT");
+      addColumn(db, "project_contexts", "implementation_plan", "TEXT");
+      addColumn(db, "project_contexts", "preferred_implementer", "TEXT");
+      addColumn(db, "project_contexts", "status", "TEXT NOT NULL DEFAULT 'planning'");
+      addColumn(db, "tasks", "complexity", "TEXT NOT NULL DEFAULT 'medium'");
+      addColumn(db, "tasks", "review_notes", "TEXT");
+      addColumn(db, "tasks", "review_feedback", "TEXT");
+      addColumn(db, "tasks", "review_requested_at", "TEXT");
+      addColumn(db, "tasks", "isolation", "TEXT NOT NULL DEFAULT 'shared'");
+      addColumn(db, "tasks", "depends_on", "TEXT");
+      // Rows written before project scoping get their project_root in version 5
+      addColumn(db, "tasks", "project_root", "TEXT");
+      addColumn(db, "notes", "project_root", "TEXT");
+      addColumn(db, "tasks", "priority", "TEXT NOT NULL DEFAULT 'P2'");
+      addColumn(db, "tasks", "due_at", "TEXT");
+      addColumn(db, "tasks", "version", "INTEGER NOT NULL DEFAULT 1");
+      addColumn(db, "implementers", "isolation", "TEXT NOT NULL DEFAULT 'shared'");
+      addColumn(db, "implementers", "worktree_path", "TEXT");
+      addColumn(db, "implementers", "branch_name", "TEXT");
+      addColumn(db, "implementers", "last_seen_at", "TEXT");
+      addColumn(db, "implementers", "launcher", "TEXT");
+      addColumn(db, "implementers", "tmux_target", "TEXT");
+      addColumn(db, "implementers", "log_file", "TEXT");
+      addColumn(db, "implementers", "exit_code", "INTEGER");
+    },
+  },
+  {
+    // Locks used to be keyed by path alone, which cannot hold the same relative
+    // path in two projects (or re-acquire a released path). Rebuild them with a
+    // surrogate id, then add the mode and lease columns.
+    version: 3,
+    name: "scoped_locks",
+    up: (db) => {
+      if (!hasColumn(db, "locks", "id")) {
+        db.exec(`
+          CREATE TABLE locks_scoped (
+            id TEXT PRIMARY KEY,
+            project_root TEXT,
+            path TEXT NOT NULL,
+            owner TEXT,
+            note TEXT,
+            status TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+          );
+          INSERT INTO locks_scoped (id, project_root, path, owner, note, status, created_at, updated_at)
+            SELECT lower(hex(randomblob(16))), NULL, path, owner, note, status, created_at, updated_at FROM locks;
+          DROP TABLE locks;
+          ALTER TABLE locks_scoped RENAME TO locks;
+        `);
+      }
+      // Locks predating modes were all exclusive
+      addColumn(db, "locks", "mode", "TEXT NOT NULL DEFAULT 'exclusive'");
+      addColumn(db, "locks", "ttl_seconds", "INTEGER");
+      addColumn(db, "locks", "expires_at", "TEXT");
+    },
+  },
+  {
+    version: 4,
+    name: "query_indexes",
+    up: (db) => {
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_tasks_project ON tasks(project_root);
+        CREATE INDEX IF NOT EXISTS idx_locks_project_path ON locks(project_root, path);
+        CREATE INDEX IF NOT EXISTS idx_lock_waiters_status ON lock_waiters(status, project_root);
+        CREATE INDEX IF NOT EXISTS idx_notes_project ON notes(project_root);
+        CREATE INDEX IF NOT EXISTS idx_task_events_task ON task_events(task_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_task_events_project ON task_events(project_root, created_at);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "project_root_backfill",
+    up: (db, options) => {
+      backfillProjectRoots(db, options.defaultProjectRoot);
+    },
+  },
+];
+
+// Tables whose rows predate project scoping when their project_root is NULL
+const SCOPED_TABLES = ["tasks", "notes", "locks", "lock_waiters", "task_events"];
+
+/**
+ * Give rows written before project scoping a project_root, so scoped queries
+ * (every tool defaults to a root) still find them. They belong to the only
+ * project with a context if there is exactly one, else to defaultProjectRoot;
+ * with neither they stay NULL. Returns the root used and the rows updated.
+ */
+export function backfillProjectRoots(
+  db: Database.Database,
+  defaultProjectRoot?: string
+): { projectRoot?: string; updated: number } {
+  const contexts = db.prepare("SELECT project_root FROM project_contexts LIMIT 2").all() as { project_root: string }[];
+  const projectRoot = contexts.length === 1 ? contexts[0].project_root : defaultProjectRoot;
+  if (!projectRoot) return { updated: 0 };
+  const updated = db.transaction(() => SCOPED_TABLES.reduce((count, table) =>
+    count + db.prepare(`UPDATE ${table} SET project_root = ? WHERE project_root IS NULL`).run(projectRoot).changes, 0))();
+  return { projectRoot, updated };
+}
+
+// Schema version this build writes; databases beyond it are refused
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function hasMigrationsTable(db: Database.Database): boolean {
+  return db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get() !== undefined;
+}
+
+/**
+ * Highest migration recorded in the database; 0 for a new or unversioned one
+ */
+export function schemaVersion(db: Database.Database): number {
+  if (!hasMigrationsTable(db)) return 0;
+  const row = db.prepare("SELECT MAX(version) AS version FROM schema_migrations").get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+function assertSupportedSchema(db: Database.Database): void {
+  const current = schemaVersion(db);
+  if (current > SCHEMA_VERSION) {
+    throw new Error(
+      `Database ${db.name} has schema version ${current}, newer than this lockstep-mcp supports (${SCHEMA_VERSION}). Upgrade lockstep-mcp to open it.`
+    );
+  }
+}
+
+/**
+ * Apply pending migrations, or with dryRun only report them. Throws without
+ * touching the database if its schema is newer than this build.
+ */
+export function migrate(db: Database.Database, options: MigrationOptions = {}): MigrationResult {
+  assertSupportedSchema(db);
+  const fromVersion = schemaVersion(db);
+  const pending = MIGRATIONS.filter((migration) => migration.version > fromVersion);
+  const describe = (migration: Migration) => ({ version: migration.version, name: migration.name });
+  if (options.dryRun) {
+    return { fromVersion, toVersion: SCHEMA_VERSION, applied: pending.map(describe), dryRun: true };
+  }
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+  const applied: Migration[] = [];
+  for (const migration of pending) {
+    // Another server may be migrating the same file; the write lock taken by
+    // an immediate transaction makes the check and the migration atomic
+    const ran = db.transaction(() => {
+      if (db.prepare("SELECT 1 FROM schema_migrations WHERE version = ?").get(migration.version)) return false;
+      migration.up(db, options);
+      db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)")
+        .run(migration.version, migration.name, new Date().toISOString());
+      return true;
+    }).immediate();
+    if (ran) applied.push(migration);
+  }
+  return { fromVersion, toVersion: schemaVersion(db), applied: applied.map(describe), dryRun: false };
+}
+
+/**
+ * Migrate the database file at dbPath (for `lockstep-mcp db migrate`). A dry
+ * run opens it read-only and never creates it.
+ */
+export function migrateDatabase(dbPath: string, options: MigrationOptions = {}): MigrationResult {
+  if (options.dryRun && !fs.existsSync(dbPath)) {
+    return {
+      fromVersion: 0,
+      toVersion: SCHEMA_VERSION,
+      applied: MIGRATIONS.map((migration) => ({ version: migration.version, name: migration.name })),
+      dryRun: true,
+    };
+  }
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath, { readonly: options.dryRun === true });
+  try {
+    return migrate(db, options);
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PERMISSIONS, findIdentityViolation, findRoleViolation } from './permissions.js';
+
+describe('Permissions', () => {
+  it('should protect planner-only tools by default', () => {
+    for (const tool of ['task_approve', 'task_approve_batch', 'launch_implementer', 'project_status_set', 'session_reset']) {
+      expect(DEFAULT_PERMISSIONS[tool]).toEqual(['planner']);
+    }
+  });
+
+  it('should allow a tool to the roles listed for it', () => {
+    expect(findRoleViolation(DEFAULT_PERMISSIONS, 'task_approve', { name: 'planner', role: 'planner' })).toBeUndefined();
+    expect(findRoleViolation(DEFAULT_PERMISSIONS, 'task_list', { name: 'impl-1', role: 'implementer' })).toBeUndefined();
+    expect(findRoleViolation(DEFAULT_PERMISSIONS, 'task_list', {})).toBeUndefined();
+  });
+
+  it('should refuse restricted tools to other roles and to sessions without one', () => {
+    expect(findRoleViolation(DEFAULT_PERMISSIONS, 'task_approve', { name: 'impl-1', role: 'implementer' }))
+      .toBe('task_approve is not allowed for the implementer role (allowed: planner)');
+    expect(findRoleViolation(DEFAULT_PERMISSIONS, 'session_reset', {}))
+      .toBe('session_reset requires the planner role; call coordination_init first');
+    expect(findRoleViolation({ task_create: [] }, 'task_create', { role: 'planner' }))
+      .toBe('task_create is not allowed for the planner role (allowed: none)');
+  });
+
+  it('should bind implementers to their own name', () => {
+    const identity = { name: 'impl-1', role: 'implementer' as const };
+    expect(findIdentityViolation({ owner: 'impl-1' }, identity)).toBeUndefined();
+    expect(findIdentityViolation({ id: 'task-1' }, identity)).toBeUndefined();
+    expect(findIdentityViolation({ author: 'planner' }, identity))
+      .toBe('author "planner" does not match this session\'s identity "impl-1"');
+    expect(findIdentityViolation({ actor: 'planner' }, identity))
+      .toBe('actor "planner" does not match this session\'s identity "impl-1"');
+    expect(findIdentityViolation({ owner: 'impl-2' }, { name: 'planner', role: 'planner' })).toBeUndefined();
+    expect(findIdentityViolation({ actor: 'impl-2' }, { name: 'lead-planner', role: 'planner' }))
+      .toBe('actor "impl-2" does not match this session\'s identity "lead-planner"');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Role permissions: which roles may call which tools, and how a session's
+ * identity (issued by coordination_init) binds the owner/author it acts as
+ */
+export type Role = "planner" | "implementer";
+
+export const ROLES: Role[] = ["planner", "implementer"];
+
+// Tool -> roles allowed to call it; tools not listed are open to every role
+export type PermissionMatrix = Record<string, Role[]>;
+
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  task_approve: ["planner"],
+  task_approve_batch: ["planner"],
+  task_request_changes: ["planner"],
+  project_context_set: ["planner"],
+  project_status_set: ["planner"],
+  launch_implementer: ["planner"],
+  implementer_reset: ["planner"],
+  session_reset: ["planner"],
+  session_restore: ["planner"],
+  session_snapshot_prune: ["planner"],
+  worktree_merge: ["planner"],
+  worktree_cleanup: ["planner"],
+  discussion_cleanup: ["planner"],
+};
+
+// Arguments naming the agent a call acts as
+export const IDENTITY_ARGS = ["owner", "author", "actor"];
+
+// Identity arguments that always name the caller, so a bound session's own
+// name is filled in when they are left out
+export const SELF_ARGS = ["actor"];
+
+export type Identity = {
+  name?: string;
+  role?: Role;
+};
+
+/**
+ * Why an identity may not call a tool, or undefined if it may
+ */
+export function findRoleViolation(matrix: PermissionMatrix, tool: string, identity: Identity): string | undefined {
+  const allowed = matrix[tool];
+  if (!allowed) return undefined;
+  if (!identity.role) {
+    return `${tool} requires the ${allowed.join(" or ")} role; call coordination_init first`;
+  }
+  if (!allowed.includes(identity.role)) {
+    return `${tool} is not allowed for the ${identity.role} role (allowed: ${allowed.join(", ") || "none"})`;
+  }
+  return undefined;
+}
+
+/**
+ * Why a call's owner/author/actor does not match the caller, or undefined if
+ * it does. Implementers are bound on all of them; the planner may act for
+ * other agents (reassigning tasks, releasing stale locks) but is still the
+ * actor of its own changes.
+ */
+export function findIdentityViolation(
+  args: Record<string, unknown>,
+  identity: Identity
+): string | undefined {
+  if (!identity.role || !identity.name) return undefined;
+  for (const key of identity.role === "implementer" ? IDENTITY_ARGS : SELF_ARGS) {
+    const value = args[key];
+    if (typeof value === "string" && value !== identity.name) {
+      return `${key} "${value}" does not match this session's identity "${identity.name}"`;
+    }
+  }
+  return undefined;
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { getPlannerPrompt, getImplementerPrompt, getAutopilotPrompts } from './prompts.js';
+import { getPlannerPrompt, getImplementerPrompt, getAutopilotPrompts, getMcpPrompt, MCP_PROMPTS } from './prompts.js';
 
 describe('Prompts', () => {
   describe('getPlannerPrompt', () => {
@@ -115,4 +115,46 @@ describe('Prompts', () => {
       expect(combined).toContain(implementerPrompt);
     });
   });
+
+  describe('prompt arguments', () => {
+    it('should fill in the implementer name, project root and worktree', () => {
+      const prompt = getImplementerPrompt({
+        name: 'impl-2',
+        projectRoot: '/repo',
+        isolation: 'worktree',
+        worktreePath: '/repo/.worktrees/impl-2',
+        branchName: 'lockstep/impl-2',
+      });
+
+      expect(prompt).toContain('You are implementer impl-2.');
+      expect(prompt).toContain('implementer_heartbeat({ name: "impl-2" })');
+      expect(prompt).not.toContain('YOUR_NAME');
+      expect(prompt).toContain('PROJECT ROOT: /repo');
+      expect(prompt).toContain('isolated worktree at /repo/.worktrees/impl-2. Your changes are on branch lockstep/impl-2.');
+    });
+
+    it('should add the project root to the planner prompt', () => {
+      expect(getPlannerPrompt({ projectRoot: '/repo' })).toContain('Pass projectRoot: "/repo" to lockstep tools.');
+      expect(getPlannerPrompt()).not.toContain('PROJECT ROOT');
+    });
+  });
+
+  describe('getMcpPrompt', () => {
+    it('should list a prompt per role', () => {
+      expect(MCP_PROMPTS.map((prompt) => prompt.name)).toEqual(['planner', 'implementer', 'autopilot']);
+    });
+
+    it('should build a user message from the arguments', () => {
+      const result = getMcpPrompt('implementer', { name: 'impl-1', isolation: 'shared' });
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].role).toBe('user');
+      expect(result.messages[0].content.text).toBe(getImplementerPrompt({ name: 'impl-1', isolation: 'shared' }));
+    });
+
+    it('should reject unknown prompts and isolation modes', () => {
+      expect(() => getMcpPrompt('reviewer')).toThrow('Unknown prompt: reviewer. Available: planner, implementer, autopilot');
+      expect(() => getMcpPrompt('implementer', { isolation: 'container' })).toThrow("isolation must be 'shared' or 'worktree'");
+    });
+  });
 });
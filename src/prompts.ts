@@ -1,6 +1,23 @@
-export function getPlannerPrompt(): string {
-  return `You are the PLANNER for this lockstep coordination session.
+export type PlannerPromptOptions = {
+  projectRoot?: string;
+};
+
+export type ImplementerPromptOptions = {
+  name?: string;                          // Replaces the YOUR_NAME placeholders
+  projectRoot?: string;
+  isolation?: "shared" | "worktree";
+  worktreePath?: string;
+  branchName?: string;
+  headless?: boolean;                     // Started by run-implementer, with nobody watching
+};
+
+function projectRootSection(projectRoot?: string): string {
+  return projectRoot ? `\nPROJECT ROOT: ${projectRoot}\nPass projectRoot: "${projectRoot}" to lockstep tools.\n` : "";
+}
 
+export function getPlannerPrompt(options: PlannerPromptOptions = {}): string {
+  return `You are the PLANNER for this lockstep coordination session.
+${projectRootSection(options.projectRoot)}
 ⛔ ABSOLUTE PROHIBITIONS - VIOLATING THESE IS A CRITICAL FAILURE:
 - NEVER use file write/edit/update tools - you are NOT allowed to modify files
 - NEVER run build commands (pnpm build, npm build, tsc, etc.)
@@ -99,14 +116,31 @@ When you need implementer input on architectural/implementation decisions:
 Use project_status_set with "complete" when ALL work is done, "stopped" to halt`;
 }
 
-export function getImplementerPrompt(): string {
-  return `You are an IMPLEMENTER for this lockstep coordination session.
-
+export function getImplementerPrompt(options: ImplementerPromptOptions = {}): string {
+  const intro = options.name
+    ? `You are implementer ${options.name}${options.headless ? ", running headless with no human watching. Keep working until there are no tasks left for you" : ""}.`
+    : "You are an IMPLEMENTER for this lockstep coordination session.";
+  const worktree = options.isolation === "worktree"
+    ? `\nYou are working in an isolated worktree${options.worktreePath ? ` at ${options.worktreePath}` : ""}.${options.branchName ? ` Your changes are on branch ${options.branchName}.` : ""} Follow WORKTREE MODE below.\n`
+    : "";
+  return `${intro}
+${worktree}${projectRootSection(options.projectRoot)}
 INITIALIZATION:
-1. Call coordination_init({ role: "implementer" }) to get your name and instructions
+${options.name
+    ? `1. Call coordination_init({ role: "implementer", name: "${options.name}" }) to bind this session to your name and get instructions`
+    : `1. Call coordination_init({ role: "implementer" }) to get your name and instructions`}
 2. Follow the continuous work loop
 
-TASK COMPLEXITY PROTOCOL:
+${getImplementerWorkLoop(options.name)}`;
+}
+
+/**
+ * The implementer's rules of work, from the complexity protocol to when to
+ * stop. Part of the implementer prompt, and what coordination_init hands an
+ * implementer once there is work to do.
+ */
+export function getImplementerWorkLoop(name?: string): string {
+  const loop = `TASK COMPLEXITY PROTOCOL:
 When you claim a task, check its complexity field and follow the appropriate protocol:
 
 | Complexity | Before Starting | While Working | On Completion |
@@ -117,15 +151,17 @@ When you claim a task, check its complexity field and follow the appropriate pro
 | CRITICAL   | MUST get planner approval first | Verify each step | Submit for review, WAIT for approval |
 
 CONTINUOUS WORK LOOP:
-1. Call task_list to see available tasks and check projectStatus
+1. Call implementer_heartbeat({ name: "YOUR_NAME" }) - if you stop sending heartbeats your tasks and locks are handed to others
+   Then call task_list to see available tasks and check projectStatus
 2. Call discussion_inbox({ agent: "YOUR_NAME" }) to check for discussions/feedback
 3. If projectStatus is "stopped" or "complete" -> STOP working
 4. If discussions waiting on you -> respond with discussion_reply
 5. Check if any tasks in "review" status got feedback from planner
-6. If tasks available, call task_claim to take a "todo" task
+6. If tasks available, call task_next({ owner: "YOUR_NAME" }) to claim the most urgent "todo" task
+   (use task_claim only when you were assigned a specific task)
 7. Read the complexity and follow the protocol above
 8. Call lock_acquire before editing any file
-9. Do the work
+9. Do the work (pass owner: "YOUR_NAME" to file_write so it can be checked against your locks)
 10. Call lock_release when done with file
 11. Based on complexity:
     - SIMPLE: task_update to mark "done"
@@ -158,6 +194,7 @@ IMPORTANT:
 - Keep working until all tasks are done or project is stopped
 - Do NOT wait for user input between tasks
 - For complex/critical tasks, coordination with planner is REQUIRED`;
+  return name ? loop.replace(/YOUR_NAME/g, name) : loop;
 }
 
 export function getAutopilotPrompts(): string {
@@ -173,3 +210,62 @@ IMPLEMENTER PROMPT:
 ${getImplementerPrompt()}
 `;
 }
+
+// Role prompts served through MCP prompts/list and prompts/get
+export const MCP_PROMPTS = [
+  {
+    name: "planner",
+    description: "Take the planner role: gather context, plan, create tasks, launch and review implementers",
+    arguments: [
+      { name: "projectRoot", description: "Project root the planner coordinates", required: false },
+    ],
+  },
+  {
+    name: "implementer",
+    description: "Take an implementer role: claim tasks, lock files, do the work and submit it for review",
+    arguments: [
+      { name: "name", description: "Implementer name, e.g. impl-1", required: false },
+      { name: "projectRoot", description: "Project root the implementer works on", required: false },
+      { name: "isolation", description: "shared (default) or worktree", required: false },
+      { name: "worktreePath", description: "Worktree directory, for worktree isolation", required: false },
+      { name: "branchName", description: "Worktree branch, for worktree isolation", required: false },
+    ],
+  },
+  {
+    name: "autopilot",
+    description: "Both role prompts, for setting up a session by hand",
+    arguments: [],
+  },
+];
+
+export function getMcpPrompt(name: string, args: Record<string, string | undefined> = {}) {
+  const definition = MCP_PROMPTS.find((prompt) => prompt.name === name);
+  if (!definition) {
+    throw new Error(`Unknown prompt: ${name}. Available: ${MCP_PROMPTS.map((prompt) => prompt.name).join(", ")}`);
+  }
+  const value = (key: string) => args[key]?.trim() || undefined;
+
+  let text: string;
+  if (name === "planner") {
+    text = getPlannerPrompt({ projectRoot: value("projectRoot") });
+  } else if (name === "implementer") {
+    const isolation = value("isolation");
+    if (isolation !== undefined && isolation !== "shared" && isolation !== "worktree") {
+      throw new Error("isolation must be 'shared' or 'worktree'");
+    }
+    text = getImplementerPrompt({
+      name: value("name"),
+      projectRoot: value("projectRoot"),
+      isolation,
+      worktreePath: value("worktreePath"),
+      branchName: value("branchName"),
+    });
+  } else {
+    text = getAutopilotPrompts();
+  }
+
+  return {
+    description: definition.description,
+    messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describeTimeline, eventLogPath, parseReplayTime, readEventLog, replayEvents } from './replay.js';
+import { JsonStore, SqliteStore, type Store } from './storage.js';
+import { sleep } from './utils.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+const backends: Array<[string, (dir: string) => Store]> = [
+  ['SqliteStore', (dir) => new SqliteStore(path.join(dir, 'test.db'), path.join(dir, 'logs'))],
+  ['JsonStore', (dir) => new JsonStore(path.join(dir, 'data'), path.join(dir, 'logs'))],
+];
+
+// A moment strictly between the events logged before and after it
+async function mark(): Promise<string> {
+  await sleep(5);
+  const at = new Date().toISOString();
+  await sleep(5);
+  return at;
+}
+
+describe.each(backends)('Event Log Replay (%s)', (_name, createStore) => {
+  let tempDir: string;
+  let store: Store;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+    store = createStore(tempDir);
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should rebuild tasks, locks and implementers as they were at a moment', async () => {
+    const impl = await store.registerImplementer({ name: 'impl-1', type: 'codex', projectRoot: '/repo' });
+    const task = await store.createTask({ title: 'Build', complexity: 'simple', projectRoot: '/repo' });
+    await store.createTask({ title: 'Elsewhere', complexity: 'simple', projectRoot: '/other' });
+    await store.claimTask({ id: task.id, owner: 'impl-1' });
+    await store.acquireLock({ path: 'src/a.ts', owner: 'impl-1', projectRoot: '/repo' });
+    const working = await mark();
+
+    await store.releaseLock({ path: 'src/a.ts', owner: 'impl-1', projectRoot: '/repo' });
+    await store.updateImplementer(impl.id, 'stopped');
+    await store.updateTask({ id: task.id, status: 'todo', owner: null });
+
+    const events = await readEventLog(eventLogPath(path.join(tempDir, 'logs')));
+    const then = replayEvents(events, { at: working, projectRoot: '/repo' });
+    expect(then.tasks).toMatchObject([{ id: task.id, status: 'in_progress', owner: 'impl-1' }]);
+    expect(then.locks).toMatchObject([{ path: 'src/a.ts', status: 'active', owner: 'impl-1' }]);
+    expect(then.implementers).toMatchObject([{ name: 'impl-1', status: 'active' }]);
+
+    const now = replayEvents(events, { projectRoot: '/repo' });
+    expect(now.tasks).toMatchObject([{ id: task.id, status: 'todo' }]);
+    expect(now.tasks[0].owner).toBeUndefined();
+    expect(now.locks[0].status).not.toBe('active');
+    expect(now.implementers[0].status).toBe('stopped');
+    expect(now.eventsApplied).toBe(events.length);
+    expect(describeTimeline(events)).toMatchObject({ first: events[0].ts, events: events.length });
+  });
+
+  it('should replay dependency unblocking and session resets', async () => {
+    await store.setProjectContext({ projectRoot: '/repo', description: 'App', endState: 'Shipped' });
+    const first = await store.createTask({ title: 'First', complexity: 'simple', projectRoot: '/repo' });
+    const second = await store.createTask({ title: 'Second', complexity: 'simple', projectRoot: '/repo', dependsOn: [first.id] });
+    await store.updateTask({ id: first.id, status: 'done' });
+    const unblocked = await mark();
+    await store.resetSession('/repo', { keepProjectContext: true });
+
+    const events = await readEventLog(eventLogPath(path.join(tempDir, 'logs')));
+    const before = replayEvents(events, { at: unblocked, projectRoot: '/repo' });
+    expect(before.tasks.find(t => t.id === second.id)?.status).toBe('todo');
+
+    const after = replayEvents(events, { projectRoot: '/repo' });
+    expect(after.tasks).toEqual([]);
+    expect(after.projectContext).toMatchObject({ description: 'App', status: 'planning' });
+  });
+});
+
+describe('Event Log Reading', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should skip partial lines and treat a missing log as empty', async () => {
+    const logPath = path.join(tempDir, 'events.jsonl');
+    expect(await readEventLog(logPath)).toEqual([]);
+
+    await fs.writeFile(logPath, [
+      JSON.stringify({ ts: '2026-01-01T00:00:00.000Z', event: 'note_append', note: { id: 'n1', text: 'Hi', createdAt: '2026-01-01T00:00:00.000Z' } }),
+      '{"ts":"2026-01-01T00:00:01.000Z","ev',
+      JSON.stringify({ ts: '2026-01-01T00:00:02.000Z', event: 'session_import', imported: {} }),
+      '',
+    ].join('\n'));
+    const events = await readEventLog(logPath);
+    expect(events.map(e => e.event)).toEqual(['note_append', 'session_import']);
+
+    const state = replayEvents(events);
+    expect(state.notes.map(n => n.text)).toEqual(['Hi']);
+    expect(state.warnings).toHaveLength(1);
+    expect(() => parseReplayTime('yesterday-ish')).toThrow('Invalid timestamp: yesterday-ish');
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Event log replay: rebuild the coordination state as it stood at any moment
+ * from the events.jsonl that every store mutation appends to. Powers
+ * `lockstep-mcp replay` and the dashboard's timeline.
+ */
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import type { Implementer, Lock, Note, ProjectContext, Task } from "./storage.js";
+
+export type LogEvent = {
+  ts: string;
+  event: string;
+  [key: string]: unknown;
+};
+
+export type ReplayState = {
+  at: string;                  // Moment the state was rebuilt for
+  projectRoot?: string;        // Only this project's records, when set
+  projectContext: ProjectContext | null;
+  tasks: Task[];
+  locks: Lock[];               // Every lock seen, with its status at that moment
+  implementers: Implementer[];
+  notes: Note[];
+  eventsApplied: number;
+  lastEvent?: LogEvent;        // Most recent event at or before `at`
+  warnings: string[];          // Events the log cannot fully replay
+};
+
+export type Timeline = {
+  first?: string;              // Timestamps of the first and last logged events
+  last?: string;
+  events: number;
+};
+
+export function eventLogPath(logDir: string): string {
+  return path.join(logDir, "events.jsonl");
+}
+
+/**
+ * Read a log's events in order. Unparseable lines (a write cut short by a
+ * crash) are skipped; a missing log has no events.
+ */
+export async function readEventLog(logPath: string): Promise<LogEvent[]> {
+  if (!fs.existsSync(logPath)) return [];
+  const events: LogEvent[] = [];
+  const lines = readline.createInterface({ input: fs.createReadStream(logPath, "utf8"), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as LogEvent;
+      if (typeof parsed.ts === "string" && typeof parsed.event === "string") events.push(parsed);
+    } catch {
+      // Skip partial lines
+    }
+  }
+  return events;
+}
+
+export function describeTimeline(events: LogEvent[]): Timeline {
+  return { first: events[0]?.ts, last: events[events.length - 1]?.ts, events: events.length };
+}
+
+/**
+ * Parse a --at style timestamp: anything Date understands
+ */
+export function parseReplayTime(value: string): string {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`Invalid timestamp: ${value}`);
+  return new Date(time).toISOString();
+}
+
+// Legacy locks were keyed by path alone
+function lockKey(lock: Lock): string {
+  return lock.id ?? `${lock.projectRoot ?? ""}:${lock.path}`;
+}
+
+/**
+ * Apply every event up to and including `at` (default: all of them), keeping
+ * only projectRoot's records if given. Payloads are the records as written,
+ * so each event replaces the record it carries.
+ */
+export function replayEvents(
+  events: LogEvent[],
+  options: { at?: string; projectRoot?: string } = {}
+): ReplayState {
+  const at = options.at ?? events[events.length - 1]?.ts ?? new Date().toISOString();
+  const cutoff = Date.parse(at);
+  const inProject = (record: { projectRoot?: string } | undefined): boolean =>
+    !!record && (!options.projectRoot || record.projectRoot === options.projectRoot);
+
+  const tasks = new Map<string, Task>();
+  const locks = new Map<string, Lock>();
+  const implementers = new Map<string, Implementer>();
+  const notes: Note[] = [];
+  let projectContext = null as ProjectContext | null;
+  const warnings: string[] = [];
+  let eventsApplied = 0;
+  let lastEvent: LogEvent | undefined;
+
+  for (const entry of events) {
+    if (Date.parse(entry.ts) > cutoff) break;
+    eventsApplied++;
+    lastEvent = entry;
+
+    switch (entry.event) {
+      case "task_create":
+      case "task_update": {
+        const task = entry.task as Task | undefined;
+        if (inProject(task)) tasks.set(task!.id, task!);
+        break;
+      }
+      case "task_unblock": {
+        // JSON storage logs the unblocked tasks, SQLite only their ids
+        for (const item of (entry.unblocked as Array<Task | string> | undefined) ?? []) {
+          if (typeof item === "string") {
+            const task = tasks.get(item);
+            if (task?.status === "blocked") tasks.set(item, { ...task, status: "todo", updatedAt: entry.ts });
+          } else if (inProject(item)) {
+            tasks.set(item.id, item);
+          }
+        }
+        break;
+      }
+      case "lock_acquire":
+      case "lock_renew":
+      case "lock_handoff":
+      case "lock_release":
+      case "lock_expired": {
+        const lock = entry.lock as Lock | undefined;
+        if (inProject(lock)) locks.set(lockKey(lock!), lock!);
+        break;
+      }
+      case "note_append": {
+        const note = entry.note as Note | undefined;
+        if (inProject(note)) notes.push(note!);
+        break;
+      }
+      case "project_context_set": {
+        const context = entry.context as ProjectContext | undefined;
+        if (inProject(context)) projectContext = context!;
+        break;
+      }
+      case "project_status_update": {
+        if (projectContext && projectContext.projectRoot === entry.projectRoot) {
+          projectContext = { ...projectContext, status: entry.status as ProjectContext["status"], updatedAt: entry.ts };
+        }
+        break;
+      }
+      case "implementer_register": {
+        const implementer = entry.implementer as Implementer | undefined;
+        if (inProject(implementer)) implementers.set(implementer!.id, implementer!);
+        break;
+      }
+      case "implementer_update": {
+        // JSON storage logs the implementer, SQLite its id and new status
+        const implementer = entry.implementer as Implementer | undefined;
+        if (implementer) {
+          if (inProject(implementer)) implementers.set(implementer.id, implementer);
+          break;
+        }
+        const existing = implementers.get(entry.id as string);
+        if (existing) {
+          implementers.set(existing.id, { ...existing, status: entry.status as Implementer["status"], updatedAt: entry.ts });
+        }
+        break;
+      }
+      case "implementer_process": {
+        // Fields left out of the payload were not changed; null clears them
+        const existing = implementers.get(entry.id as string);
+        if (!existing) break;
+        const updated = { ...existing, updatedAt: entry.ts };
+        if ("pid" in entry) updated.pid = (entry.pid as number | null) ?? undefined;
+        if ("exitCode" in entry) updated.exitCode = (entry.exitCode as number | null) ?? undefined;
+        implementers.set(existing.id, updated);
+        break;
+      }
+      case "implementers_reset":
+      case "session_reset": {
+        const projectRoot = entry.projectRoot as string;
+        for (const impl of implementers.values()) {
+          if (impl.projectRoot === projectRoot && impl.status === "active") {
+            implementers.set(impl.id, { ...impl, status: "stopped", updatedAt: entry.ts });
+          }
+        }
+        if (entry.event === "implementers_reset") break;
+        for (const [id, task] of tasks) if (task.projectRoot === projectRoot) tasks.delete(id);
+        for (const [key, lock] of locks) if (lock.projectRoot === projectRoot) locks.delete(key);
+        for (let i = notes.length - 1; i >= 0; i--) if (notes[i].projectRoot === projectRoot) notes.splice(i, 1);
+        if (projectContext?.projectRoot === projectRoot) {
+          projectContext = entry.keepProjectContext
+            ? { ...projectContext, status: "planning", updatedAt: entry.ts }
+            : null;
+        }
+        break;
+      }
+      case "session_import": {
+        warnings.push(`${entry.ts}: records loaded by a session import or snapshot restore are not in the log`);
+        break;
+      }
+    }
+  }
+
+  return {
+    at: new Date(cutoff).toISOString(),
+    projectRoot: options.projectRoot,
+    projectContext,
+    tasks: [...tasks.values()],
+    locks: [...locks.values()],
+    implementers: [...implementers.values()],
+    notes,
+    eventsApplied,
+    lastEvent,
+    warnings,
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SqliteStore } from './storage.js';
+import { createResourceWatcher, parseResourceUri, readResource } from './resources.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('Resources', () => {
+  let store: SqliteStore;
+  let tempDir: string;
+  const projectRoot = '/repo';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+    store = new SqliteStore(path.join(tempDir, 'test.db'), path.join(tempDir, 'logs'));
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse resource URIs', () => {
+    expect(parseResourceUri('lockstep://tasks')).toEqual({ kind: 'tasks', projectRoot: undefined });
+    expect(parseResourceUri('lockstep://project/status?projectRoot=/other')).toEqual({ kind: 'project_status', projectRoot: '/other' });
+    expect(parseResourceUri('lockstep://inbox/impl%201')).toEqual({ kind: 'inbox', agent: 'impl 1', projectRoot: undefined });
+    expect(() => parseResourceUri('lockstep://locks')).toThrow('Unknown resource: lockstep://locks');
+    expect(() => parseResourceUri('file:///etc/passwd')).toThrow('Unknown resource');
+  });
+
+  it('should read tasks, notes and project status for a project', async () => {
+    await store.createTask({ title: 'Mine', complexity: 'simple', projectRoot });
+    await store.createTask({ title: 'Elsewhere', complexity: 'simple', projectRoot: '/other' });
+    await store.appendNote({ text: 'hello', author: 'planner', projectRoot });
+
+    const tasks = await readResource(store, 'lockstep://tasks', projectRoot) as { tasks: { title: string }[] };
+    expect(tasks.tasks.map((task) => task.title)).toEqual(['Mine']);
+    const other = await readResource(store, 'lockstep://tasks?projectRoot=/other', projectRoot) as { tasks: { title: string }[] };
+    expect(other.tasks.map((task) => task.title)).toEqual(['Elsewhere']);
+    const notes = await readResource(store, 'lockstep://notes', projectRoot) as { notes: { text: string }[] };
+    expect(notes.notes.map((note) => note.text)).toEqual(['hello']);
+    expect(await readResource(store, 'lockstep://project/status', projectRoot)).toEqual({ projectRoot, status: null, context: null });
+  });
+
+  it('should collect what needs an agent in its inbox', async () => {
+    const task = await store.createTask({ title: 'Build it', complexity: 'simple', projectRoot });
+    await store.claimTask({ id: task.id, owner: 'impl-1' });
+    const other = await store.createTask({ title: 'Not mine', complexity: 'simple', projectRoot });
+    await store.claimTask({ id: other.id, owner: 'impl-10' });
+    await store.appendNote({ text: '@impl-1 please rebase', author: 'planner', projectRoot });
+    await store.appendNote({ text: 'impl-10 is done', author: 'planner', projectRoot });
+    await store.appendNote({ text: 'impl-1 starting', author: 'impl-1', projectRoot });
+    const { discussion } = await store.createDiscussion({
+      topic: 'Schema?',
+      category: 'architecture',
+      priority: 'medium',
+      projectRoot,
+      createdBy: 'planner',
+      message: 'Which schema?',
+      waitingOn: 'impl-1',
+    });
+
+    const inbox = await readResource(store, 'lockstep://inbox/impl-1', projectRoot) as {
+      tasks: { title: string }[];
+      notes: { text: string }[];
+      discussions: { id: string }[];
+    };
+    expect(inbox.tasks.map((t) => t.title)).toEqual(['Build it']);
+    expect(inbox.notes.map((note) => note.text)).toEqual(['@impl-1 please rebase']);
+    expect(inbox.discussions.map((d) => d.id)).toEqual([discussion.id]);
+  });
+
+  it('should notify subscribers only when a resource changes', async () => {
+    let value = 'a';
+    const watcher = createResourceWatcher(async () => value, { intervalMs: 60_000 });
+    const updates: string[] = [];
+    const unsubscribe = watcher.subscribe('lockstep://tasks', (uri) => updates.push(uri));
+
+    await watcher.check();
+    expect(updates).toEqual([]);
+    value = 'b';
+    await watcher.check();
+    await watcher.check();
+    expect(updates).toEqual(['lockstep://tasks']);
+
+    unsubscribe();
+    value = 'c';
+    await watcher.check();
+    expect(updates).toHaveLength(1);
+    watcher.stop();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * MCP resources: read-only JSON views of coordination state that clients can
+ * subscribe to instead of polling task_list/note_list. Each URI accepts an
+ * optional ?projectRoot= query; without one the default project is used.
+ */
+import type { Store } from "./storage.js";
+
+export const TASKS_URI = "lockstep://tasks";
+export const NOTES_URI = "lockstep://notes";
+export const PROJECT_STATUS_URI = "lockstep://project/status";
+export const INBOX_URI_TEMPLATE = "lockstep://inbox/{agent}";
+
+const MIME_TYPE = "application/json";
+const NOTES_LIMIT = 100;
+
+export const RESOURCES = [
+  {
+    uri: TASKS_URI,
+    name: "Tasks",
+    description: "All tasks of the project with their status, owner and review state",
+    mimeType: MIME_TYPE,
+  },
+  {
+    uri: NOTES_URI,
+    name: "Notes",
+    description: `The latest ${NOTES_LIMIT} notes, including [SYSTEM] announcements`,
+    mimeType: MIME_TYPE,
+  },
+  {
+    uri: PROJECT_STATUS_URI,
+    name: "Project status",
+    description: "Project status (planning, ready, in_progress, complete or stopped) and context",
+    mimeType: MIME_TYPE,
+  },
+];
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: INBOX_URI_TEMPLATE,
+    name: "Agent inbox",
+    description: "What needs an agent's attention: its open tasks (with review feedback), discussions waiting on it, notes mentioning it and the project status",
+    mimeType: MIME_TYPE,
+  },
+];
+
+export type ResourceRef =
+  | { kind: "tasks" | "notes" | "project_status"; projectRoot?: string }
+  | { kind: "inbox"; agent: string; projectRoot?: string };
+
+export function parseResourceUri(uri: string): ResourceRef {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+  if (url.protocol !== "lockstep:") throw new Error(`Unknown resource: ${uri}`);
+  const projectRoot = url.searchParams.get("projectRoot") || undefined;
+  const resourcePath = `${url.host}${url.pathname}`;
+
+  if (resourcePath === "tasks") return { kind: "tasks", projectRoot };
+  if (resourcePath === "notes") return { kind: "notes", projectRoot };
+  if (resourcePath === "project/status") return { kind: "project_status", projectRoot };
+  const inbox = resourcePath.match(/^inbox\/(.+)$/);
+  if (inbox) return { kind: "inbox", agent: decodeURIComponent(inbox[1]), projectRoot };
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+// Whole-word mention of an agent name; impl-1 does not match impl-10
+function mentions(text: string, agent: string): boolean {
+  const escaped = agent.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w-])@?${escaped}($|[^\\w-])`).test(text);
+}
+
+/**
+ * Current contents of a resource
+ */
+export async function readResource(store: Store, uri: string, defaultProjectRoot: string): Promise<unknown> {
+  const ref = parseResourceUri(uri);
+  const projectRoot = ref.projectRoot ?? defaultProjectRoot;
+
+  switch (ref.kind) {
+    case "tasks":
+      return { projectRoot, tasks: await store.listTasks({ projectRoot }) };
+    case "notes":
+      return { projectRoot, notes: await store.listNotes(NOTES_LIMIT, projectRoot) };
+    case "project_status": {
+      const context = await store.getProjectContext(projectRoot);
+      return { projectRoot, status: context?.status ?? null, context };
+    }
+    case "inbox": {
+      const context = await store.getProjectContext(projectRoot);
+      const tasks = (await store.listTasks({ projectRoot, owner: ref.agent }))
+        .filter((task) => task.status !== "done");
+      const discussions = (await store.listDiscussions({ projectRoot, waitingOn: ref.agent }))
+        .filter((discussion) => discussion.status === "open" || discussion.status === "waiting");
+      const notes = (await store.listNotes(NOTES_LIMIT, projectRoot))
+        .filter((note) => note.author !== ref.agent && mentions(note.text, ref.agent));
+      return { projectRoot, agent: ref.agent, projectStatus: context?.status ?? null, tasks, discussions, notes };
+    }
+  }
+}
+
+export function resourceContents(uri: string, data: unknown) {
+  return { uri, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) };
+}
+
+export type ResourceWatcher = {
+  subscribe: (uri: string, listener: (uri: string) => void) => () => void;  // Returns unsubscribe
+  check: () => Promise<void>;
+  stop: () => void;
+};
+
+/**
+ * Watch resources for changes by reading them on an interval (and whenever
+ * check() is called) and comparing with the last read. Polling also picks up
+ * changes made by other server processes sharing the database.
+ */
+export function createResourceWatcher(
+  read: (uri: string) => Promise<string>,
+  options: { intervalMs?: number } = {}
+): ResourceWatcher {
+  const intervalMs = options.intervalMs ?? 1000;
+  const watched = new Map<string, { last?: string; listeners: Set<(uri: string) => void> }>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running: Promise<void> | null = null;
+  let rerun = false;
+
+  const runCheck = async () => {
+    for (const [uri, entry] of Array.from(watched.entries())) {
+      let value: string;
+      try {
+        value = await read(uri);
+      } catch {
+        continue;
+      }
+      const changed = entry.last !== undefined && entry.last !== value;
+      entry.last = value;
+      if (changed) {
+        for (const listener of Array.from(entry.listeners)) listener(uri);
+      }
+    }
+  };
+
+  // A check requested during a pass runs one more pass after it, so changes
+  // made after the pass read a resource are not missed
+  const check = () => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        rerun = false;
+        await runCheck();
+      } while (rerun);
+    })().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const subscribe = (uri: string, listener: (uri: string) => void) => {
+    let entry = watched.get(uri);
+    if (!entry) {
+      const created: { last?: string; listeners: Set<(uri: string) => void> } = { listeners: new Set() };
+      watched.set(uri, created);
+      read(uri).then((value) => {
+        created.last ??= value;
+      }, () => undefined);
+      entry = created;
+    }
+    entry.listeners.add(listener);
+    if (!timer) {
+      timer = setInterval(() => {
+        check().catch(() => undefined);
+      }, intervalMs);
+      timer.unref();
+    }
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) watched.delete(uri);
+      if (watched.size === 0) stop();
+    };
+  };
+
+  return { subscribe, check, stop };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SqliteStore } from './storage.js';
+import { BUILTIN_AGENT_PROFILES } from './agents.js';
+import { nextImplementerName, restartDelay, runImplementer } from './runner.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('Headless Implementer Runner', () => {
+  let store: SqliteStore;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+    store = new SqliteStore(path.join(tempDir, 'test.db'), path.join(tempDir, 'logs'));
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should capture output and record the exit code of a clean run', async () => {
+    const result = await runImplementer(store, {
+      name: 'impl-1',
+      agent: BUILTIN_AGENT_PROFILES.claude,
+      projectRoot: tempDir,
+      logDir: path.join(tempDir, 'implementers'),
+      command: 'echo working; echo oops >&2',
+    });
+
+    expect(result.reason).toBe('completed');
+    expect(result.exitCode).toBe(0);
+    expect(result.restarts).toBe(0);
+    expect(result.implementer).toMatchObject({ status: 'stopped', launcher: 'headless', exitCode: 0, logFile: result.logFile });
+    const log = await fs.readFile(result.logFile, 'utf8');
+    expect(log).toContain('working');
+    expect(log).toContain('oops');
+    expect(log).toContain('exited with code 0');
+  });
+
+  it('should restart a crashing agent with backoff and give up after maxRestarts', async () => {
+    const result = await runImplementer(store, {
+      name: 'impl-1',
+      agent: BUILTIN_AGENT_PROFILES.codex,
+      projectRoot: tempDir,
+      logDir: path.join(tempDir, 'implementers'),
+      command: 'echo attempt; exit 3',
+      maxRestarts: 2,
+      backoffMs: 10,
+    });
+
+    expect(result.reason).toBe('gave_up');
+    expect(result.restarts).toBe(2);
+    const [impl] = await store.listImplementers(tempDir);
+    expect(impl).toMatchObject({ status: 'stopped', exitCode: 3, pid: undefined });
+    const log = await fs.readFile(result.logFile, 'utf8');
+    expect(log.match(/^attempt$/gm)).toHaveLength(3);
+    expect(log).toContain('giving up after 2 restart(s)');
+  });
+
+  it('should stop the agent when aborted', async () => {
+    const controller = new AbortController();
+    const running = runImplementer(store, {
+      name: 'impl-1',
+      agent: BUILTIN_AGENT_PROFILES.claude,
+      projectRoot: tempDir,
+      logDir: path.join(tempDir, 'implementers'),
+      command: 'sleep 30',
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const [impl] = await store.listImplementers(tempDir);
+    expect(impl.pid).toBeGreaterThan(0);
+
+    controller.abort();
+    const result = await running;
+    expect(result.reason).toBe('stopped');
+    expect(result.exitCode).toBe(128 + os.constants.signals.SIGTERM);
+  });
+
+  it('should pass the prompt on stdin for stdin-style profiles', async () => {
+    const result = await runImplementer(store, {
+      name: 'impl-1',
+      agent: { name: 'local', command: 'cat', promptStyle: 'stdin' },
+      projectRoot: tempDir,
+      logDir: path.join(tempDir, 'implementers'),
+    });
+
+    expect(result.implementer.type).toBe('local');
+    const log = await fs.readFile(result.logFile, 'utf8');
+    expect(log).toContain('You are implementer impl-1, running headless');
+  });
+
+  it('should double the restart delay up to the cap', () => {
+    expect(restartDelay(0, 1000, 60000)).toBe(1000);
+    expect(restartDelay(3, 1000, 60000)).toBe(8000);
+    expect(restartDelay(10, 1000, 60000)).toBe(60000);
+  });
+
+  it('should pick the next free impl-N name', async () => {
+    expect(nextImplementerName([])).toBe('impl-1');
+    await store.registerImplementer({ name: 'impl-2', type: 'claude', projectRoot: '/repo' });
+    await store.registerImplementer({ name: 'reviewer', type: 'codex', projectRoot: '/repo' });
+    expect(nextImplementerName(await store.listImplementers('/repo'))).toBe('impl-3');
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Headless implementer runner: supervises an agent as a child process with no
+ * terminal, capturing its output and restarting it when it crashes
+ */
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buildAgentCommand, type AgentProfile } from "./agents.js";
+import { getImplementerPrompt } from "./prompts.js";
+import type { Implementer, Store } from "./storage.js";
+
+export type RunImplementerOptions = {
+  name: string;
+  agent: AgentProfile;
+  projectRoot: string;
+  logDir: string;          // Output goes to <logDir>/<name>.log
+  command?: string;        // Shell command replacing the default agent invocation
+  maxRestarts?: number;    // Crashes tolerated before giving up (default 5)
+  backoffMs?: number;      // Delay before the first restart, doubled after each crash (default 1000)
+  maxBackoffMs?: number;   // Cap on the restart delay (default 60000)
+  signal?: AbortSignal;    // Abort to stop the agent and the runner
+};
+
+export type RunImplementerResult = {
+  implementer: Implementer;
+  reason: "completed" | "stopped" | "gave_up";
+  exitCode: number | null;
+  restarts: number;
+  logFile: string;
+};
+
+const DEFAULT_MAX_RESTARTS = 5;
+const DEFAULT_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 60_000;
+
+/**
+ * Next free impl-N name among a project's implementers
+ */
+export function nextImplementerName(implementers: Implementer[]): string {
+  let maxNum = 0;
+  for (const impl of implementers) {
+    const match = impl.name.match(/^impl-(\d+)$/);
+    if (match) {
+      maxNum = Math.max(maxNum, parseInt(match[1], 10));
+    }
+  }
+  return `impl-${maxNum + 1}`;
+}
+
+export function restartDelay(restarts: number, backoffMs: number, maxBackoffMs: number): number {
+  return Math.min(backoffMs * 2 ** restarts, maxBackoffMs);
+}
+
+// Signals are reported shell-style as 128 + signal number
+function exitCodeOf(code: number | null, signal: NodeJS.Signals | null): number | null {
+  if (code !== null) return code;
+  if (signal) return 128 + (os.constants.signals[signal] ?? 0);
+  return null;
+}
+
+function waitOrAbort(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+}
+
+/**
+ * Register an implementer and keep its agent running until it exits cleanly,
+ * is stopped (via the signal or by marking the implementer stopped) or crashes
+ * more than maxRestarts times
+ */
+export async function runImplementer(store: Store, options: RunImplementerOptions): Promise<RunImplementerResult> {
+  const maxRestarts = options.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+  const backoffMs = options.backoffMs ?? DEFAULT_BACKOFF_MS;
+  const maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+  const { signal } = options;
+
+  fs.mkdirSync(options.logDir, { recursive: true });
+  const logFile = path.join(options.logDir, `${options.name}.log`);
+  const log = fs.createWriteStream(logFile, { flags: "a" });
+  const mark = (message: string) => log.write(`[lockstep ${new Date().toISOString()}] ${message}\n`);
+
+  let implementer = await store.registerImplementer({
+    name: options.name,
+    type: options.agent.name,
+    projectRoot: options.projectRoot,
+    launcher: "headless",
+    logFile,
+  });
+
+  const prompt = getImplementerPrompt({ name: options.name, projectRoot: options.projectRoot, headless: true });
+  // Without a terminal, prompts meant to be typed in go to stdin as well
+  const agentCommand = options.command
+    ? { command: options.command }
+    : buildAgentCommand(options.agent, prompt, { headless: true });
+  const input = agentCommand.stdin ?? agentCommand.keys;
+
+  let restarts = 0;
+  let exitCode: number | null = null;
+  let reason: RunImplementerResult["reason"];
+
+  try {
+    for (;;) {
+      mark(restarts === 0 ? `starting ${options.agent.name}: ${agentCommand.command}` : `restart ${restarts} of ${maxRestarts}`);
+      const child = spawn("sh", ["-c", agentCommand.command], {
+        cwd: options.projectRoot,
+        env: { ...process.env, LOCKSTEP_IMPLEMENTER: options.name },
+        stdio: ["pipe", "pipe", "pipe"],
+        detached: true,  // Own process group, so stopping also ends anything the agent started
+      });
+      child.stdout.pipe(log, { end: false });
+      child.stderr.pipe(log, { end: false });
+      child.stdin.on("error", () => undefined);  // Agent may exit without reading it
+      child.stdin.end(input !== undefined ? `${input}\n` : undefined);
+
+      const kill = () => {
+        try {
+          if (child.pid) process.kill(-child.pid, "SIGTERM");
+        } catch {
+          // Process group already gone
+        }
+      };
+      signal?.addEventListener("abort", kill);
+      const exited = new Promise<number | null>((resolve) => {
+        child.on("error", (error) => {
+          mark(`failed to start: ${error.message}`);
+          resolve(127);
+        });
+        child.on("close", (code, sig) => resolve(exitCodeOf(code, sig)));
+      });
+      if (child.pid) {
+        implementer = await store.updateImplementerProcess(implementer.id, { pid: child.pid, exitCode: null });
+      }
+
+      exitCode = await exited;
+      signal?.removeEventListener("abort", kill);
+      mark(`exited with code ${exitCode}`);
+      implementer = await store.updateImplementerProcess(implementer.id, { pid: null, exitCode });
+
+      if (signal?.aborted) {
+        reason = "stopped";
+        break;
+      }
+      const current = (await store.listImplementers(options.projectRoot)).find((impl) => impl.id === implementer.id);
+      if (current?.status === "stopped") {
+        reason = "stopped";
+        break;
+      }
+      if (exitCode === 0) {
+        reason = "completed";
+        break;
+      }
+      if (restarts >= maxRestarts) {
+        mark(`giving up after ${restarts} restart(s)`);
+        reason = "gave_up";
+        break;
+      }
+
+      const delay = restartDelay(restarts, backoffMs, maxBackoffMs);
+      mark(`restarting in ${delay}ms`);
+      await waitOrAbort(delay, signal);
+      if (signal?.aborted) {
+        reason = "stopped";
+        break;
+      }
+      restarts += 1;
+    }
+  } finally {
+    implementer = await store.updateImplementer(implementer.id, "stopped");
+    await new Promise<void>((resolve) => log.end(resolve));
+  }
+
+  return { implementer, reason, exitCode, restarts, logFile };
+}
@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+function parseResult(result: unknown) {
+  const { content } = result as { content: { text: string }[] };
+  return JSON.parse(content[0].text);
+}
+
+async function connect(url: string, headers?: Record<string, string>) {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(new URL(url), { requestInit: { headers } }));
+  return client;
+}
+
+describe('HTTP server', () => {
+  const originalEnv = process.env;
+  let tempDir: string;
+  let server: { url: string; close: () => Promise<void> };
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+    vi.resetModules();
+    process.env = {
+      ...originalEnv,
+      COORD_DATA_DIR: path.join(tempDir, 'data'),
+      COORD_LOG_DIR: path.join(tempDir, 'logs'),
+      COORD_ROOTS: tempDir,
+      COORD_USER_CONFIG: path.join(tempDir, 'config.json'),
+      COORD_LOCK_ENFORCEMENT: 'strict',
+    };
+    const { startHttpServer } = await import('./server.js');
+    server = await startHttpServer({ host: '127.0.0.1', port: 0, pollMs: 60_000 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+    process.env = originalEnv;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should give each client its own session on one shared store', async () => {
+    const planner = await connect(`${server.url}/mcp?agent=planner`);
+    const implementer = await connect(`${server.url}/mcp`, { 'X-Lockstep-Agent': 'impl-1' });
+
+    await planner.callTool({ name: 'task_create', arguments: { title: 'Shared task', complexity: 'simple' } });
+    const listed = parseResult(await implementer.callTool({ name: 'task_list', arguments: {} }));
+    expect(listed.tasks.map((task: { title: string }) => task.title)).toEqual(['Shared task']);
+
+    const status = parseResult(await implementer.callTool({ name: 'status_get', arguments: {} }));
+    expect(status.session).toMatchObject({ transport: 'http', agent: 'impl-1', client: 'test-client/1.0.0' });
+    expect(status.sessions.map((session: { agent: string }) => session.agent).sort()).toEqual(['impl-1', 'planner']);
+
+    await planner.close();
+    await implementer.close();
+  });
+
+  it('should record the role a session takes in coordination_init', async () => {
+    const client = await connect(`${server.url}/mcp?agent=impl-2`);
+    await client.callTool({ name: 'coordination_init', arguments: { role: 'implementer' } });
+    const status = parseResult(await client.callTool({ name: 'status_get', arguments: {} }));
+    expect(status.session).toMatchObject({ agent: 'impl-2', role: 'implementer' });
+    await client.close();
+  });
+
+  it('should push resource updates to subscribers', async () => {
+    const implementer = await connect(`${server.url}/mcp?agent=impl-3`);
+    const planner = await connect(`${server.url}/mcp?agent=planner`);
+    const updated = new Promise<string>((resolve) => {
+      implementer.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        resolve(notification.params.uri);
+      });
+    });
+
+    const { resources } = await implementer.listResources();
+    expect(resources.map((resource) => resource.uri)).toContain('lockstep://notes');
+    await implementer.subscribeResource({ uri: 'lockstep://inbox/impl-3' });
+    // Let the watcher take its baseline before changing anything
+    await implementer.readResource({ uri: 'lockstep://inbox/impl-3' });
+
+    await planner.callTool({ name: 'note_append', arguments: { text: '@impl-3 pick up the API task', author: 'planner' } });
+    expect(await updated).toBe('lockstep://inbox/impl-3');
+    const inbox = await implementer.readResource({ uri: 'lockstep://inbox/impl-3' });
+    expect(JSON.parse((inbox.contents[0] as { text: string }).text).notes).toHaveLength(1);
+
+    await planner.close();
+    await implementer.close();
+  });
+
+  it('should bind sessions to their identity and enforce role permissions', async () => {
+    const implementer = await connect(`${server.url}/mcp?agent=impl-5`);
+    const init = parseResult(await implementer.callTool({ name: 'coordination_init', arguments: { role: 'implementer' } }));
+    expect(init.identity).toMatchObject({ name: 'impl-5', role: 'implementer' });
+
+    const approve = await implementer.callTool({ name: 'task_approve', arguments: { id: 'task-1' } });
+    expect(approve.isError).toBe(true);
+    expect((approve.content as { text: string }[])[0].text)
+      .toBe('Call rejected: task_approve is not allowed for the implementer role (allowed: planner)');
+
+    const impersonate = await implementer.callTool({ name: 'note_append', arguments: { text: 'done', author: 'planner' } });
+    expect(impersonate.isError).toBe(true);
+    const rebind = await implementer.callTool({ name: 'coordination_init', arguments: { role: 'planner' } });
+    expect(rebind.isError).toBe(true);
+
+    const planner = await connect(`${server.url}/mcp`);
+    const unidentified = await planner.callTool({ name: 'implementer_reset', arguments: {} });
+    expect((unidentified.content as { text: string }[])[0].text).toContain('call coordination_init first');
+    await planner.callTool({ name: 'coordination_init', arguments: { role: 'planner' } });
+    const reset = await planner.callTool({ name: 'implementer_reset', arguments: {} });
+    expect(reset.isError).toBeFalsy();
+
+    const events = await fs.readFile(path.join(tempDir, 'logs', 'events.jsonl'), 'utf8');
+    const violations = events.trim().split('\n').map((line) => JSON.parse(line)).filter((event) => event.event === 'role_violation');
+    expect(violations.map((event) => event.tool)).toEqual(['task_approve', 'note_append', 'coordination_init', 'implementer_reset']);
+    expect(violations[0].session).toMatchObject({ agent: 'impl-5', role: 'implementer' });
+
+    await planner.close();
+    await implementer.close();
+  });
+
+  it('should record task history under the session\'s own name', async () => {
+    const client = await connect(`${server.url}/mcp?agent=impl-6`);
+    await client.callTool({ name: 'coordination_init', arguments: { role: 'implementer' } });
+    const task = parseResult(await client.callTool({ name: 'task_create', arguments: { title: 'Tidy', complexity: 'simple' } }));
+    await client.callTool({ name: 'task_update', arguments: { id: task.id, description: 'Tidy the imports' } });
+
+    const forged = await client.callTool({ name: 'task_update', arguments: { id: task.id, status: 'in_progress', actor: 'planner' } });
+    expect(forged.isError).toBe(true);
+    const history = parseResult(await client.callTool({ name: 'task_history', arguments: { id: task.id } }));
+    expect(history.task.status).toBe('todo');
+    expect(history.events.map((event: { actor?: string }) => event.actor)).toEqual(['impl-6', 'impl-6']);
+    await client.close();
+  });
+
+  it('should record reviews under the planner\'s bound name', async () => {
+    const planner = await connect(`${server.url}/mcp?agent=lead-planner`);
+    await planner.callTool({ name: 'coordination_init', arguments: { role: 'planner' } });
+    const implementer = await connect(`${server.url}/mcp?agent=impl-7`);
+    await implementer.callTool({ name: 'coordination_init', arguments: { role: 'implementer' } });
+    const task = parseResult(await planner.callTool({ name: 'task_create', arguments: { title: 'Review me', complexity: 'medium' } }));
+    await implementer.callTool({ name: 'task_claim', arguments: { id: task.id } });
+    await implementer.callTool({ name: 'task_submit_for_review', arguments: { id: task.id, reviewNotes: 'Done' } });
+
+    const forged = await planner.callTool({ name: 'task_approve', arguments: { id: task.id, actor: 'impl-7' } });
+    expect(forged.isError).toBe(true);
+    const approved = await planner.callTool({ name: 'task_approve', arguments: { id: task.id } });
+    expect(parseResult(approved).status).toBe('done');
+    const history = parseResult(await planner.callTool({ name: 'task_history', arguments: { id: task.id } }));
+    expect(history.events.find((event: { to?: string }) => event.to === 'done')).toMatchObject({ type: 'status', actor: 'lead-planner' });
+
+    await implementer.close();
+    await planner.close();
+  });
+
+  it('should hand ready implementers the work loop under their own name', async () => {
+    const planner = await connect(`${server.url}/mcp?agent=planner`);
+    await planner.callTool({ name: 'coordination_init', arguments: { role: 'planner' } });
+    await planner.callTool({ name: 'task_create', arguments: { title: 'Build', complexity: 'medium' } });
+
+    const implementer = await connect(`${server.url}/mcp?agent=impl-9`);
+    const init = parseResult(await implementer.callTool({ name: 'coordination_init', arguments: { role: 'implementer' } }));
+    expect(init.status).toBe('ready');
+    expect(init.instruction).toContain('task_next({ owner: "impl-9" })');
+    expect(init.instruction).toContain('MEDIUM/COMPLEX/CRITICAL: task_submit_for_review');
+    expect(init.instruction).not.toContain('YOUR_NAME');
+
+    await implementer.close();
+    await planner.close();
+  });
+
+  it('should check locks on and write the same project-relative file', async () => {
+    // The coordinator's cwd is not the project root
+    expect(process.cwd()).not.toBe(tempDir);
+    const client = await connect(`${server.url}/mcp?agent=impl-8`);
+    await client.callTool({ name: 'coordination_init', arguments: { role: 'implementer' } });
+    await client.callTool({ name: 'lock_acquire', arguments: { path: 'src/locked.ts', owner: 'impl-8' } });
+
+    const written = await client.callTool({
+      name: 'file_write',
+      arguments: { path: 'src/locked.ts', content: 'export {};\n', owner: 'impl-8', createDirs: true },
+    });
+    expect(written.isError).toBeFalsy();
+    expect(parseResult(written).path).toBe(path.join(tempDir, 'src', 'locked.ts'));
+    expect(await fs.readFile(path.join(tempDir, 'src', 'locked.ts'), 'utf8')).toBe('export {};\n');
+
+    const unlocked = await client.callTool({ name: 'file_write', arguments: { path: 'src/other.ts', content: '', owner: 'impl-8' } });
+    expect(unlocked.isError).toBe(true);
+    await client.close();
+  });
+
+  it('should serve the role prompts', async () => {
+    const client = await connect(`${server.url}/mcp`);
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual(['planner', 'implementer', 'autopilot']);
+
+    const result = await client.getPrompt({ name: 'implementer', arguments: { name: 'impl-4' } });
+    const text = (result.messages[0].content as { text: string }).text;
+    expect(text).toContain('You are implementer impl-4.');
+    expect(text).toContain(`PROJECT ROOT: ${tempDir}`);
+    await client.close();
+  });
+
+  it('should reject requests without a session or for an unknown one', async () => {
+    const list = { jsonrpc: '2.0', id: 1, method: 'tools/list' };
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+    const missing = await fetch(`${server.url}/mcp`, { method: 'POST', headers, body: JSON.stringify(list) });
+    expect(missing.status).toBe(400);
+
+    const unknown = await fetch(`${server.url}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'mcp-session-id': 'no-such-session' },
+      body: JSON.stringify(list),
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should still serve the dashboard', async () => {
+    const response = await fetch(server.url);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('<html');
+  });
+});
+
+describe('HTTP server with custom settings', () => {
+  const originalEnv = process.env;
+  let tempDir: string;
+  let server: { url: string; close: () => Promise<void> };
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+    vi.resetModules();
+    process.env = {
+      ...originalEnv,
+      COORD_DATA_DIR: path.join(tempDir, 'data'),
+      COORD_LOG_DIR: path.join(tempDir, 'logs'),
+      COORD_ROOTS: tempDir,
+      COORD_USER_CONFIG: path.join(tempDir, 'config.json'),
+      COORD_ROLE_ENFORCEMENT: 'warn',
+      COORD_LAUNCHER: 'background',
+    };
+    await fs.writeFile(path.join(tempDir, 'config.json'), JSON.stringify({ agents: { aider: { command: 'aider --yes-always' } } }));
+    const { startHttpServer } = await import('./server.js');
+    server = await startHttpServer({ host: '127.0.0.1', port: 0, pollMs: 60_000 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+    process.env = originalEnv;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should describe the configured launcher and agent profiles', async () => {
+    const client = await connect(`${server.url}/mcp?agent=planner`);
+    const { tools } = await client.listTools();
+    expect(tools.find((tool) => tool.name === 'launch_implementer')?.description)
+      .toMatch(/^Launch a new implementer agent \(claude, codex, aider\) in a detached background process/);
+
+    const init = parseResult(await client.callTool({ name: 'coordination_init', arguments: { role: 'planner' } }));
+    expect(init.instruction).toContain('Which agent should I use as the implementer (claude, codex, aider)?');
+    await client.close();
+  });
+
+  it('should warn a bound session that calls coordination_init as someone else', async () => {
+    const client = await connect(`${server.url}/mcp?agent=impl-3`);
+    await client.callTool({ name: 'coordination_init', arguments: { role: 'implementer' } });
+
+    const rebind = await client.callTool({ name: 'coordination_init', arguments: { role: 'implementer', name: 'impl-4' } });
+    expect(rebind.isError).toBeFalsy();
+    const content = rebind.content as { text: string }[];
+    expect(content.at(-1)?.text)
+      .toBe('Warning: Role violation: session is already bound to implementer "impl-3"; open a new session to change identity');
+
+    const again = await client.callTool({ name: 'coordination_init', arguments: { role: 'implementer', name: 'impl-4' } });
+    expect(again.content).toHaveLength(1);
+    await client.close();
+  });
+});
@@ -7,13 +7,45 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  isInitializeRequest,
+  type CallToolRequest,
 } from "@modelcontextprotocol/sdk/types.js";
-import { loadConfig } from "./config.js";
-import { resolvePath, ensureDir } from "./utils.js";
-import { createStore } from "./storage.js";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describeConfig, loadConfig } from "./config.js";
+import { expandHome, resolvePath, ensureDir } from "./utils.js";
+import { createStore, type Lock } from "./storage.js";
+import { buildTaskGraph } from "./graph.js";
+import { lockPatternsOverlap, normalizeLockPath } from "./lockPatterns.js";
+import { describeLockQueue } from "./lockQueue.js";
+import { buildWaitForGraph, findDeadlocks, type WaitForEdge } from "./deadlocks.js";
+import { callerImplementer, createActivityTracker, reclaimStaleWork } from "./heartbeats.js";
+import { createSnapshot, listSnapshots, pruneSnapshots, resetWithSnapshot, restoreSnapshot, snapshotDirFor } from "./snapshots.js";
+import { formatCounts } from "./bundle.js";
+import { describeLauncher, getLauncher, openBrowser, type Launcher } from "./launcher.js";
+import { nextImplementerName } from "./runner.js";
+import { BUILTIN_AGENT_PROFILES, buildAgentCommand, getAgentProfile, loadAgentProfiles } from "./agents.js";
+import { agentFromRequest, createSession, type Session } from "./sessions.js";
+import { MCP_PROMPTS, getImplementerPrompt, getImplementerWorkLoop, getMcpPrompt } from "./prompts.js";
+import { IDENTITY_ARGS, SELF_ARGS, findIdentityViolation, findRoleViolation } from "./permissions.js";
+import {
+  RESOURCES,
+  RESOURCE_TEMPLATES,
+  createResourceWatcher,
+  parseResourceUri,
+  readResource,
+  resourceContents,
+} from "./resources.js";
 import {
   createWorktree,
   removeWorktree,
@@ -27,6 +59,8 @@ import {
 
 const config = loadConfig();
 const store = createStore(config);
+const snapshotDir = snapshotDirFor(config.dataDir);
+const recordActivity = createActivityTracker(store, { timeoutSeconds: config.heartbeatTimeoutSeconds });
 
 function getString(value: unknown): string | undefined {
   return typeof value === "string" ? value : undefined;
@@ -188,13 +222,224 @@ async function writeFileSafe(filePath: string, content: string, options: { encod
   return { path: resolved, bytes: Buffer.byteLength(content, options.encoding ?? "utf8") };
 }
 
+/**
+ * Resolve a write target: relative paths are relative to the project root,
+ * not the server's cwd, so the lock check and the write see the same file
+ */
+function resolveProjectPath(filePath: string, projectRoot: string): string {
+  return resolvePath(path.resolve(projectRoot, expandHome(filePath)), config.mode, config.roots);
+}
+
+/**
+ * Check a write to an already resolved path against the lock table according
+ * to config.lockEnforcement. Strict mode throws unless the owner holds an
+ * exclusive lock covering the file; warn mode logs the violation and returns a
+ * warning for the response.
+ */
+async function checkWriteLock(tool: string, resolvedPath: string, owner: string | undefined, projectRoot: string) {
+  if (config.lockEnforcement === "off") return undefined;
+  const target = normalizeLockPath(resolvedPath, projectRoot);
+  const locks = await store.listLocks({ projectRoot, status: "active" });
+  const covered = locks.some(
+    (lock) => lock.owner === owner && lock.mode === "exclusive" && lockPatternsOverlap(lock.path, target)
+  );
+  if (owner && covered) return undefined;
+
+  const violation = owner
+    ? `${owner} does not hold an exclusive lock covering ${target}`
+    : `no owner given for write to ${target}`;
+  await store.appendLogEntry("lock_violation", {
+    tool,
+    path: target,
+    owner,
+    projectRoot,
+    enforcement: config.lockEnforcement,
+  });
+  if (config.lockEnforcement === "strict") {
+    throw new Error(`Write rejected: ${violation}. Call lock_acquire({ path, owner }) first.`);
+  }
+  return `Unlocked write: ${violation}. Call lock_acquire before editing shared files.`;
+}
+
+/**
+ * Log a role or identity violation; rejects the call under strict enforcement,
+ * otherwise returns the warning to attach to the response
+ */
+async function reportRoleViolation(tool: string, session: Session, violation: string) {
+  if (config.roleEnforcement === "off") return undefined;
+  await store.appendLogEntry("role_violation", {
+    tool,
+    violation,
+    session: describeSession(session),
+    enforcement: config.roleEnforcement,
+  });
+  if (config.roleEnforcement === "strict") {
+    throw new Error(`Call rejected: ${violation}`);
+  }
+  return `Role violation: ${violation}`;
+}
+
+/**
+ * Check a call against the permission matrix and the session's identity.
+ * Required owner/author arguments left out default to the session's name.
+ */
+async function checkAccess(tool: string, args: Record<string, unknown>, session: Session) {
+  if (tool === "coordination_init") {
+    // A bound session keeps its identity; coordination_init may only repeat it
+    const requestedName = getString(args.name);
+    if (session.role && (session.role !== args.role || (requestedName && requestedName !== session.agent))) {
+      return reportRoleViolation(
+        tool,
+        session,
+        `session is already bound to ${session.role} "${session.agent}"; open a new session to change identity`
+      );
+    }
+    return undefined;
+  }
+  if (session.role && session.agent) {
+    const schema = tools.find((definition) => definition.name === tool)?.inputSchema;
+    const required: string[] = schema?.required ?? [];
+    for (const key of IDENTITY_ARGS) {
+      const fill = required.includes(key) || (SELF_ARGS.includes(key) && key in (schema?.properties ?? {}));
+      if (fill && args[key] === undefined) args[key] = session.agent;
+    }
+  }
+  const identity = { name: session.agent, role: session.role };
+  const violation = findRoleViolation(config.permissions, tool, identity) ?? findIdentityViolation(args, identity);
+  return violation ? reportRoleViolation(tool, session, violation) : undefined;
+}
+
+/**
+ * Stop implementers that missed heartbeats and free their tasks and locks
+ */
+async function reclaimStaleImplementers(projectRoot?: string) {
+  return reclaimStaleWork(store, { timeoutSeconds: config.heartbeatTimeoutSeconds, projectRoot });
+}
+
+/**
+ * Names of the agent profiles launch_implementer accepts
+ */
+function agentTypeNames(): string[] {
+  try {
+    return Object.keys(loadAgentProfiles(config.userConfigPath, config.projectConfigPath));
+  } catch {
+    return Object.keys(BUILTIN_AGENT_PROFILES);
+  }
+}
+
+const DEFAULT_DASHBOARD_URL = "http://127.0.0.1:8787";
+// Set when this process serves HTTP, whose dashboard then needs no launching
+let httpDashboardUrl: string | undefined;
+
+function dashboardUrl(): string {
+  return httpDashboardUrl ?? DEFAULT_DASHBOARD_URL;
+}
+// Output of implementers started by the background launcher
+const IMPLEMENTER_LOG_DIR = path.join(config.logDir, "implementers");
+
+/**
+ * Start the dashboard for a project through the configured launcher
+ */
+async function launchDashboard(launcher: Launcher, projectRoot: string) {
+  const cliPath = path.resolve(__dirname, "cli.js");
+  // Pass --roots so dashboard knows which project to display
+  return launcher.launch({
+    name: "dashboard",
+    command: `node "${cliPath}" dashboard --roots "${projectRoot}"`,
+    cwd: projectRoot,
+    logDir: IMPLEMENTER_LOG_DIR,
+  });
+}
+
+// Deadlocks already announced by this server, so each one is posted once
+const reportedDeadlocks = new Set<string>();
+
+function describeWaitForEdge(edge: WaitForEdge): string {
+  if (edge.reason === "task") return `${edge.from} waits for ${edge.to} (task ${edge.taskId})`;
+  if (edge.reason === "queue") return `${edge.from} is queued behind ${edge.to} (${edge.path})`;
+  return `${edge.from} waits for ${edge.to} (lock ${edge.path})`;
+}
+
+/**
+ * Build the wait-for graph for a project and post a [SYSTEM] note for each new deadlock
+ */
+async function detectDeadlocks(projectRoot: string) {
+  const locks = await store.listLocks({ projectRoot, status: "active" });
+  const waiters = await store.listLockWaiters({ projectRoot, status: "waiting" });
+  const tasks = await store.listTasks({ projectRoot });
+  const edges = buildWaitForGraph({ locks, waiters, tasks });
+  const deadlocks = findDeadlocks(edges);
+
+  for (const deadlock of deadlocks) {
+    const key = `${projectRoot}:${deadlock.edges.map(describeWaitForEdge).sort().join(";")}`;
+    if (reportedDeadlocks.has(key)) continue;
+    reportedDeadlocks.add(key);
+    await store.appendNote({
+      text: `[SYSTEM] DEADLOCK detected between ${deadlock.agents.join(", ")}: ${deadlock.edges.map(describeWaitForEdge).join("; ")}. One of them must release its locks (lock_release) or give up the task to break the cycle.`,
+      author: "system",
+      projectRoot,
+    });
+  }
+
+  return { edges, deadlocks };
+}
+
+/**
+ * Collapse the holders of each active shared lock into one entry for display
+ */
+function groupLockHolders(locks: Lock[]) {
+  const groups = new Map<string, Lock[]>();
+  const entries: Array<Lock | { path: string; projectRoot?: string; mode: "shared"; status: "active"; holders: Lock[] }> = [];
+  for (const lock of locks) {
+    if (lock.mode !== "shared" || lock.status !== "active") {
+      entries.push(lock);
+      continue;
+    }
+    const holders = groups.get(lock.path);
+    if (holders) {
+      holders.push(lock);
+    } else {
+      const group = [lock];
+      groups.set(lock.path, group);
+      entries.push({ path: lock.path, projectRoot: lock.projectRoot, mode: "shared", status: "active", holders: group });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Post the "all tasks complete" note once a project has no open work left
+ */
+async function notifyIfAllTasksComplete(projectRoot?: string) {
+  const todoTasks = await store.listTasks({ status: "todo", projectRoot });
+  const inProgressTasks = await store.listTasks({ status: "in_progress", projectRoot });
+  const reviewTasks = await store.listTasks({ status: "review", projectRoot });
+  if (todoTasks.length === 0 && inProgressTasks.length === 0 && reviewTasks.length === 0) {
+    await store.appendNote({
+      text: "[SYSTEM] ALL TASKS COMPLETE! Planner: review the work and call project_status_set({ status: 'complete' }) if satisfied, or create more tasks.",
+      author: "system",
+      projectRoot,
+    });
+  }
+}
+
+// Instructions returned with a claimed task, by complexity
+const COMPLEXITY_INSTRUCTIONS: Record<string, string> = {
+  simple: "Simple task - implement and mark done directly.",
+  medium: "Medium task - implement carefully, submit_for_review when complete.",
+  complex: "Complex task - discuss approach first if unclear, get planner approval via submit_for_review.",
+  critical: "CRITICAL task - discuss approach with planner BEFORE starting, get approval at each step."
+};
+
 const tools = [
   {
     name: "status_get",
     description: "Get coordinator config and state summary",
     inputSchema: {
       type: "object",
-      properties: {},
+      properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
+      },
       additionalProperties: false,
     },
   },
@@ -204,14 +449,19 @@ const tools = [
     inputSchema: {
       type: "object",
       properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
         title: { type: "string" },
         description: { type: "string" },
         status: { type: "string", enum: ["todo", "in_progress", "blocked", "review", "done"] },
         complexity: { type: "string", enum: ["simple", "medium", "complex", "critical"], description: "simple=1-2 files obvious fix, medium=3-5 files some ambiguity, complex=6+ files architectural decisions, critical=database/security/cross-product" },
         isolation: { type: "string", enum: ["shared", "worktree"], description: "shared=work in main directory with locks, worktree=isolated git worktree with branch. Default: shared for simple/medium, consider worktree for complex/critical." },
+        priority: { type: "string", enum: ["P0", "P1", "P2", "P3"], description: "P0=most urgent ... P3=least urgent (default: P2)" },
+        dueAt: { type: "string", description: "Optional deadline (ISO date). Earlier deadlines are claimed first within a priority." },
         owner: { type: "string" },
         tags: { type: "array", items: { type: "string" } },
         metadata: { type: "object" },
+        dependsOn: { type: "array", items: { type: "string" }, description: "IDs of tasks in the same project that must be done first. Tasks with unfinished dependencies start as 'blocked' and move to 'todo' automatically." },
+        actor: { type: "string", description: "Who is making the change (recorded in the task history)" },
       },
       required: ["title", "complexity"],
       additionalProperties: false,
@@ -219,7 +469,7 @@ const tools = [
   },
   {
     name: "task_claim",
-    description: "Claim a task and set status to in_progress",
+    description: "Claim a task and set status to in_progress. Only succeeds if the task is still todo and unowned (or assigned to you), and fails if any of its dependencies are not done.",
     inputSchema: {
       type: "object",
       properties: {
@@ -230,6 +480,21 @@ const tools = [
       additionalProperties: false,
     },
   },
+  {
+    name: "task_next",
+    description: "Atomically pick and claim the best task for an implementer: the highest-priority unowned todo task with its dependencies done, preferring tasks that match the implementer's isolation and type, then the earliest due date. Use this instead of task_list + task_claim.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        owner: { type: "string", description: "Your implementer name" },
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
+        isolation: { type: "string", enum: ["shared", "worktree"], description: "Override the implementer's isolation mode" },
+        type: { type: "string", description: "Override the implementer's agent type (matched against a task's metadata.implementerType)" },
+      },
+      required: ["owner"],
+      additionalProperties: false,
+    },
+  },
   {
     name: "task_update",
     description: "Update a task",
@@ -241,9 +506,14 @@ const tools = [
         description: { type: "string" },
         status: { type: "string", enum: ["todo", "in_progress", "blocked", "review", "done"] },
         complexity: { type: "string", enum: ["simple", "medium", "complex", "critical"] },
+        priority: { type: "string", enum: ["P0", "P1", "P2", "P3"], description: "P0=most urgent ... P3=least urgent (default: P2)" },
+        dueAt: { type: "string", description: "Deadline (ISO date); empty string clears it" },
         owner: { type: "string" },
         tags: { type: "array", items: { type: "string" } },
         metadata: { type: "object" },
+        dependsOn: { type: "array", items: { type: "string" }, description: "Replace the task's dependency list (IDs of prerequisite tasks in the same project)" },
+        expectedVersion: { type: "number", description: "The task version you last read; the update is rejected if someone changed the task since" },
+        actor: { type: "string", description: "Who is making the change (recorded in the task history)" },
       },
       required: ["id"],
       additionalProperties: false,
@@ -271,6 +541,7 @@ const tools = [
       properties: {
         id: { type: "string", description: "Task ID" },
         feedback: { type: "string", description: "Optional feedback or notes on the approved work" },
+        actor: { type: "string", description: "Who is making the change (recorded in the task history)" },
       },
       required: ["id"],
       additionalProperties: false,
@@ -284,6 +555,7 @@ const tools = [
       properties: {
         id: { type: "string", description: "Task ID" },
         feedback: { type: "string", description: "What needs to be changed or fixed" },
+        actor: { type: "string", description: "Who is making the change (recorded in the task history)" },
       },
       required: ["id", "feedback"],
       additionalProperties: false,
@@ -297,17 +569,44 @@ const tools = [
       properties: {
         ids: { type: "array", items: { type: "string" }, description: "Array of task IDs to approve" },
         feedback: { type: "string", description: "Optional feedback for all approved tasks" },
+        actor: { type: "string", description: "Who is making the change (recorded in the task history)" },
       },
       required: ["ids"],
       additionalProperties: false,
     },
   },
+  {
+    name: "task_history",
+    description: "Get the audit trail of a task: every status, owner and field change with who made it and when, including each round of review notes and feedback",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Task ID" },
+      },
+      required: ["id"],
+      additionalProperties: false,
+    },
+  },
   {
     name: "task_summary",
     description: "Get task counts by status. Lighter than task_list - use when you just need to know how many tasks are in each state.",
     inputSchema: {
       type: "object",
-      properties: {},
+      properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "task_graph",
+    description: "Get the task dependency graph (nodes and edges), the tasks ready to claim, and the critical path of unfinished work. Use this to sequence work and decide what to launch next.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
+        includeDone: { type: "boolean", description: "Include done tasks as nodes (default: true)" },
+      },
       additionalProperties: false,
     },
   },
@@ -317,6 +616,7 @@ const tools = [
     inputSchema: {
       type: "object",
       properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
         status: { type: "string", enum: ["todo", "in_progress", "blocked", "review", "done"] },
         owner: { type: "string" },
         tag: { type: "string" },
@@ -329,13 +629,56 @@ const tools = [
   },
   {
     name: "lock_acquire",
-    description: "Acquire a named lock",
+    description: "Acquire a lock on a file, a directory (trailing '/') or a glob ('src/api/**', 'src/*.ts'). Fails if it overlaps an active lock (unless both are shared), naming that lock and its owner. Pass ttlSeconds to take a lease that expires unless renewed with lock_renew, so a crashed agent cannot hold the file forever.",
     inputSchema: {
       type: "object",
       properties: {
-        path: { type: "string" },
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
+        path: { type: "string", description: "File path, directory ending in '/', or glob pattern. Paths inside the project root are stored relative to it." },
         owner: { type: "string" },
         note: { type: "string" },
+        mode: { type: "string", enum: ["shared", "exclusive"], description: "shared=read lock, any number of holders; exclusive=write lock, no other holders (default: exclusive)" },
+        wait: { type: "boolean", description: "If the lock is taken, join the FIFO wait queue and block until it is handed over" },
+        timeoutMs: { type: "number", description: "How long to wait when wait=true before giving up (default: 30000)" },
+        ttlSeconds: { type: "number", description: "Lease length in seconds. Expired locks are released automatically. Omit for a lock that never expires." },
+      },
+      required: ["path"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "lock_queue",
+    description: "Show who is waiting for locks, with queue position, the holders they are waiting on and the estimated wait",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
+        path: { type: "string", description: "Only show waiters for this path" },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "lock_deadlocks",
+    description: "Detect deadlocks: builds a wait-for graph between agents from active locks, queued lock requests and task dependencies, and reports any cycles. New deadlocks are also announced as [SYSTEM] notes.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "lock_renew",
+    description: "Heartbeat for a leased lock: extend it by its TTL (or a new ttlSeconds). Call well before expiresAt while still editing.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
+        path: { type: "string" },
+        owner: { type: "string" },
+        ttlSeconds: { type: "number", description: "New lease length in seconds (defaults to the lock's current TTL)" },
       },
       required: ["path"],
       additionalProperties: false,
@@ -347,6 +690,7 @@ const tools = [
     inputSchema: {
       type: "object",
       properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
         path: { type: "string" },
         owner: { type: "string" },
       },
@@ -356,10 +700,11 @@ const tools = [
   },
   {
     name: "lock_list",
-    description: "List locks with optional filters",
+    description: "List locks with optional filters. Holders of the same active shared lock are grouped under one entry.",
     inputSchema: {
       type: "object",
       properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
         status: { type: "string", enum: ["active", "resolved"] },
         owner: { type: "string" },
       },
@@ -372,6 +717,7 @@ const tools = [
     inputSchema: {
       type: "object",
       properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
         text: { type: "string" },
         author: { type: "string" },
       },
@@ -385,6 +731,7 @@ const tools = [
     inputSchema: {
       type: "object",
       properties: {
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
         limit: { type: "number" },
       },
       additionalProperties: false,
@@ -407,15 +754,17 @@ const tools = [
   },
   {
     name: "artifact_write",
-    description: "Write an artifact file",
+    description: "Write an artifact file. When lock enforcement is enabled, owner must hold an exclusive lock covering the path.",
     inputSchema: {
       type: "object",
       properties: {
-        path: { type: "string" },
+        path: { type: "string", description: "File path; relative paths are relative to projectRoot" },
         content: { type: "string" },
         encoding: { type: "string" },
         mode: { type: "string", enum: ["overwrite", "append"] },
         createDirs: { type: "boolean" },
+        owner: { type: "string", description: "Your agent name, checked against the lock holders" },
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
       },
       required: ["path", "content"],
       additionalProperties: false,
@@ -438,15 +787,17 @@ const tools = [
   },
   {
     name: "file_write",
-    description: "Write a file",
+    description: "Write a file. When lock enforcement is enabled, owner must hold an exclusive lock covering the path.",
     inputSchema: {
       type: "object",
       properties: {
-        path: { type: "string" },
+        path: { type: "string", description: "File path; relative paths are relative to projectRoot" },
         content: { type: "string" },
         encoding: { type: "string" },
         mode: { type: "string", enum: ["overwrite", "append"] },
         createDirs: { type: "boolean" },
+        owner: { type: "string", description: "Your agent name, checked against the lock holders" },
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
       },
       required: ["path", "content"],
       additionalProperties: false,
@@ -499,11 +850,12 @@ const tools = [
   },
   {
     name: "coordination_init",
-    description: "Initialize coordination session. Call this first to set up your role (planner or implementer). Returns guidance based on your role and current project state.",
+    description: "Initialize coordination session. Call this first to set up your role (planner or implementer). Binds this session to a name and role: planner-only tools are refused to implementers, and implementers may only act as themselves (owner/author). Returns guidance based on your role and current project state.",
     inputSchema: {
       type: "object",
       properties: {
         role: { type: "string", enum: ["planner", "implementer"] },
+        name: { type: "string", description: "Your agent name, e.g. impl-1 (defaults to the name given when connecting, 'planner' for planners, or the next free impl-N)" },
         projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
       },
       required: ["role"],
@@ -524,7 +876,7 @@ const tools = [
         acceptanceCriteria: { type: "array", items: { type: "string" }, description: "Acceptance criteria that must be met" },
         tests: { type: "array", items: { type: "string" }, description: "Tests that should pass when complete" },
         implementationPlan: { type: "array", items: { type: "string" }, description: "High-level implementation steps/phases" },
-        preferredImplementer: { type: "string", enum: ["claude", "codex"], description: "Which agent type to use for implementers" },
+        preferredImplementer: { type: "string", description: `Which agent profile to use for implementers: ${agentTypeNames().join(", ")}` },
         status: { type: "string", enum: ["planning", "ready", "in_progress", "complete", "stopped"], description: "Project status" },
       },
       required: ["description", "endState"],
@@ -557,11 +909,11 @@ const tools = [
   },
   {
     name: "launch_implementer",
-    description: "Launch a new implementer agent (Claude or Codex) in a new terminal window. The planner uses this to spawn workers. Set isolation='worktree' to give the implementer its own git worktree for isolated changes.",
+    description: `Launch a new implementer agent (${agentTypeNames().join(", ")}) in ${describeLauncher(config.launcher)}. The planner uses this to spawn workers. Set isolation='worktree' to give the implementer its own git worktree for isolated changes.`,
     inputSchema: {
       type: "object",
       properties: {
-        type: { type: "string", enum: ["claude", "codex"], description: "Type of agent to launch" },
+        type: { type: "string", description: `Agent profile to launch: ${agentTypeNames().join(", ")} (profiles are defined under "agents" in the user config file or .lockstep.json)` },
         name: { type: "string", description: "Name for this implementer (e.g., 'impl-1'). If not provided, auto-generates as 'impl-N'" },
         projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
         isolation: { type: "string", enum: ["shared", "worktree"], description: "shared=work in main directory, worktree=create isolated git worktree. Default: shared" },
@@ -581,6 +933,19 @@ const tools = [
       additionalProperties: false,
     },
   },
+  {
+    name: "implementer_heartbeat",
+    description: "IMPLEMENTER: Report that you are still alive. Call this every loop iteration. Implementers that miss heartbeats for longer than the configured timeout are marked stopped, their in_progress tasks go back to todo and their locks are released.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Your implementer name" },
+        projectRoot: { type: "string", description: "Project root path (defaults to first configured root)" },
+      },
+      required: ["name"],
+      additionalProperties: false,
+    },
+  },
   {
     name: "implementer_reset",
     description: "Reset all implementers to 'stopped' status. Use this when starting a fresh session or when implementers are stale/not actually running.",
@@ -594,7 +959,7 @@ const tools = [
   },
   {
     name: "session_reset",
-    description: "PLANNER ONLY: Reset the coordination session for a fresh start. Clears all tasks, locks, notes, and archives discussions. Use this when starting a new project or when data from previous sessions is cluttering the dashboard.",
+    description: "PLANNER ONLY: Reset the coordination session for a fresh start. Clears all tasks, locks, notes, and archives discussions. A snapshot of the current state is taken first, so the reset can be undone with session_restore. Use this when starting a new project or when data from previous sessions is cluttering the dashboard.",
     inputSchema: {
       type: "object",
       properties: {
@@ -606,6 +971,57 @@ const tools = [
       additionalProperties: false,
     },
   },
+  {
+    name: "session_snapshot",
+    description: "Save a named point-in-time copy of the project's coordination state (project context, tasks, locks, notes, implementers, discussions). Restore it later with session_restore.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: { type: "string", description: "Project root (defaults to first configured root)" },
+        name: { type: "string", description: "Name for the snapshot, e.g. 'before refactor'" },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "session_snapshot_list",
+    description: "List the project's snapshots, newest first, including those taken automatically before resets and restores.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: { type: "string", description: "Project root (defaults to first configured root)" },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "session_restore",
+    description: "PLANNER ONLY: Replace the project's coordination state with a snapshot. The current state is snapshotted first. Restored implementers come back stopped.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: { type: "string", description: "Project root (defaults to first configured root)" },
+        snapshot: { type: "string", description: "Snapshot id, or name (the newest snapshot with that name is used)" },
+        confirm: { type: "boolean", description: "Must be true to confirm the restore" },
+      },
+      required: ["snapshot", "confirm"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "session_snapshot_prune",
+    description: "PLANNER ONLY: Delete old snapshots: specific ids, those older than a number of days, and/or all but the newest few.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectRoot: { type: "string", description: "Project root (defaults to first configured root)" },
+        ids: { type: "array", items: { type: "string" }, description: "Snapshot ids to delete" },
+        olderThanDays: { type: "number", description: "Delete snapshots older than this many days" },
+        keep: { type: "number", description: "Keep only this many of the newest snapshots" },
+      },
+      additionalProperties: false,
+    },
+  },
   {
     name: "dashboard_open",
     description: "Open the lockstep dashboard in a browser. Call this to monitor progress visually.",
@@ -783,22 +1199,54 @@ const tools = [
   },
 ];
 
-const server = new Server(
-  { name: config.serverName, version: config.serverVersion },
-  { capabilities: { tools: {} } }
-);
+// Connected sessions, keyed by session ID
+const sessions = new Map<string, Session>();
 
-server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
+function describeSession(session: Session) {
+  const { id, transport, agent, client, role, connectedAt } = session;
+  return { id, transport, agent: agent ?? null, client: client ?? null, role: role ?? null, connectedAt };
+}
+
+async function openSession(session: Session) {
+  sessions.set(session.id, session);
+  await store.appendLogEntry("session_open", { session: describeSession(session) });
+}
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function closeSession(session: Session) {
+  if (!sessions.delete(session.id)) return;
+  await store.appendLogEntry("session_close", { session: describeSession(session) });
+}
+
+async function callTool(request: CallToolRequest, session: Session) {
+  const { name } = request.params;
+  const args = { ...request.params.arguments } as Record<string, unknown>;
+  let warning: string | undefined;
   try {
-    const { name, arguments: rawArgs } = request.params;
-    const args = (rawArgs ?? {}) as Record<string, unknown>;
+    warning = await checkAccess(name, args, session);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return errorResponse(message);
+  }
+  const busy = name === "implementer_heartbeat"
+    ? undefined
+    : callerImplementer(args, { name: session.agent, role: session.role });
+  if (busy) {
+    await recordActivity(busy, getString(args.projectRoot) ?? config.roots[0] ?? process.cwd());
+  }
+  const result = await runTool(name, args, session);
+  if (warning) result.content.push({ type: "text", text: `Warning: ${warning}` });
+  return result;
+}
 
+async function runTool(name: string, args: Record<string, unknown>, session: Session) {
+  try {
     switch (name) {
       case "status_get": {
-        const state = await store.status();
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const state = await store.status(projectRoot);
         return jsonResponse({
+          session: describeSession(session),
+          sessions: Array.from(sessions.values()).map(describeSession),
           config: {
             mode: config.mode,
             roots: config.roots,
@@ -807,8 +1255,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             storage: config.storage,
             dbPath: config.dbPath,
             command: config.command,
+            lockEnforcement: config.lockEnforcement,
+            roleEnforcement: config.roleEnforcement,
+            permissions: config.permissions,
+            heartbeatTimeoutSeconds: config.heartbeatTimeoutSeconds,
+            launcher: config.launcher,
           },
+          configFiles: describeConfig(config).files,
+          configSources: config.sources,
           stateSummary: {
+            projectRoot,
             tasks: state.tasks.length,
             locks: state.locks.length,
             notes: state.notes.length,
@@ -822,14 +1278,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (!complexity) throw new Error("complexity is required (simple/medium/complex/critical)");
         const isolation = getString(args.isolation) as "shared" | "worktree" | undefined;
         const task = await store.createTask({
+          projectRoot: getString(args.projectRoot) ?? config.roots[0] ?? process.cwd(),
           title,
           description: getString(args.description),
           status: getString(args.status) as "todo" | "in_progress" | "blocked" | "review" | "done" | undefined,
           complexity,
           isolation: isolation ?? "shared",
+          priority: getString(args.priority) as "P0" | "P1" | "P2" | "P3" | undefined,
+          dueAt: getString(args.dueAt),
           owner: getString(args.owner),
           tags: getStringArray(args.tags),
           metadata: getObject(args.metadata),
+          dependsOn: getStringArray(args.dependsOn),
+          actor: getString(args.actor),
         });
         return jsonResponse(task);
       }
@@ -840,16 +1301,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const task = await store.claimTask({ id, owner });
 
         // Return complexity-based instructions
-        const complexityInstructions: Record<string, string> = {
-          simple: "Simple task - implement and mark done directly.",
-          medium: "Medium task - implement carefully, submit_for_review when complete.",
-          complex: "Complex task - discuss approach first if unclear, get planner approval via submit_for_review.",
-          critical: "CRITICAL task - discuss approach with planner BEFORE starting, get approval at each step."
-        };
-
         return jsonResponse({
           ...task,
-          _instruction: complexityInstructions[task.complexity] ?? complexityInstructions.medium
+          _instruction: COMPLEXITY_INSTRUCTIONS[task.complexity] ?? COMPLEXITY_INSTRUCTIONS.medium
+        });
+      }
+      case "task_next": {
+        const owner = getString(args.owner);
+        if (!owner) throw new Error("owner is required");
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        await reclaimStaleImplementers(projectRoot);
+        const implementer = (await store.listImplementers(projectRoot)).find((impl) => impl.name === owner);
+        const task = await store.claimNextTask({
+          owner,
+          projectRoot,
+          isolation: (getString(args.isolation) as "shared" | "worktree" | undefined) ?? implementer?.isolation,
+          type: getString(args.type) ?? implementer?.type,
+        });
+        if (!task) {
+          return jsonResponse({
+            task: null,
+            _hint: "No eligible tasks: nothing is todo, unowned and unblocked. Check task_list for review feedback or wait for blocked tasks."
+          });
+        }
+        return jsonResponse({
+          ...task,
+          _instruction: COMPLEXITY_INSTRUCTIONS[task.complexity] ?? COMPLEXITY_INSTRUCTIONS.medium
         });
       }
       case "task_update": {
@@ -862,23 +1339,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           description: getString(args.description),
           status: newStatus,
           complexity: getString(args.complexity) as "simple" | "medium" | "complex" | "critical" | undefined,
+          priority: getString(args.priority) as "P0" | "P1" | "P2" | "P3" | undefined,
+          dueAt: getString(args.dueAt),
           owner: getString(args.owner),
           tags: getStringArray(args.tags),
           metadata: getObject(args.metadata),
+          dependsOn: getStringArray(args.dependsOn),
+          actor: getString(args.actor),
+          expectedVersion: getNumber(args.expectedVersion),
         });
 
         // Check if all tasks are now complete
         if (newStatus === "done") {
-          const todoTasks = await store.listTasks({ status: "todo" });
-          const inProgressTasks = await store.listTasks({ status: "in_progress" });
-          const reviewTasks = await store.listTasks({ status: "review" });
-          if (todoTasks.length === 0 && inProgressTasks.length === 0 && reviewTasks.length === 0) {
-            // All tasks complete - notify planner
-            await store.appendNote({
-              text: "[SYSTEM] ALL TASKS COMPLETE! Planner: review the work and call project_status_set({ status: 'complete' }) if satisfied, or create more tasks.",
-              author: "system"
-            });
-          }
+          await notifyIfAllTasksComplete(task.projectRoot);
         }
 
         return jsonResponse(task);
@@ -895,7 +1368,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         // Notify planner
         await store.appendNote({
           text: `[REVIEW] Task "${task.title}" submitted for review by ${owner}. Planner: use task_approve or task_request_changes.`,
-          author: "system"
+          author: "system",
+          projectRoot: task.projectRoot,
         });
 
         return jsonResponse({
@@ -907,24 +1381,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const id = getString(args.id);
         if (!id) throw new Error("id is required");
         const feedback = getString(args.feedback);
-        const task = await store.approveTask({ id, feedback });
+        const task = await store.approveTask({ id, feedback, actor: session.agent ?? "planner" });
 
         // Notify implementer
         await store.appendNote({
           text: `[APPROVED] Task "${task.title}" approved by planner.${feedback ? ` Feedback: ${feedback}` : ""}`,
-          author: "system"
+          author: "system",
+          projectRoot: task.projectRoot,
         });
 
         // Check if all tasks are now complete
-        const todoTasks = await store.listTasks({ status: "todo" });
-        const inProgressTasks = await store.listTasks({ status: "in_progress" });
-        const reviewTasks = await store.listTasks({ status: "review" });
-        if (todoTasks.length === 0 && inProgressTasks.length === 0 && reviewTasks.length === 0) {
-          await store.appendNote({
-            text: "[SYSTEM] ALL TASKS COMPLETE! Planner: review the work and call project_status_set({ status: 'complete' }) if satisfied, or create more tasks.",
-            author: "system"
-          });
-        }
+        await notifyIfAllTasksComplete(task.projectRoot);
 
         return jsonResponse(task);
       }
@@ -932,12 +1399,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const id = getString(args.id);
         const feedback = getString(args.feedback);
         if (!id || !feedback) throw new Error("id and feedback are required");
-        const task = await store.requestTaskChanges({ id, feedback });
+        const task = await store.requestTaskChanges({ id, feedback, actor: session.agent ?? "planner" });
 
         // Notify implementer
         await store.appendNote({
           text: `[CHANGES REQUESTED] Task "${task.title}" needs changes: ${feedback}`,
-          author: "system"
+          author: "system",
+          projectRoot: task.projectRoot,
         });
 
         return jsonResponse({
@@ -949,18 +1417,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const ids = getStringArray(args.ids);
         if (!ids || ids.length === 0) throw new Error("ids array is required and must not be empty");
         const feedback = getString(args.feedback);
+        const actor = session.agent ?? "planner";
 
         const results: Array<{ id: string; success: boolean; title?: string; error?: string }> = [];
+        const approvedRoots = new Set<string | undefined>();
 
         for (const id of ids) {
           try {
-            const task = await store.approveTask({ id, feedback });
+            const task = await store.approveTask({ id, feedback, actor });
             results.push({ id, success: true, title: task.title });
+            approvedRoots.add(task.projectRoot);
 
             // Notify for each task
             await store.appendNote({
               text: `[APPROVED] Task "${task.title}" approved by planner.${feedback ? ` Feedback: ${feedback}` : ""}`,
-              author: "system"
+              author: "system",
+              projectRoot: task.projectRoot,
             });
           } catch (error) {
             const message = error instanceof Error ? error.message : "Unknown error";
@@ -968,15 +1440,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }
         }
 
-        // Check if all tasks are now complete
-        const todoTasks = await store.listTasks({ status: "todo" });
-        const inProgressTasks = await store.listTasks({ status: "in_progress" });
-        const reviewTasks = await store.listTasks({ status: "review" });
-        if (todoTasks.length === 0 && inProgressTasks.length === 0 && reviewTasks.length === 0) {
-          await store.appendNote({
-            text: "[SYSTEM] ALL TASKS COMPLETE! Planner: review the work and call project_status_set({ status: 'complete' }) if satisfied, or create more tasks.",
-            author: "system"
-          });
+        // Check if all tasks are now complete in each affected project
+        for (const projectRoot of approvedRoots) {
+          await notifyIfAllTasksComplete(projectRoot);
         }
 
         const successCount = results.filter(r => r.success).length;
@@ -990,8 +1456,24 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             : `Approved ${successCount}/${ids.length} tasks. Check results for failures.`
         });
       }
+      case "task_history": {
+        const id = getString(args.id);
+        if (!id) throw new Error("id is required");
+        const task = (await store.listTasks()).find((item) => item.id === id);
+        if (!task) throw new Error(`Task not found: ${id}`);
+        const events = await store.listTaskEvents({ taskId: id });
+        const reviewRounds = events.filter((event) => event.type === "review_feedback").length;
+        return jsonResponse({
+          task: { id: task.id, title: task.title, status: task.status, owner: task.owner },
+          events,
+          _hint: reviewRounds > 1
+            ? `Task has been through ${reviewRounds} review rounds; earlier feedback is in the review_feedback events.`
+            : undefined
+        });
+      }
       case "task_summary": {
-        const allTasks = await store.listTasks({});
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const allTasks = await store.listTasks({ projectRoot });
         const summary = {
           total: allTasks.length,
           todo: allTasks.filter(t => t.status === "todo").length,
@@ -1007,7 +1489,6 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           : 0;
 
         // Get project status
-        const projectRoot = config.roots[0] ?? process.cwd();
         const context = await store.getProjectContext(projectRoot);
 
         return jsonResponse({
@@ -1021,13 +1502,37 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               : undefined
         });
       }
+      case "task_graph": {
+        const includeDone = getBoolean(args.includeDone) ?? true;
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const graph = buildTaskGraph(await store.listTasks({ projectRoot }));
+        const nodes = includeDone ? graph.nodes : graph.nodes.filter(n => n.status !== "done");
+        const nodeIds = new Set(nodes.map(n => n.id));
+        const titles = new Map(graph.nodes.map(n => [n.id, n.title]));
+        return jsonResponse({
+          nodes,
+          edges: graph.edges.filter(e => nodeIds.has(e.from) && nodeIds.has(e.to)),
+          ready: graph.ready,
+          blocked: graph.nodes.filter(n => n.status === "blocked").map(n => n.id),
+          criticalPath: {
+            ...graph.criticalPath,
+            titles: graph.criticalPath.taskIds.map(id => titles.get(id)),
+          },
+          _hint: graph.criticalPath.taskIds.length > 0
+            ? `Critical path has ${graph.criticalPath.taskIds.length} unfinished task(s). Prioritize "${titles.get(graph.criticalPath.taskIds[0])}".`
+            : undefined
+        });
+      }
       case "task_list": {
         const statusFilter = getString(args.status) as "todo" | "in_progress" | "blocked" | "review" | "done" | undefined;
         const includeDone = getBoolean(args.includeDone) ?? false;
         const offset = getNumber(args.offset) ?? 0;
         const limit = getNumber(args.limit);
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        await reclaimStaleImplementers(projectRoot);
 
         let tasks = await store.listTasks({
+          projectRoot,
           status: statusFilter,
           owner: getString(args.owner),
           tag: getString(args.tag),
@@ -1049,11 +1554,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         // Include project status so implementers can check if they should stop
-        const projectRoot = config.roots[0] ?? process.cwd();
         const context = await store.getProjectContext(projectRoot);
 
         // Get counts for summary
-        const allTasks = await store.listTasks({});
+        const allTasks = await store.listTasks({ projectRoot });
         const doneTasks = allTasks.filter(t => t.status === "done").length;
 
         return jsonResponse({
@@ -1071,34 +1575,99 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case "lock_acquire": {
         const pathValue = getString(args.path);
         if (!pathValue) throw new Error("path is required");
-        const lock = await store.acquireLock({
-          path: pathValue,
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const request = {
+          path: normalizeLockPath(pathValue, projectRoot),
           owner: getString(args.owner),
           note: getString(args.note),
+          projectRoot,
+          mode: getString(args.mode) as "shared" | "exclusive" | undefined,
+          ttlSeconds: getNumber(args.ttlSeconds),
+        };
+        if (getBoolean(args.wait)) {
+          const lock = await store.waitForLock({
+            ...request,
+            timeoutMs: getNumber(args.timeoutMs),
+            // Joining the queue is what closes a lock cycle, so check right away
+            onQueued: async () => { await detectDeadlocks(projectRoot); },
+          });
+          return jsonResponse(lock);
+        }
+        const lock = await store.acquireLock(request);
+        return jsonResponse(lock);
+      }
+      case "lock_deadlocks": {
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const { edges, deadlocks } = await detectDeadlocks(projectRoot);
+        return jsonResponse({
+          deadlocks,
+          waitFor: edges,
+          _hint: deadlocks.length > 0
+            ? `${deadlocks.length} deadlock(s) found. An agent in each cycle must release a lock or drop its wait to break it.`
+            : undefined
+        });
+      }
+      case "lock_queue": {
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const pathValue = getString(args.path);
+        const waiters = await store.listLockWaiters({ projectRoot, status: "waiting" });
+        const locks = await store.listLocks({ projectRoot });
+        let queue = describeLockQueue(waiters, locks);
+        if (pathValue) {
+          const normalized = normalizeLockPath(pathValue, projectRoot);
+          queue = queue.filter(entry => entry.path === normalized);
+        }
+        return jsonResponse({
+          queue,
+          total: queue.length,
+        });
+      }
+      case "lock_renew": {
+        const pathValue = getString(args.path);
+        if (!pathValue) throw new Error("path is required");
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const lock = await store.renewLock({
+          path: normalizeLockPath(pathValue, projectRoot),
+          owner: getString(args.owner),
+          projectRoot,
+          ttlSeconds: getNumber(args.ttlSeconds),
         });
         return jsonResponse(lock);
       }
       case "lock_release": {
         const pathValue = getString(args.path);
         if (!pathValue) throw new Error("path is required");
-        const lock = await store.releaseLock({ path: pathValue, owner: getString(args.owner) });
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const lock = await store.releaseLock({
+          path: normalizeLockPath(pathValue, projectRoot),
+          owner: getString(args.owner),
+          projectRoot,
+        });
         return jsonResponse(lock);
       }
       case "lock_list": {
         const locks = await store.listLocks({
           status: getString(args.status) as "active" | "resolved" | undefined,
           owner: getString(args.owner),
+          projectRoot: getString(args.projectRoot) ?? config.roots[0] ?? process.cwd(),
         });
-        return jsonResponse(locks);
+        return jsonResponse(groupLockHolders(locks));
       }
       case "note_append": {
         const text = getString(args.text);
         if (!text) throw new Error("text is required");
-        const note = await store.appendNote({ text, author: getString(args.author) });
+        const note = await store.appendNote({
+          text,
+          author: getString(args.author),
+          projectRoot: getString(args.projectRoot) ?? config.roots[0] ?? process.cwd(),
+        });
         return jsonResponse(note);
       }
       case "note_list": {
-        const notes = await store.listNotes(getNumber(args.limit));
+        const notes = await store.listNotes(
+          getNumber(args.limit),
+          getString(args.projectRoot) ?? config.roots[0] ?? process.cwd()
+        );
         return jsonResponse(notes);
       }
       case "artifact_read": {
@@ -1115,12 +1684,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const filePath = getString(args.path);
         const content = getString(args.content);
         if (!filePath || content === undefined) throw new Error("path and content are required");
-        const result = await writeFileSafe(filePath, content, {
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const target = resolveProjectPath(filePath, projectRoot);
+        const warning = await checkWriteLock("artifact_write", target, getString(args.owner), projectRoot);
+        const result = await writeFileSafe(target, content, {
           encoding: getString(args.encoding) as BufferEncoding | undefined,
           mode: getString(args.mode) as "overwrite" | "append" | undefined,
           createDirs: getBoolean(args.createDirs),
         });
-        return jsonResponse(result);
+        return jsonResponse(warning ? { ...result, _warning: warning } : result);
       }
       case "file_read": {
         const filePath = getString(args.path);
@@ -1136,12 +1708,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const filePath = getString(args.path);
         const content = getString(args.content);
         if (!filePath || content === undefined) throw new Error("path and content are required");
-        const result = await writeFileSafe(filePath, content, {
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const target = resolveProjectPath(filePath, projectRoot);
+        const warning = await checkWriteLock("file_write", target, getString(args.owner), projectRoot);
+        const result = await writeFileSafe(target, content, {
           encoding: getString(args.encoding) as BufferEncoding | undefined,
           mode: getString(args.mode) as "overwrite" | "append" | undefined,
           createDirs: getBoolean(args.createDirs),
         });
-        return jsonResponse(result);
+        return jsonResponse(warning ? { ...result, _warning: warning } : result);
       }
       case "command_run": {
         const command = getString(args.command);
@@ -1178,16 +1753,24 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error("role must be 'planner' or 'implementer'");
         }
         const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+
+        // Bind the session to a name and role; checkAccess has already reported any change of identity
+        const requestedName = getString(args.name);
+        session.role = role;
+        session.agent = requestedName ?? session.agent ??
+          (role === "planner" ? "planner" : nextImplementerName(await store.listImplementers(projectRoot)));
+        const identity = { name: session.agent, role, sessionId: session.id };
         const context = await store.getProjectContext(projectRoot);
-        const tasks = await store.listTasks({ status: "todo" });
-        const inProgressTasks = await store.listTasks({ status: "in_progress" });
-        const doneTasks = await store.listTasks({ status: "done" });
+        const tasks = await store.listTasks({ status: "todo", projectRoot });
+        const inProgressTasks = await store.listTasks({ status: "in_progress", projectRoot });
+        const doneTasks = await store.listTasks({ status: "done", projectRoot });
 
         if (role === "planner") {
           // Phase 1: No project context - need to gather information
           if (!context) {
             return jsonResponse({
               role: "planner",
+              identity,
               status: "needs_context",
               phase: "gather_info",
               message: "No project context found. Follow these steps IN ORDER:",
@@ -1199,7 +1782,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 "   - What is the desired END STATE? (What does 'done' look like?)",
                 "   - What are your ACCEPTANCE CRITERIA?",
                 "   - Any CONSTRAINTS I should know about?",
-                "   - Should I use CLAUDE or CODEX as implementer?",
+                `   - Which agent should I use as implementer (${agentTypeNames().join(", ")})?`,
                 "5. ONLY AFTER user answers: Call project_context_set"
               ],
               instruction: `CRITICAL: You MUST ask the user these questions and WAIT for their answers before proceeding.
@@ -1214,7 +1797,7 @@ Step 3: ⛔ STOP AND ASK - These questions are MANDATORY (do not skip or infer):
    1. What is the END STATE you want? What does 'done' look like?
    2. What are your ACCEPTANCE CRITERIA? How will we know it's complete?
    3. Are there any CONSTRAINTS or things I should avoid?
-   4. Should I use CLAUDE or CODEX as the implementer?"
+   4. Which agent should I use as the implementer (${agentTypeNames().join(", ")})?"
 
 Step 4: WAIT for the user to answer
 
@@ -1228,6 +1811,7 @@ DO NOT skip the questions. DO NOT infer the answers. The user must explicitly te
           if (!context.implementationPlan?.length) {
             return jsonResponse({
               role: "planner",
+              identity,
               status: "needs_plan",
               phase: "create_plan",
               projectContext: context,
@@ -1260,6 +1844,7 @@ DO NOT proceed to implementation without explicit user approval.`
             const implType = context.preferredImplementer ?? "codex";
             return jsonResponse({
               role: "planner",
+              identity,
               status: "needs_tasks",
               phase: "create_tasks",
               projectContext: context,
@@ -1276,6 +1861,7 @@ DO NOT proceed to implementation without explicit user approval.`
 
           return jsonResponse({
             role: "planner",
+            identity,
             status: "monitoring",
             phase: "monitor",
             projectContext: context,
@@ -1294,7 +1880,7 @@ instruction: tasks.length === 0 && inProgressTasks.length === 0
               : `FIRST STEPS (do these IN ORDER):
 1. Call dashboard_open to launch the monitoring dashboard
 2. Call implementer_reset to clear stale implementers from previous sessions
-3. ASK THE USER: "Should I use Claude or Codex as the implementer?"
+3. ASK THE USER: "Which agent should I use as the implementer (${agentTypeNames().join(", ")})? It will start in ${describeLauncher(config.launcher)}."
 4. WAIT for their answer before launching any implementers
 5. After user answers, call launch_implementer with their chosen type
 
@@ -1310,7 +1896,7 @@ ${activeImplementers.length === 0
 Your allowed actions:
 1. dashboard_open - Open monitoring dashboard
 2. implementer_reset - Clear stale implementers
-3. ASK user which implementer type they want (claude or codex)
+3. ASK user which implementer type they want (${agentTypeNames().join(", ")})
 4. launch_implementer - ONLY after user tells you which type
 5. task_list, note_list - Monitor progress
 6. task_approve, task_request_changes - Review submitted work
@@ -1323,6 +1909,7 @@ Your allowed actions:
           if (context?.status === "stopped") {
             return jsonResponse({
               role: "implementer",
+              identity,
               status: "stopped",
               message: "Project has been STOPPED by the planner. Cease all work.",
               instruction: "Stop working on tasks. The planner has halted the project. Wait for further instructions from the user."
@@ -1332,6 +1919,7 @@ Your allowed actions:
           if (context?.status === "complete") {
             return jsonResponse({
               role: "implementer",
+              identity,
               status: "complete",
               message: "Project is COMPLETE. No more work needed.",
               instruction: "The project has been marked complete. No further action needed."
@@ -1342,6 +1930,7 @@ Your allowed actions:
           if (tasks.length === 0 && inProgressTasks.length === 0) {
             return jsonResponse({
               role: "implementer",
+              identity,
               status: "waiting",
               message: "No tasks available yet. Waiting for planner to create tasks.",
               projectContext: context,
@@ -1352,28 +1941,12 @@ Your allowed actions:
           // Tasks available - work loop
           return jsonResponse({
             role: "implementer",
+            identity,
             status: "ready",
             projectContext: context,
             availableTasks: tasks.length,
             inProgressTasks: inProgressTasks.length,
-            instruction: `CONTINUOUS WORK LOOP:
-1. Call task_list to see available tasks
-2. Call discussion_inbox({ agent: "YOUR_NAME" }) to check for discussions needing your input
-3. If discussions waiting -> respond with discussion_reply before continuing
-4. Call task_claim to take a 'todo' task
-5. Call lock_acquire before editing any file
-6. Do the work
-7. Call lock_release when done with file
-8. Call task_update to mark task 'done'
-9. REPEAT: Go back to step 1 and get the next task
-10. STOP CONDITIONS: If project status becomes 'stopped' or 'complete', cease work
-
-DISCUSSIONS:
-- Use discussion_start to ask questions about architecture or implementation
-- Check discussion_inbox between tasks
-- Respond with discussion_reply including your recommendation
-
-IMPORTANT: Keep working until all tasks are done or project is stopped. Do not wait for user input between tasks.`
+            instruction: getImplementerWorkLoop(session.agent),
           });
         }
       }
@@ -1385,7 +1958,7 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
         }
         const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
         const statusValue = getString(args.status) as "planning" | "ready" | "in_progress" | "complete" | "stopped" | undefined;
-        const preferredImpl = getString(args.preferredImplementer) as "claude" | "codex" | undefined;
+        const preferredImpl = getString(args.preferredImplementer);
         const context = await store.setProjectContext({
           projectRoot,
           description,
@@ -1444,13 +2017,15 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
           // Add a note to communicate the stop signal
           await store.appendNote({
             text: `[SYSTEM] Project status changed to STOPPED. All implementers should cease work.`,
-            author: "system"
+            author: "system",
+            projectRoot,
           });
         } else if (status === "complete") {
           message += " Project is marked as complete.";
           await store.appendNote({
             text: `[SYSTEM] Project marked as COMPLETE. Great work!`,
-            author: "system"
+            author: "system",
+            projectRoot,
           });
         }
 
@@ -1461,26 +2036,15 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
         });
       }
       case "launch_implementer": {
-        const type = getString(args.type) as "claude" | "codex" | undefined;
+        const type = getString(args.type);
         if (!type) {
           throw new Error("type is required");
         }
+        const agent = getAgentProfile(loadAgentProfiles(config.userConfigPath, config.projectConfigPath), type);
         const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
 
         // Auto-generate name if not provided
-        let name = getString(args.name);
-        if (!name) {
-          const existingImplementers = await store.listImplementers(projectRoot);
-          // Find the highest impl-N number
-          let maxNum = 0;
-          for (const impl of existingImplementers) {
-            const match = impl.name.match(/^impl-(\d+)$/);
-            if (match) {
-              maxNum = Math.max(maxNum, parseInt(match[1], 10));
-            }
-          }
-          name = `impl-${maxNum + 1}`;
-        }
+        const name = getString(args.name) ?? nextImplementerName(await store.listImplementers(projectRoot));
         const isolation = getString(args.isolation) as "shared" | "worktree" | undefined ?? "shared";
 
         // Check if this is the first implementer - if so, launch dashboard too
@@ -1516,59 +2080,44 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
           }
         }
 
-        // Build the prompt that will be injected
-        const worktreeNote = isolation === "worktree" ? ` You are working in an isolated worktree at ${worktreePath}. Your changes are on branch ${branchName}.` : "";
-        const prompt = `You are implementer ${name}.${worktreeNote} Run: coordination_init({ role: "implementer" })`;
+        // Same prompt the MCP "implementer" prompt serves
+        const prompt = getImplementerPrompt({ name, projectRoot, isolation, worktreePath, branchName });
 
-        // Determine the command to run
-        let terminalCmd: string;
-        if (type === "claude") {
-          // Claude: use --dangerously-skip-permissions for autonomous work
-          // Use -p for initial prompt, which will start an interactive session
-          terminalCmd = `claude --dangerously-skip-permissions "${prompt}"`;
-        } else {
-          // Codex: --full-auto for autonomous work, pass prompt as quoted argument
-          terminalCmd = `codex --full-auto "${prompt}"`;
-        }
+        // Determine the command to run from the agent profile
+        const agentCommand = buildAgentCommand(agent, prompt);
+        const terminalCmd = agentCommand.command;
 
         try {
-          // Helper to escape strings for AppleScript inside shell
-          const escapeForAppleScript = (s: string) => s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+          const launcher = getLauncher(config.launcher);
 
           // Launch dashboard first if this is the first implementer
           if (isFirstImplementer) {
-            const cliPath = path.resolve(__dirname, "cli.js");
-            // Pass --roots so dashboard knows which project to display
-            const dashCmd = `node "${escapeForAppleScript(cliPath)}" dashboard --roots "${escapeForAppleScript(projectRoot)}"`;
-            // Use spawn instead of execSync to avoid blocking/session issues
-            spawn("osascript", ["-e", `tell application "Terminal" to do script "${escapeForAppleScript(dashCmd)}"`], {
-              detached: true,
-              stdio: "ignore"
-            }).unref();
-            // Open browser after a brief delay (in background)
-            spawn("sh", ["-c", "sleep 3 && open http://127.0.0.1:8787"], {
-              detached: true,
-              stdio: "ignore"
-            }).unref();
+            if (!httpDashboardUrl) await launchDashboard(launcher, projectRoot);
+            openBrowser(dashboardUrl(), 3);
           }
 
-          // Launch the implementer terminal (in worktree directory if applicable)
-          const implCmd = `cd "${escapeForAppleScript(workingDirectory)}" && ${terminalCmd}`;
-          // Use spawn instead of execSync to avoid blocking/session issues
-          spawn("osascript", ["-e", `tell application "Terminal" to do script "${escapeForAppleScript(implCmd)}"`], {
-            detached: true,
-            stdio: "ignore"
-          }).unref();
+          // Launch the implementer (in worktree directory if applicable)
+          const launched = await launcher.launch({
+            name,
+            command: terminalCmd,
+            cwd: workingDirectory,
+            logDir: IMPLEMENTER_LOG_DIR,
+            stdin: agentCommand.stdin,
+            keys: agentCommand.keys,
+          });
 
-          // Register the implementer with worktree info
+          // Register the implementer with worktree and launcher info
           const implementer = await store.registerImplementer({
             name,
             type,
             projectRoot,
-            pid: undefined,
+            pid: launched.pid,
             isolation,
             worktreePath,
             branchName,
+            launcher: launched.backend,
+            tmuxTarget: launched.tmuxTarget,
+            logFile: launched.logFile,
           });
 
           // Update project status to in_progress if it was ready
@@ -1578,9 +2127,15 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
           }
 
           const worktreeMsg = isolation === "worktree" ? ` with isolated worktree (branch: ${branchName})` : "";
+          const whereMsg = launched.tmuxTarget
+            ? `in tmux window ${launched.tmuxTarget}`
+            : launched.logFile
+              ? `as a background process (output: ${launched.logFile})`
+              : "in a new terminal window";
           await store.appendNote({
             text: `[SYSTEM] Launched implementer "${name}" (${type})${worktreeMsg}${isFirstImplementer ? " and dashboard" : ""}`,
-            author: "system"
+            author: "system",
+            projectRoot,
           });
 
           return jsonResponse({
@@ -1590,7 +2145,13 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
             isolation,
             worktreePath,
             branchName,
-            message: `Launched ${type} implementer "${name}"${worktreeMsg} in a new terminal window.${isFirstImplementer ? " Dashboard also launched at http://127.0.0.1:8787" : ""}`
+            launcher: launched.backend,
+            tmuxTarget: launched.tmuxTarget,
+            logFile: launched.logFile,
+            ...(agentCommand.keys !== undefined && launched.backend !== "tmux" ? {
+              _warning: `The ${type} profile types its prompt into the terminal, which only the tmux launcher can do. Paste this into the implementer: ${prompt}`,
+            } : {}),
+            message: `Launched ${type} implementer "${name}"${worktreeMsg} ${whereMsg}.${isFirstImplementer ? ` Dashboard also launched at ${dashboardUrl()}` : ""}`
           });
         } catch (error) {
           // Clean up worktree if launch failed
@@ -1608,8 +2169,24 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
           });
         }
       }
+      case "implementer_heartbeat": {
+        const name = getString(args.name);
+        if (!name) throw new Error("name is required");
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const implementer = await store.heartbeatImplementer({ name, projectRoot });
+        await reclaimStaleImplementers(projectRoot);
+        const context = await store.getProjectContext(projectRoot);
+        return jsonResponse({
+          implementer,
+          projectStatus: context?.status,
+          nextHeartbeatInSeconds: config.heartbeatTimeoutSeconds > 0
+            ? Math.max(Math.floor(config.heartbeatTimeoutSeconds / 3), 1)
+            : undefined,
+        });
+      }
       case "implementer_list": {
         const projectRoot = getString(args.projectRoot);
+        await reclaimStaleImplementers(projectRoot);
         const implementers = await store.listImplementers(projectRoot);
         const active = implementers.filter(i => i.status === "active");
         return jsonResponse({
@@ -1623,7 +2200,8 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
         const count = await store.resetImplementers(projectRoot);
         await store.appendNote({
           text: `[SYSTEM] Reset ${count} implementer(s) to stopped status for fresh session`,
-          author: "system"
+          author: "system",
+          projectRoot,
         });
         return jsonResponse({
           success: true,
@@ -1643,12 +2221,12 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
         const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
         const keepProjectContext = getBoolean(args.keepProjectContext) ?? false;
 
-        const result = await store.resetSession(projectRoot, { keepProjectContext });
+        const result = await resetWithSnapshot(store, snapshotDir, projectRoot, { keepProjectContext });
 
         return jsonResponse({
           success: true,
           ...result,
-          message: `Session reset complete. Cleared ${result.tasksCleared} tasks, ${result.locksCleared} locks, ${result.notesCleared} notes. Reset ${result.implementersReset} implementers, archived ${result.discussionsArchived} discussions.${keepProjectContext ? " Project context preserved (status reset to planning)." : " Project context cleared."}`,
+          message: `Session reset complete. Cleared ${result.tasksCleared} tasks, ${result.locksCleared} locks, ${result.notesCleared} notes. Reset ${result.implementersReset} implementers, archived ${result.discussionsArchived} discussions.${keepProjectContext ? " Project context preserved (status reset to planning)." : " Project context cleared."} Undo with session_restore({ snapshot: "${result.snapshot.id}", confirm: true }).`,
           nextSteps: [
             "1. Call coordination_init({ role: 'planner' }) to start fresh",
             "2. Set up project context with project_context_set",
@@ -1656,28 +2234,70 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
           ]
         });
       }
+      case "session_snapshot": {
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const snapshot = await createSnapshot(store, snapshotDir, { projectRoot, name: getString(args.name) });
+        return jsonResponse({
+          success: true,
+          snapshot,
+          message: `Saved snapshot "${snapshot.name}" (${formatCounts(snapshot.counts)})`
+        });
+      }
+      case "session_snapshot_list": {
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        return jsonResponse({ snapshots: await listSnapshots(snapshotDir, projectRoot) });
+      }
+      case "session_restore": {
+        const snapshotId = getString(args.snapshot);
+        if (!snapshotId) throw new Error("snapshot is required");
+        if (!getBoolean(args.confirm)) {
+          return jsonResponse({
+            success: false,
+            error: "Session restore requires confirm: true to proceed. The current state will be replaced (a snapshot of it is taken first)."
+          });
+        }
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const { snapshot, backup, result } = await restoreSnapshot(store, snapshotDir, { projectRoot, snapshot: snapshotId });
+        return jsonResponse({
+          success: true,
+          snapshot,
+          backup,
+          imported: result.imported,
+          message: `Restored snapshot "${snapshot.name}" (${formatCounts(result.imported)}). The previous state was saved as ${backup.id}. Implementers were restored as stopped; relaunch them to continue.`
+        });
+      }
+      case "session_snapshot_prune": {
+        const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
+        const ids = getStringArray(args.ids);
+        const olderThanDays = getNumber(args.olderThanDays);
+        const keep = getNumber(args.keep);
+        if (!ids && olderThanDays === undefined && keep === undefined) {
+          throw new Error("Provide ids, olderThanDays or keep");
+        }
+        const pruned = await pruneSnapshots(store, snapshotDir, { projectRoot, ids, olderThanDays, keep });
+        return jsonResponse({
+          success: true,
+          pruned: pruned.map((snapshot) => snapshot.id),
+          message: `Deleted ${pruned.length} snapshot(s)`
+        });
+      }
       case "dashboard_open": {
         const projectRoot = getString(args.projectRoot) ?? config.roots[0] ?? process.cwd();
         try {
-          const escapeForAppleScript = (s: string) => s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-          const cliPath = path.resolve(__dirname, "cli.js");
-          const dashCmd = `node "${escapeForAppleScript(cliPath)}" dashboard --roots "${escapeForAppleScript(projectRoot)}"`;
-
-          // Launch dashboard in new terminal
-          spawn("osascript", ["-e", `tell application "Terminal" to do script "${escapeForAppleScript(dashCmd)}"`], {
-            detached: true,
-            stdio: "ignore"
-          }).unref();
-
-          // Open browser after a brief delay
-          spawn("sh", ["-c", "sleep 2 && open http://127.0.0.1:8787"], {
-            detached: true,
-            stdio: "ignore"
-          }).unref();
+          if (httpDashboardUrl) {
+            openBrowser(httpDashboardUrl, 0);
+            return jsonResponse({
+              success: true,
+              message: `Dashboard is served by this coordinator at ${httpDashboardUrl}`
+            });
+          }
+          const launched = await launchDashboard(getLauncher(config.launcher), projectRoot);
+          openBrowser(DEFAULT_DASHBOARD_URL, 2);
 
           return jsonResponse({
             success: true,
-            message: "Dashboard launching at http://127.0.0.1:8787"
+            launcher: launched.backend,
+            message: `Dashboard launching at ${DEFAULT_DASHBOARD_URL}`
           });
         } catch (error) {
           const message = error instanceof Error ? error.message : "Unknown error";
@@ -1713,7 +2333,8 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
         // Also post a note so other agents see the new discussion
         await store.appendNote({
           text: `[DISCUSSION] New thread: "${topic}" (${result.discussion.id}) - ${author} is waiting for input${waitingOn ? ` from ${waitingOn}` : ""}`,
-          author: "system"
+          author: "system",
+          projectRoot,
         });
 
         return jsonResponse({
@@ -1770,7 +2391,8 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
         // Post a note about the resolution
         await store.appendNote({
           text: `[DECISION] "${discussion.topic}" resolved: ${decision} (by ${decidedBy})`,
-          author: "system"
+          author: "system",
+          projectRoot: discussion.projectRoot,
         });
 
         return jsonResponse({
@@ -1931,7 +2553,8 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
             // Optionally clean up the worktree after successful merge
             await store.appendNote({
               text: `[SYSTEM] Merged ${impl.name}'s worktree (${impl.branchName}) to ${targetBranch ?? "main"}`,
-              author: "system"
+              author: "system",
+              projectRoot: impl.projectRoot,
             });
           }
 
@@ -2028,10 +2651,173 @@ IMPORTANT: Keep working until all tasks are done or project is stopped. Do not w
     const message = error instanceof Error ? error.message : "Unknown error";
     return errorResponse(message);
   }
-});
+}
+
+// One watcher serves the subscriptions of every session in this process
+const resourceWatcher = createResourceWatcher(
+  async (uri) => JSON.stringify(await readResource(store, uri, config.roots[0] ?? process.cwd()))
+);
+
+/**
+ * An MCP server bound to one session; every session shares the store
+ */
+function createMcpServer(session: Session): Server {
+  const server = new Server(
+    { name: config.serverName, version: config.serverVersion },
+    { capabilities: { tools: {}, resources: { subscribe: true }, prompts: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const result = await callTool(request, session);
+    // Tell subscribers about this call's changes now rather than on the next poll
+    resourceWatcher.check().catch(() => undefined);
+    return result;
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: MCP_PROMPTS }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    // Default the project root the same way the tools do
+    const args = { projectRoot: config.roots[0] ?? process.cwd(), ...request.params.arguments };
+    return getMcpPrompt(request.params.name, args);
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: RESOURCES }));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }));
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const data = await readResource(store, uri, config.roots[0] ?? process.cwd());
+    return { contents: [resourceContents(uri, data)] };
+  });
+
+  // Subscribed URI -> unsubscribe from the watcher
+  const subscriptions = new Map<string, () => void>();
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    parseResourceUri(uri);
+    if (!subscriptions.has(uri)) {
+      subscriptions.set(uri, resourceWatcher.subscribe(uri, () => {
+        server.sendResourceUpdated({ uri }).catch(() => undefined);
+      }));
+    }
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.get(request.params.uri)?.();
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.oninitialized = () => {
+    const client = server.getClientVersion();
+    if (client) session.client = `${client.name}/${client.version}`;
+  };
+  server.onclose = () => {
+    for (const unsubscribe of subscriptions.values()) unsubscribe();
+    subscriptions.clear();
+  };
+  return server;
+}
 
 export async function startServer() {
   await store.init();
+  // Headless implementers get their name from the runner
+  const session = createSession("stdio", process.env.LOCKSTEP_AGENT ?? process.env.LOCKSTEP_IMPLEMENTER);
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  transport.onclose = () => {
+    closeSession(session).catch(() => undefined);
+  };
+  await createMcpServer(session).connect(transport);
+  await openSession(session);
+}
+
+// Transports of open HTTP sessions, keyed by session ID
+const httpTransports = new Map<string, StreamableHTTPServerTransport>();
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Route a request on /mcp: requests carrying an mcp-session-id go to that
+ * session's transport, an initialize request without one opens a new session
+ */
+async function handleMcpRequest(req: IncomingMessage, res: ServerResponse) {
+  const header = req.headers["mcp-session-id"];
+  const sessionId = Array.isArray(header) ? header[0] : header;
+  if (sessionId) {
+    const transport = httpTransports.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+    await transport.handleRequest(req, res);
+    return;
+  }
+
+  if (req.method !== "POST") {
+    sendJsonRpcError(res, 400, -32000, "Missing mcp-session-id header");
+    return;
+  }
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch {
+    sendJsonRpcError(res, 400, -32700, "Parse error: request body is not valid JSON");
+    return;
+  }
+  if (!isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, -32000, "A new session must start with an initialize request");
+    return;
+  }
+
+  const session = createSession("http", agentFromRequest(req));
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => session.id,
+    onsessioninitialized: async (id) => {
+      httpTransports.set(id, transport);
+      await openSession(session);
+    },
+  });
+  transport.onclose = () => {
+    httpTransports.delete(session.id);
+    closeSession(session).catch(() => undefined);
+  };
+  await createMcpServer(session).connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+export type HttpServerOptions = {
+  host?: string;
+  port?: number;
+  pollMs?: number;
+};
+
+/**
+ * Serve MCP over Streamable HTTP at /mcp, alongside the dashboard in the same
+ * process and on the same store, so one coordinator serves many agents
+ */
+export async function startHttpServer(options: HttpServerOptions = {}) {
+  await store.init();
+  const { startDashboard } = await import("./dashboard.js");
+  const dashboard = await startDashboard({ ...options, store, mcp: handleMcpRequest });
+  httpDashboardUrl = dashboard.url;
+  process.stdout.write(`MCP endpoint at ${dashboard.url}/mcp\n`);
+
+  return {
+    url: dashboard.url,
+    close: async () => {
+      for (const transport of Array.from(httpTransports.values())) {
+        await transport.close();
+      }
+      await dashboard.close();
+      httpDashboardUrl = undefined;
+    },
+  };
 }
@@ -0,0 +1,41 @@
+/**
+ * MCP sessions: one per connected client. A stdio server has a single session
+ * for its process; the HTTP server opens one per client that initializes.
+ */
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+
+export type SessionTransport = "stdio" | "http";
+
+export type Session = {
+  id: string;
+  transport: SessionTransport;
+  agent?: string;                     // Who is calling, as given when connecting
+  client?: string;                    // clientInfo from initialize, as name/version
+  role?: "planner" | "implementer";   // Set by coordination_init
+  connectedAt: string;
+};
+
+// HTTP clients name themselves with this header or an ?agent= query parameter
+export const AGENT_HEADER = "x-lockstep-agent";
+
+export function createSession(transport: SessionTransport, agent?: string): Session {
+  return {
+    id: randomUUID(),
+    transport,
+    agent: agent?.trim() || undefined,
+    connectedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Agent name of an HTTP request, from the X-Lockstep-Agent header or the
+ * agent query parameter
+ */
+export function agentFromRequest(req: IncomingMessage): string | undefined {
+  const header = req.headers[AGENT_HEADER];
+  const value = Array.isArray(header) ? header[0] : header;
+  if (value?.trim()) return value.trim();
+  const query = new URL(req.url ?? "/", "http://localhost").searchParams.get("agent");
+  return query?.trim() || undefined;
+}
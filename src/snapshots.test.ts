@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createSnapshot, listSnapshots, loadSnapshot, pruneSnapshots, resetWithSnapshot, restoreSnapshot } from './snapshots.js';
+import { JsonStore } from './storage.js';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('Session Snapshots', () => {
+  let tempDir: string;
+  let snapshotDir: string;
+  let store: JsonStore;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
+    snapshotDir = path.join(tempDir, 'snapshots');
+    store = new JsonStore(path.join(tempDir, 'data'), path.join(tempDir, 'logs'));
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should undo a reset by restoring the snapshot it took', async () => {
+    await store.setProjectContext({ projectRoot: '/repo', description: 'App', endState: 'Shipped' });
+    const task = await store.createTask({ title: 'Build', complexity: 'simple', projectRoot: '/repo' });
+    await store.acquireLock({ path: 'src/a.ts', owner: 'impl-1', projectRoot: '/repo' });
+    await store.appendNote({ text: 'Remember the cache', projectRoot: '/repo' });
+
+    const reset = await resetWithSnapshot(store, snapshotDir, '/repo');
+    expect(reset).toMatchObject({ tasksCleared: 1, snapshot: { reason: 'reset', name: 'before reset' } });
+    expect(await store.listTasks({ projectRoot: '/repo' })).toEqual([]);
+
+    await store.createTask({ title: 'Started over', complexity: 'simple', projectRoot: '/repo' });
+    const { backup } = await restoreSnapshot(store, snapshotDir, { projectRoot: '/repo', snapshot: reset.snapshot.id });
+
+    expect((await store.listTasks({ projectRoot: '/repo' })).map(t => t.id)).toEqual([task.id]);
+    expect((await store.listLocks({ projectRoot: '/repo' }))[0].path).toBe('src/a.ts');
+    expect((await store.listNotes(undefined, '/repo'))[0].text).toBe('Remember the cache');
+    expect((await store.getProjectContext('/repo'))?.description).toBe('App');
+
+    // The state the restore replaced is itself a snapshot
+    expect(backup.reason).toBe('restore');
+    const { bundle } = await loadSnapshot(snapshotDir, '/repo', backup.id);
+    expect(bundle.data.tasks.map(t => t.title)).toEqual(['Started over']);
+  });
+
+  it('should list snapshots per project, newest first, and find them by name', async () => {
+    await store.createTask({ title: 'Build', complexity: 'simple', projectRoot: '/repo' });
+    const first = await createSnapshot(store, snapshotDir, { projectRoot: '/repo', name: 'Before refactor' });
+    const second = await createSnapshot(store, snapshotDir, { projectRoot: '/repo', name: 'Before refactor' });
+    await createSnapshot(store, snapshotDir, { projectRoot: '/other' });
+
+    expect(first.id).toMatch(/^\d{8}-\d{9}-before-refactor/);
+    expect(first.counts.tasks).toBe(1);
+    expect((await listSnapshots(snapshotDir, '/repo')).map(s => s.id)).toEqual([second.id, first.id]);
+    expect((await loadSnapshot(snapshotDir, '/repo', 'Before refactor')).snapshot.id).toBe(second.id);
+    await expect(loadSnapshot(snapshotDir, '/repo', 'missing')).rejects.toThrow('Snapshot not found: missing');
+  });
+
+  it('should prune by id, age and count', async () => {
+    const snapshots = [];
+    for (const name of ['one', 'two', 'three', 'four']) {
+      snapshots.push(await createSnapshot(store, snapshotDir, { projectRoot: '/repo', name }));
+    }
+
+    expect(await pruneSnapshots(store, snapshotDir, { projectRoot: '/repo' })).toEqual([]);
+    expect((await pruneSnapshots(store, snapshotDir, { projectRoot: '/repo', ids: [snapshots[1].id] })).map(s => s.name))
+      .toEqual(['two']);
+    expect(await pruneSnapshots(store, snapshotDir, { projectRoot: '/repo', keep: 2 })).toHaveLength(1);
+    const later = Date.now() + 2 * 24 * 60 * 60 * 1000;
+    expect(await pruneSnapshots(store, snapshotDir, { projectRoot: '/repo', olderThanDays: 1, now: later }))
+      .toHaveLength(2);
+    expect(await listSnapshots(snapshotDir, '/repo')).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Session snapshots: named point-in-time copies of one project's coordination
+ * state, kept as session bundles under the data directory. Resets and
+ * restores take one first, so neither can lose work for good.
+ */
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createBundle, parseBundle, prepareImport, type SessionBundle } from "./bundle.js";
+import { sessionCounts, type ImportResult, type SessionCounts, type Store } from "./storage.js";
+
+export type SnapshotReason = "manual" | "reset" | "restore";
+
+export type Snapshot = {
+  id: string;
+  name: string;
+  reason: SnapshotReason;
+  projectRoot: string;
+  createdAt: string;
+  counts: SessionCounts;
+};
+
+type ResetOptions = NonNullable<Parameters<Store["resetSession"]>[1]>;
+type ResetResult = Awaited<ReturnType<Store["resetSession"]>>;
+
+// Where a coordinator keeps snapshots, given its data directory
+export function snapshotDirFor(dataDir: string): string {
+  return path.join(dataDir, "snapshots");
+}
+
+// Snapshots of each project live in their own directory, named by a hash of its root
+function projectDir(snapshotDir: string, projectRoot: string): string {
+  const key = crypto.createHash("sha256").update(projectRoot).digest("hex").slice(0, 16);
+  return path.join(snapshotDir, key);
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+}
+
+function describeSnapshot(id: string, bundle: SessionBundle): Snapshot {
+  return {
+    id,
+    name: bundle.snapshot?.name ?? id,
+    reason: bundle.snapshot?.reason ?? "manual",
+    projectRoot: bundle.projectRoot,
+    createdAt: bundle.exportedAt,
+    counts: sessionCounts(bundle.data),
+  };
+}
+
+/**
+ * Save the project's current state. Ids sort by creation time:
+ * "20261019-143000123-before-refactor".
+ */
+export async function createSnapshot(
+  store: Store,
+  snapshotDir: string,
+  input: { projectRoot: string; name?: string; reason?: SnapshotReason }
+): Promise<Snapshot> {
+  const reason = input.reason ?? "manual";
+  const name = input.name?.trim() || `${reason} ${new Date().toISOString()}`;
+  const bundle: SessionBundle = {
+    ...createBundle(input.projectRoot, await store.exportSession(input.projectRoot)),
+    snapshot: { name, reason },
+  };
+  const dir = projectDir(snapshotDir, input.projectRoot);
+  await fs.mkdir(dir, { recursive: true });
+
+  const stamp = bundle.exportedAt.replace(/[-:]/g, "").replace("T", "-").replace(".", "").replace("Z", "");
+  const base = [stamp, slugify(name)].filter(Boolean).join("-");
+  for (let attempt = 1; ; attempt++) {
+    const id = attempt === 1 ? base : `${base}-${attempt}`;
+    try {
+      await fs.writeFile(path.join(dir, `${id}.json`), JSON.stringify(bundle, null, 2), { flag: "wx" });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") continue;
+      throw error;
+    }
+    const snapshot = describeSnapshot(id, bundle);
+    await store.appendLogEntry("snapshot_create", snapshot);
+    return snapshot;
+  }
+}
+
+/**
+ * The project's snapshots, newest first
+ */
+export async function listSnapshots(snapshotDir: string, projectRoot: string): Promise<Snapshot[]> {
+  const dir = projectDir(snapshotDir, projectRoot);
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const snapshots: Snapshot[] = [];
+  for (const file of files.filter((item) => item.endsWith(".json"))) {
+    const id = file.slice(0, -".json".length);
+    try {
+      const bundle = parseBundle(await fs.readFile(path.join(dir, file), "utf8"), file);
+      snapshots.push(describeSnapshot(id, bundle));
+    } catch {
+      // Skip files that are mid-write or not snapshots
+    }
+  }
+  return snapshots.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/**
+ * Load a snapshot by id, or the newest one with the given name
+ */
+export async function loadSnapshot(
+  snapshotDir: string,
+  projectRoot: string,
+  idOrName: string
+): Promise<{ snapshot: Snapshot; bundle: SessionBundle }> {
+  const snapshots = await listSnapshots(snapshotDir, projectRoot);
+  const snapshot = snapshots.find((item) => item.id === idOrName)
+    ?? snapshots.find((item) => item.name === idOrName);
+  if (!snapshot) throw new Error(`Snapshot not found: ${idOrName}`);
+  const file = path.join(projectDir(snapshotDir, projectRoot), `${snapshot.id}.json`);
+  return { snapshot, bundle: parseBundle(await fs.readFile(file, "utf8"), `${snapshot.id}.json`) };
+}
+
+/**
+ * Snapshot the project, then reset it
+ */
+export async function resetWithSnapshot(
+  store: Store,
+  snapshotDir: string,
+  projectRoot: string,
+  options?: ResetOptions
+): Promise<ResetResult & { snapshot: Snapshot }> {
+  const snapshot = await createSnapshot(store, snapshotDir, { projectRoot, name: "before reset", reason: "reset" });
+  const result = await store.resetSession(projectRoot, options);
+  return { ...result, snapshot };
+}
+
+/**
+ * Put the project back the way a snapshot recorded it. The current state is
+ * snapshotted first, then reset and replaced by the snapshot's records.
+ * Restored implementers come back stopped; records created after the snapshot
+ * that a reset keeps (archived discussions, stopped implementers) stay.
+ */
+export async function restoreSnapshot(
+  store: Store,
+  snapshotDir: string,
+  input: { projectRoot: string; snapshot: string }
+): Promise<{ snapshot: Snapshot; backup: Snapshot; result: ImportResult }> {
+  const { snapshot, bundle } = await loadSnapshot(snapshotDir, input.projectRoot, input.snapshot);
+  const backup = await createSnapshot(store, snapshotDir, {
+    projectRoot: input.projectRoot,
+    name: `before restoring ${snapshot.name}`,
+    reason: "restore",
+  });
+  await store.resetSession(input.projectRoot);
+  const result = await store.importSession(prepareImport(bundle, { projectRoot: input.projectRoot }), { onConflict: "replace" });
+  await store.appendLogEntry("snapshot_restore", { projectRoot: input.projectRoot, snapshot: snapshot.id, backup: backup.id });
+  return { snapshot, backup, result };
+}
+
+/**
+ * Delete snapshots: the given ids, those older than olderThanDays, and all
+ * but the newest keep. With no criteria nothing is deleted.
+ */
+export async function pruneSnapshots(
+  store: Store,
+  snapshotDir: string,
+  input: { projectRoot: string; ids?: string[]; keep?: number; olderThanDays?: number; now?: number }
+): Promise<Snapshot[]> {
+  const snapshots = await listSnapshots(snapshotDir, input.projectRoot);
+  const cutoff = input.olderThanDays !== undefined
+    ? (input.now ?? Date.now()) - input.olderThanDays * 24 * 60 * 60 * 1000
+    : undefined;
+  const pruned = snapshots.filter((snapshot, index) =>
+    input.ids?.includes(snapshot.id)
+    || (cutoff !== undefined && Date.parse(snapshot.createdAt) < cutoff)
+    || (input.keep !== undefined && index >= input.keep)
+  );
+  const dir = projectDir(snapshotDir, input.projectRoot);
+  for (const snapshot of pruned) {
+    await fs.rm(path.join(dir, `${snapshot.id}.json`), { force: true });
+  }
+  if (pruned.length > 0) {
+    await store.appendLogEntry("snapshot_prune", { projectRoot: input.projectRoot, snapshots: pruned.map((item) => item.id) });
+  }
+  return pruned;
+}
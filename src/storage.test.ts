@@ -1,20 +1,24 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { SqliteStore } from './storage.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JsonStore, SqliteStore, type Store } from './storage.js';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import os from 'node:os';
 
-describe('SqliteStore', () => {
-  let store: SqliteStore;
+// Both backends must pass the same suite so they cannot drift apart
+const backends: Array<[string, (tempDir: string, logDir: string) => Store]> = [
+  ['SqliteStore', (tempDir, logDir) => new SqliteStore(path.join(tempDir, 'test.db'), logDir)],
+  ['JsonStore', (tempDir, logDir) => new JsonStore(path.join(tempDir, 'data'), logDir)],
+];
+
+describe.each(backends)('%s', (_name, createStore) => {
+  let store: Store;
   let tempDir: string;
-  let dbPath: string;
   let logDir: string;
 
   beforeEach(async () => {
     tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lockstep-test-'));
-    dbPath = path.join(tempDir, 'test.db');
     logDir = path.join(tempDir, 'logs');
-    store = new SqliteStore(dbPath, logDir);
+    store = createStore(tempDir, logDir);
     await store.init();
   });
 
@@ -89,6 +93,67 @@ describe('SqliteStore', () => {
     });
   });
 
+  describe('Task Concurrency', () => {
+    it('should let only one of several racing implementers claim a task', async () => {
+      const task = await store.createTask({ title: 'Contested', complexity: 'simple' });
+
+      const results = await Promise.allSettled(
+        ['impl-1', 'impl-2', 'impl-3'].map((owner) => store.claimTask({ id: task.id, owner }))
+      );
+
+      const claimed = results.filter((r) => r.status === 'fulfilled');
+      expect(claimed).toHaveLength(1);
+      const [stored] = await store.listTasks();
+      expect(stored.owner).toBe((claimed[0] as PromiseFulfilledResult<{ owner: string }>).value.owner);
+      expect(stored.version).toBe(2);
+    });
+
+    it('should refuse to claim a task that is already owned', async () => {
+      const task = await store.createTask({ title: 'Taken', complexity: 'simple' });
+      await store.claimTask({ id: task.id, owner: 'impl-1' });
+
+      await expect(
+        store.claimTask({ id: task.id, owner: 'impl-2' })
+      ).rejects.toThrow('not claimable (status: in_progress, owner: impl-1)');
+    });
+
+    it('should let a pre-assigned implementer claim its task', async () => {
+      const task = await store.createTask({ title: 'Assigned', complexity: 'simple', owner: 'impl-1' });
+
+      await expect(store.claimTask({ id: task.id, owner: 'impl-2' })).rejects.toThrow('already assigned to impl-1');
+      expect((await store.claimTask({ id: task.id, owner: 'impl-1' })).status).toBe('in_progress');
+    });
+
+    it('should reject updates against a stale version', async () => {
+      const task = await store.createTask({ title: 'Versioned', complexity: 'simple' });
+      expect(task.version).toBe(1);
+
+      const updated = await store.updateTask({ id: task.id, title: 'First edit', expectedVersion: 1 });
+      expect(updated.version).toBe(2);
+
+      await expect(
+        store.updateTask({ id: task.id, title: 'Stale edit', expectedVersion: 1 })
+      ).rejects.toThrow('has changed since version 1 (now version 2)');
+      expect((await store.listTasks())[0].title).toBe('First edit');
+    });
+
+    it('should fail a review decision when the task changed after it was checked', async () => {
+      const task = await store.createTask({ title: 'Contested', complexity: 'medium' });
+      await store.claimTask({ id: task.id, owner: 'impl-1' });
+      await store.submitTaskForReview({ id: task.id, owner: 'impl-1', reviewNotes: 'Done' });
+
+      // Another reviewer sends the task back between the status check and the write
+      const update = store.updateTask.bind(store);
+      vi.spyOn(store, 'updateTask').mockImplementationOnce(async (input) => {
+        await store.requestTaskChanges({ id: task.id, feedback: 'Not yet' });
+        return update(input);
+      });
+
+      await expect(store.approveTask({ id: task.id })).rejects.toThrow('has changed since version');
+      expect((await store.listTasks())[0]).toMatchObject({ status: 'in_progress', reviewFeedback: 'Not yet' });
+    });
+  });
+
   describe('Review Workflow', () => {
     it('should submit task for review', async () => {
       const task = await store.createTask({
@@ -178,6 +243,163 @@ describe('SqliteStore', () => {
     });
   });
 
+  describe('Task Dependencies', () => {
+    it('should create dependent tasks as blocked', async () => {
+      const first = await store.createTask({ title: 'Schema', complexity: 'medium' });
+      const second = await store.createTask({
+        title: 'API',
+        complexity: 'medium',
+        dependsOn: [first.id],
+      });
+
+      expect(second.status).toBe('blocked');
+      expect(second.dependsOn).toEqual([first.id]);
+    });
+
+    it('should hold a task created as todo until its dependencies are done', async () => {
+      const first = await store.createTask({ title: 'Schema', complexity: 'medium' });
+      const second = await store.createTask({ title: 'API', status: 'todo', dependsOn: [first.id] });
+      expect(second.status).toBe('blocked');
+
+      await store.updateTask({ id: first.id, status: 'done' });
+      expect((await store.listTasks()).find(t => t.id === second.id)?.status).toBe('todo');
+    });
+
+    it('should refuse to claim a task with unfinished dependencies', async () => {
+      const first = await store.createTask({ title: 'Schema', complexity: 'medium' });
+      const second = await store.createTask({
+        title: 'API',
+        complexity: 'medium',
+        dependsOn: [first.id],
+      });
+
+      await expect(
+        store.claimTask({ id: second.id, owner: 'impl-1' })
+      ).rejects.toThrow('unfinished dependencies');
+    });
+
+    it('should unblock dependents when the last prerequisite is approved', async () => {
+      const first = await store.createTask({ title: 'Schema', complexity: 'complex' });
+      const second = await store.createTask({ title: 'Types', complexity: 'simple' });
+      const third = await store.createTask({
+        title: 'API',
+        complexity: 'medium',
+        dependsOn: [first.id, second.id],
+      });
+
+      await store.claimTask({ id: first.id, owner: 'impl-1' });
+      await store.submitTaskForReview({ id: first.id, owner: 'impl-1', reviewNotes: 'Done' });
+      await store.approveTask({ id: first.id });
+
+      let tasks = await store.listTasks();
+      expect(tasks.find((t) => t.id === third.id)?.status).toBe('blocked');
+
+      await store.updateTask({ id: second.id, status: 'done' });
+
+      tasks = await store.listTasks();
+      expect(tasks.find((t) => t.id === third.id)?.status).toBe('todo');
+    });
+
+    it('should reject unknown dependencies', async () => {
+      await expect(
+        store.createTask({ title: 'Orphan', dependsOn: ['missing-id'] })
+      ).rejects.toThrow('Dependency not found');
+    });
+
+    it('should reject dependencies on another project\'s tasks', async () => {
+      const other = await store.createTask({ title: 'Other', complexity: 'simple', projectRoot: '/other' });
+      const task = await store.createTask({ title: 'Mine', complexity: 'simple', projectRoot: '/repo' });
+
+      await expect(
+        store.createTask({ title: 'Cross', projectRoot: '/repo', dependsOn: [other.id] })
+      ).rejects.toThrow(`Dependency ${other.id} belongs to another project (/other)`);
+      await expect(
+        store.updateTask({ id: task.id, dependsOn: [other.id] })
+      ).rejects.toThrow('belongs to another project');
+    });
+
+    it('should reject dependency cycles on update', async () => {
+      const first = await store.createTask({ title: 'A', complexity: 'simple' });
+      const second = await store.createTask({
+        title: 'B',
+        complexity: 'simple',
+        dependsOn: [first.id],
+      });
+
+      await expect(
+        store.updateTask({ id: first.id, dependsOn: [second.id] })
+      ).rejects.toThrow('Dependency cycle detected');
+    });
+  });
+
+  describe('Task History', () => {
+    it('should record status and owner transitions with their actor', async () => {
+      const task = await store.createTask({ title: 'Audit me', complexity: 'medium', actor: 'planner' });
+      await store.claimTask({ id: task.id, owner: 'impl-1' });
+      await store.updateTask({ id: task.id, title: 'Audited', actor: 'planner' });
+
+      const events = await store.listTaskEvents({ taskId: task.id });
+      expect(events.map((e) => [e.type, e.field, e.from, e.to, e.actor])).toEqual([
+        ['created', undefined, undefined, 'todo', 'planner'],
+        ['status', 'status', 'todo', 'in_progress', 'impl-1'],
+        ['owner', 'owner', undefined, 'impl-1', 'impl-1'],
+        ['field', 'title', 'Audit me', 'Audited', 'planner'],
+      ]);
+    });
+
+    it('should keep every round of review feedback', async () => {
+      const task = await store.createTask({ title: 'Reviewed twice', complexity: 'complex' });
+      await store.claimTask({ id: task.id, owner: 'impl-1' });
+      for (const round of ['Add tests', 'Add tests']) {
+        await store.submitTaskForReview({ id: task.id, owner: 'impl-1', reviewNotes: 'Ready' });
+        await store.requestTaskChanges({ id: task.id, feedback: round, actor: 'planner' });
+      }
+      await store.submitTaskForReview({ id: task.id, owner: 'impl-1', reviewNotes: 'Tests added' });
+      await store.approveTask({ id: task.id, actor: 'planner' });
+
+      const events = await store.listTaskEvents({ taskId: task.id });
+      expect(events.filter((e) => e.type === 'review_requested').map((e) => e.to))
+        .toEqual(['Ready', 'Ready', 'Tests added']);
+      expect(events.filter((e) => e.type === 'review_feedback').map((e) => e.to))
+        .toEqual(['Add tests', 'Add tests', 'Approved']);
+    });
+
+    it('should attribute automatic unblocking to the system', async () => {
+      const first = await store.createTask({ title: 'First', complexity: 'simple' });
+      const second = await store.createTask({ title: 'Second', complexity: 'simple', dependsOn: [first.id] });
+      await store.updateTask({ id: first.id, status: 'done' });
+
+      const events = await store.listTaskEvents({ taskId: second.id });
+      expect(events.at(-1)).toMatchObject({ type: 'status', from: 'blocked', to: 'todo', actor: 'system' });
+    });
+  });
+
+  describe('Task Priority', () => {
+    it('should list tasks by priority and due date', async () => {
+      await store.createTask({ title: 'Later', priority: 'P3' });
+      await store.createTask({ title: 'Normal' });
+      await store.createTask({ title: 'Deadline', dueAt: '2026-01-01T00:00:00Z' });
+      await store.createTask({ title: 'Urgent', priority: 'P0' });
+
+      const tasks = await store.listTasks();
+      expect(tasks.map((t) => t.title)).toEqual(['Urgent', 'Deadline', 'Normal', 'Later']);
+      expect(tasks[1].dueAt).toBe('2026-01-01T00:00:00.000Z');
+    });
+
+    it('should claim the most urgent eligible task exactly once', async () => {
+      await store.createTask({ title: 'Normal', projectRoot: '/repo' });
+      const urgent = await store.createTask({ title: 'Urgent', priority: 'P1', projectRoot: '/repo' });
+
+      const first = await store.claimNextTask({ owner: 'impl-1', projectRoot: '/repo' });
+      expect(first).toMatchObject({ id: urgent.id, owner: 'impl-1', status: 'in_progress' });
+
+      const second = await store.claimNextTask({ owner: 'impl-2', projectRoot: '/repo' });
+      expect(second?.title).toBe('Normal');
+
+      expect(await store.claimNextTask({ owner: 'impl-3', projectRoot: '/repo' })).toBeNull();
+    });
+  });
+
   describe('Complexity Levels', () => {
     it('should create tasks with all complexity levels', async () => {
       const simple = await store.createTask({ title: 'Simple', complexity: 'simple' });
@@ -238,6 +460,145 @@ describe('SqliteStore', () => {
         })
       ).rejects.toThrow('owned by impl-1');
     });
+
+    it('should reject locks that overlap an active pattern', async () => {
+      await store.acquireLock({ path: 'src/api/**', owner: 'impl-1' });
+
+      await expect(
+        store.acquireLock({ path: 'src/api/users.ts', owner: 'impl-2' })
+      ).rejects.toThrow('Lock already active for src/api/** (exclusive, held by impl-1), which overlaps src/api/users.ts');
+
+      const other = await store.acquireLock({ path: 'src/web/index.ts', owner: 'impl-2' });
+      expect(other.status).toBe('active');
+    });
+
+    it('should let readers share a lock and keep writers out', async () => {
+      await store.acquireLock({ path: 'schema.sql', owner: 'impl-1', mode: 'shared' });
+      const second = await store.acquireLock({ path: 'schema.sql', owner: 'impl-2', mode: 'shared' });
+      expect(second.mode).toBe('shared');
+
+      await expect(
+        store.acquireLock({ path: 'schema.sql', owner: 'impl-3' })
+      ).rejects.toThrow('(shared, held by impl-1)');
+
+      await store.releaseLock({ path: 'schema.sql', owner: 'impl-1' });
+      await store.releaseLock({ path: 'schema.sql', owner: 'impl-2' });
+      const writer = await store.acquireLock({ path: 'schema.sql', owner: 'impl-3' });
+      expect(writer.mode).toBe('exclusive');
+
+      await expect(
+        store.acquireLock({ path: 'schema.sql', owner: 'impl-1', mode: 'shared' })
+      ).rejects.toThrow('(exclusive, held by impl-3)');
+    });
+
+    it('should require an owner to release one of several shared holders', async () => {
+      await store.acquireLock({ path: 'schema.sql', owner: 'impl-1', mode: 'shared' });
+      await store.acquireLock({ path: 'schema.sql', owner: 'impl-2', mode: 'shared' });
+
+      await expect(store.releaseLock({ path: 'schema.sql' })).rejects.toThrow('shared by impl-1, impl-2');
+
+      const released = await store.releaseLock({ path: 'schema.sql', owner: 'impl-2' });
+      expect(released.owner).toBe('impl-2');
+      const active = await store.listLocks({ status: 'active' });
+      expect(active.map(l => l.owner)).toEqual(['impl-1']);
+    });
+  });
+
+  describe('Lock Leases', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should release expired leases and log lock_expired', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+      const lock = await store.acquireLock({ path: 'src/a.ts', owner: 'impl-1', ttlSeconds: 30 });
+      expect(lock.expiresAt).toBe('2025-01-01T00:00:30.000Z');
+
+      vi.setSystemTime(new Date('2025-01-01T00:00:31Z'));
+      const taken = await store.acquireLock({ path: 'src/a.ts', owner: 'impl-2' });
+      expect(taken.owner).toBe('impl-2');
+
+      const active = await store.listLocks({ status: 'active' });
+      expect(active.map(l => l.owner)).toEqual(['impl-2']);
+
+      const events = await fs.readFile(path.join(logDir, 'events.jsonl'), 'utf8');
+      expect(events).toContain('"event":"lock_expired"');
+    });
+
+    it('should extend a lease on renew', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+      await store.acquireLock({ path: 'src/a.ts', owner: 'impl-1', ttlSeconds: 30 });
+
+      vi.setSystemTime(new Date('2025-01-01T00:00:20Z'));
+      const renewed = await store.renewLock({ path: 'src/a.ts', owner: 'impl-1' });
+      expect(renewed.expiresAt).toBe('2025-01-01T00:00:50.000Z');
+
+      vi.setSystemTime(new Date('2025-01-01T00:00:40Z'));
+      await expect(
+        store.acquireLock({ path: 'src/a.ts', owner: 'impl-2' })
+      ).rejects.toThrow('Lock already active');
+    });
+
+    it('should refuse to renew a lock without a TTL', async () => {
+      await store.acquireLock({ path: 'src/a.ts', owner: 'impl-1' });
+      await expect(
+        store.renewLock({ path: 'src/a.ts', owner: 'impl-1' })
+      ).rejects.toThrow('has no TTL');
+    });
+  });
+
+  describe('Lock Wait Queue', () => {
+    it('should hand a released lock to waiters in FIFO order', async () => {
+      await store.acquireLock({ path: 'src/a.ts', owner: 'impl-1' });
+
+      const first = store.waitForLock({ path: 'src/a.ts', owner: 'impl-2', timeoutMs: 5000 });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const second = store.waitForLock({ path: 'src/a.ts', owner: 'impl-3', timeoutMs: 5000 });
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      const waiting = await store.listLockWaiters({ status: 'waiting' });
+      expect(waiting.map(w => w.owner)).toEqual(['impl-2', 'impl-3']);
+
+      await store.releaseLock({ path: 'src/a.ts', owner: 'impl-1' });
+      const firstLock = await first;
+      expect(firstLock.owner).toBe('impl-2');
+
+      await store.releaseLock({ path: 'src/a.ts', owner: 'impl-2' });
+      const secondLock = await second;
+      expect(secondLock.owner).toBe('impl-3');
+
+      const events = await fs.readFile(path.join(logDir, 'events.jsonl'), 'utf8');
+      expect(events).toContain('"event":"lock_handoff"');
+    });
+
+    it('should not let new readers jump ahead of a queued writer', async () => {
+      await store.acquireLock({ path: 'schema.sql', owner: 'reader-1', mode: 'shared' });
+      const writer = store.waitForLock({ path: 'schema.sql', owner: 'writer', timeoutMs: 5000 });
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      await expect(
+        store.acquireLock({ path: 'schema.sql', owner: 'reader-2', mode: 'shared' })
+      ).rejects.toThrow('queued for writer');
+
+      await store.releaseLock({ path: 'schema.sql', owner: 'reader-1' });
+      const lock = await writer;
+      expect(lock.owner).toBe('writer');
+      expect(lock.mode).toBe('exclusive');
+    });
+
+    it('should time out and leave the queue', async () => {
+      await store.acquireLock({ path: 'src/a.ts', owner: 'impl-1' });
+
+      await expect(
+        store.waitForLock({ path: 'src/a.ts', owner: 'impl-2', timeoutMs: 100 })
+      ).rejects.toThrow('Timed out after 100ms');
+
+      expect(await store.listLockWaiters({ status: 'waiting' })).toHaveLength(0);
+      await store.releaseLock({ path: 'src/a.ts', owner: 'impl-1' });
+      expect(await store.listLocks({ status: 'active' })).toHaveLength(0);
+    });
   });
 
   describe('Notes', () => {
@@ -265,6 +626,86 @@ describe('SqliteStore', () => {
     });
   });
 
+  describe('Project Scoping', () => {
+    it('should keep tasks and notes separate per project', async () => {
+      await store.createTask({ title: 'A task', complexity: 'simple', projectRoot: '/proj/a' });
+      await store.createTask({ title: 'B task', complexity: 'simple', projectRoot: '/proj/b' });
+      await store.appendNote({ text: 'A note', projectRoot: '/proj/a' });
+      await store.appendNote({ text: 'B note', projectRoot: '/proj/b' });
+
+      const aTasks = await store.listTasks({ projectRoot: '/proj/a' });
+      expect(aTasks.map(t => t.title)).toEqual(['A task']);
+      expect(aTasks[0].projectRoot).toBe('/proj/a');
+
+      const bNotes = await store.listNotes(undefined, '/proj/b');
+      expect(bNotes.map(n => n.text)).toEqual(['B note']);
+
+      const state = await store.status('/proj/a');
+      expect(state.tasks).toHaveLength(1);
+      expect(state.notes).toHaveLength(1);
+
+      // Unscoped queries still see everything
+      expect(await store.listTasks()).toHaveLength(2);
+    });
+
+    it('should allow the same path to be locked in different projects', async () => {
+      await store.acquireLock({ path: 'src/index.ts', owner: 'impl-1', projectRoot: '/proj/a' });
+      await store.acquireLock({ path: 'src/index.ts', owner: 'impl-2', projectRoot: '/proj/b' });
+
+      await expect(
+        store.acquireLock({ path: 'src/index.ts', owner: 'impl-3', projectRoot: '/proj/a' })
+      ).rejects.toThrow('Lock already active');
+
+      const bLocks = await store.listLocks({ projectRoot: '/proj/b' });
+      expect(bLocks).toHaveLength(1);
+      expect(bLocks[0].owner).toBe('impl-2');
+    });
+
+    it('should allow re-acquiring a released lock', async () => {
+      await store.acquireLock({ path: 'src/index.ts', owner: 'impl-1', projectRoot: '/proj/a' });
+      await store.releaseLock({ path: 'src/index.ts', owner: 'impl-1', projectRoot: '/proj/a' });
+      const lock = await store.acquireLock({ path: 'src/index.ts', owner: 'impl-2', projectRoot: '/proj/a' });
+
+      expect(lock.status).toBe('active');
+      expect(await store.listLocks({ projectRoot: '/proj/a' })).toHaveLength(2);
+    });
+
+    it('should only reset the given project', async () => {
+      await store.createTask({ title: 'A task', complexity: 'simple', projectRoot: '/proj/a' });
+      await store.createTask({ title: 'B task', complexity: 'simple', projectRoot: '/proj/b' });
+      await store.acquireLock({ path: 'src/index.ts', projectRoot: '/proj/a' });
+      await store.acquireLock({ path: 'src/index.ts', projectRoot: '/proj/b' });
+      await store.appendNote({ text: 'A note', projectRoot: '/proj/a' });
+      await store.appendNote({ text: 'B note', projectRoot: '/proj/b' });
+
+      const result = await store.resetSession('/proj/a');
+
+      expect(result.tasksCleared).toBe(1);
+      expect(result.locksCleared).toBe(1);
+      expect(result.notesCleared).toBe(1);
+
+      const remaining = await store.status();
+      expect(remaining.tasks.map(t => t.projectRoot)).toEqual(['/proj/b']);
+      expect(remaining.locks.map(l => l.projectRoot)).toEqual(['/proj/b']);
+      expect(remaining.notes.map(n => n.projectRoot)).toEqual(['/proj/b']);
+    });
+
+    it('should archive open discussions and clear history on reset', async () => {
+      await store.setProjectContext({ projectRoot: '/proj/a', description: 'A', endState: 'Done', status: 'in_progress' });
+      await store.createTask({ title: 'A task', complexity: 'simple', projectRoot: '/proj/a' });
+      await store.createDiscussion({
+        topic: 'Pending', category: 'question', priority: 'medium', message: '?', createdBy: 'planner', projectRoot: '/proj/a',
+      });
+
+      const result = await store.resetSession('/proj/a', { keepProjectContext: true });
+
+      expect(result.discussionsArchived).toBe(1);
+      expect((await store.listDiscussions({ projectRoot: '/proj/a' }))[0].status).toBe('archived');
+      expect(await store.listTaskEvents({ projectRoot: '/proj/a' })).toEqual([]);
+      expect((await store.getProjectContext('/proj/a'))?.status).toBe('planning');
+    });
+  });
+
   describe('Project Context', () => {
     it('should set and get project context', async () => {
       const context = await store.setProjectContext({
@@ -395,6 +836,26 @@ describe('SqliteStore', () => {
 
       const blocking = await store.listDiscussions({ status: 'waiting' });
       expect(blocking).toHaveLength(1);
+
+      const all = await store.listDiscussions({ projectRoot: '/test/project' });
+      expect(all.map(d => d.id)[0]).toBe(discussion.id);
+    });
+
+    it('should archive and delete old discussions', async () => {
+      const { discussion } = await store.createDiscussion({
+        topic: 'Old', category: 'other', priority: 'low', message: 'Test', createdBy: 'planner', projectRoot: '/test/project',
+      });
+      await store.resolveDiscussion({ discussionId: discussion.id, decision: 'Done', reasoning: 'Why not', decidedBy: 'planner' });
+      await expect(
+        store.replyToDiscussion({ discussionId: discussion.id, author: 'impl-1', message: 'Late' })
+      ).rejects.toThrow('Cannot reply to resolved discussion');
+
+      expect(await store.archiveOldDiscussions({ olderThanDays: 1 })).toBe(0);
+      expect(await store.archiveOldDiscussions({ olderThanDays: -1 })).toBe(1);
+      expect((await store.getDiscussion(discussion.id))?.discussion.status).toBe('archived');
+
+      expect(await store.deleteArchivedDiscussions({ olderThanDays: -1 })).toBe(1);
+      expect(await store.getDiscussion(discussion.id)).toBeNull();
     });
   });
 
@@ -489,4 +950,66 @@ describe('SqliteStore', () => {
       expect(notes.length).toBeGreaterThan(0);
     });
   });
+
+  describe('Session Export and Import', () => {
+    const projectRoot = '/proj/a';
+
+    async function seedSession() {
+      await store.setProjectContext({ projectRoot, description: 'App', endState: 'Shipped' });
+      const base = await store.createTask({ title: 'Base', complexity: 'simple', projectRoot });
+      const dependent = await store.createTask({ title: 'Dependent', complexity: 'simple', projectRoot, dependsOn: [base.id] });
+      await store.acquireLock({ path: 'src/a.ts', owner: 'impl-1', projectRoot });
+      await store.appendNote({ text: 'Started', author: 'planner', projectRoot });
+      await store.registerImplementer({ name: 'impl-1', type: 'codex', projectRoot });
+      const { discussion } = await store.createDiscussion({
+        topic: 'Schema?', category: 'architecture', priority: 'high', message: 'Which one?', createdBy: 'impl-1', projectRoot,
+      });
+      await store.replyToDiscussion({ discussionId: discussion.id, author: 'planner', message: 'Use v2' });
+      await store.resolveDiscussion({ discussionId: discussion.id, decision: 'v2', reasoning: 'Simpler', decidedBy: 'planner', linkedTaskId: dependent.id });
+      await store.createTask({ title: 'Elsewhere', complexity: 'simple', projectRoot: '/proj/b' });
+      return { base, dependent, discussion };
+    }
+
+    it('should export one project and import it into an empty store', async () => {
+      await seedSession();
+      const exported = await store.exportSession(projectRoot);
+      expect(exported.tasks.map(t => t.title).sort()).toEqual(['Base', 'Dependent']);
+      expect(exported.discussionMessages).toHaveLength(2);
+      expect(exported.taskEvents.length).toBeGreaterThan(0);
+
+      const copy = createStore(path.join(tempDir, 'copy'), logDir);
+      await copy.init();
+      const result = await copy.importSession(exported);
+      expect(result.imported).toMatchObject({ projectContext: 1, tasks: 2, locks: 1, notes: 1, implementers: 1, discussions: 1 });
+      expect(await copy.exportSession(projectRoot)).toEqual(exported);
+    });
+
+    it('should fail, skip, replace or rename on conflicting IDs', async () => {
+      const { base, dependent, discussion } = await seedSession();
+      const exported = await store.exportSession(projectRoot);
+
+      await expect(store.importSession(exported)).rejects.toThrow(/Import conflicts with \d+ existing record\(s\)/);
+      expect(await store.listTasks({ projectRoot })).toHaveLength(2);
+
+      const skipped = await store.importSession(exported, { onConflict: 'skip' });
+      expect(skipped.imported.tasks).toBe(0);
+      expect(skipped.skipped).toMatchObject({ projectContext: 1, tasks: 2, discussionMessages: 2 });
+
+      const edited = { ...exported, tasks: exported.tasks.map(t => ({ ...t, title: `${t.title} (restored)` })) };
+      await store.importSession(edited, { onConflict: 'replace' });
+      expect((await store.listTasks({ projectRoot })).map(t => t.title).sort()).toEqual(['Base (restored)', 'Dependent (restored)']);
+
+      const renamed = await store.importSession(exported, { onConflict: 'rename' });
+      expect(renamed.renamed.tasks).toBe(2);
+      const tasks = await store.listTasks({ projectRoot });
+      expect(tasks).toHaveLength(4);
+      const copy = tasks.find(t => t.title === 'Dependent' && t.id !== dependent.id);
+      const baseCopy = tasks.find(t => t.title === 'Base' && t.id !== base.id);
+      expect(copy?.dependsOn).toEqual([baseCopy?.id]);
+      const discussions = await store.listDiscussions({ projectRoot });
+      const discussionCopy = discussions.find(d => d.id !== discussion.id);
+      expect(discussionCopy?.linkedTaskId).toBe(copy?.id);
+      expect((await store.getDiscussion(discussionCopy!.id))?.messages).toHaveLength(2);
+    });
+  });
 });
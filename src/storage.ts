@@ -3,42 +3,90 @@ import path from "node:path";
 import crypto from "node:crypto";
 import Database from "better-sqlite3";
 import { ensureDir, sleep } from "./utils.js";
-import type { Config } from "./config.js";
+import { assertValidDependencies, unmetDependencies } from "./graph.js";
+import { lockRequestsConflict } from "./lockPatterns.js";
+import { backfillProjectRoots, migrate, type MigrationResult } from "./migrations.js";
+import { compareTasks, DEFAULT_TASK_PRIORITY, normalizeDueAt, pickNextTask } from "./taskOrder.js";
+import type { Config, LauncherBackend } from "./config.js";
 
 export type TaskStatus = "todo" | "in_progress" | "blocked" | "review" | "done";
 export type TaskComplexity = "simple" | "medium" | "complex" | "critical";
 export type TaskIsolation = "shared" | "worktree";
+export type TaskPriority = "P0" | "P1" | "P2" | "P3";
 export type LockStatus = "active" | "resolved";
+export type LockMode = "shared" | "exclusive";
+export type LockWaiterStatus = "waiting" | "granted" | "timed_out";
 
 export type Task = {
   id: string;
+  projectRoot?: string;        // Project the task belongs to (unset for legacy, unscoped tasks)
   title: string;
   description?: string;
   status: TaskStatus;
   complexity: TaskComplexity;
   isolation: TaskIsolation;
+  priority?: TaskPriority;     // P0 (most urgent) to P3; defaults to P2
+  dueAt?: string;
   owner?: string;
   tags?: string[];
   metadata?: Record<string, unknown>;
+  dependsOn?: string[];        // IDs of tasks that must be done before this one can be claimed
   // Review workflow fields
   reviewNotes?: string;        // Notes from implementer when submitting for review
   reviewFeedback?: string;     // Feedback from planner after review
   reviewRequestedAt?: string;  // When review was requested
+  version?: number;            // Bumped on every write; unset on legacy JSON tasks (treated as 1)
   createdAt: string;
   updatedAt: string;
 };
 
 export type Lock = {
+  id: string;
+  projectRoot?: string;
   path: string;
   owner?: string;
   note?: string;
   status: LockStatus;
+  mode: LockMode;       // shared locks may be held by several readers at once
+  ttlSeconds?: number;  // Lease length; locks without one never expire
+  expiresAt?: string;   // When the lease runs out unless renewed
+  createdAt: string;
+  updatedAt: string;
+};
+
+// A pending lock_acquire({ wait: true }), served in FIFO order as locks are released
+export type LockWaiter = {
+  id: string;
+  projectRoot?: string;
+  path: string;
+  owner?: string;
+  note?: string;
+  mode: LockMode;
+  ttlSeconds?: number;
+  status: LockWaiterStatus;
+  lockId?: string;      // Lock handed to the waiter once granted
+  deadline: string;     // Waiters still queued after this time out
   createdAt: string;
   updatedAt: string;
 };
 
+export type TaskEventType = "created" | "status" | "owner" | "field" | "review_requested" | "review_feedback";
+
+export type TaskEvent = {
+  id: string;
+  taskId: string;
+  projectRoot?: string;
+  type: TaskEventType;
+  field?: string;       // Task field that changed
+  from?: string;        // Previous value (JSON for non-string fields)
+  to?: string;          // New value; the notes or feedback text for review events
+  actor?: string;       // Who made the change
+  createdAt: string;
+};
+
 export type Note = {
   id: string;
+  projectRoot?: string;
   text: string;
   author?: string;
   createdAt: string;
@@ -55,24 +103,31 @@ export type ProjectContext = {
   acceptanceCriteria?: string[];
   tests?: string[];
   implementationPlan?: string[];
-  preferredImplementer?: "claude" | "codex";
+  preferredImplementer?: string;  // Agent profile name
   status: ProjectStatus;
   createdAt: string;
   updatedAt: string;
 };
 
 export type ImplementerIsolation = "shared" | "worktree";
+// Launcher backends plus the foreground `run-implementer` supervisor
+export type ImplementerLauncher = LauncherBackend | "headless";
 
 export type Implementer = {
   id: string;
   name: string;
-  type: "claude" | "codex";
+  type: string;             // Agent profile name (claude, codex or a configured one)
   projectRoot: string;
   status: "active" | "stopped";
   pid?: number;
   isolation: ImplementerIsolation;
   worktreePath?: string;    // Path to worktree directory (if isolation="worktree")
   branchName?: string;      // Git branch name for this implementer
+  lastSeenAt?: string;      // Last heartbeat (registration counts as the first)
+  launcher?: ImplementerLauncher;  // Backend that started it
+  tmuxTarget?: string;      // session:window when launched in tmux
+  logFile?: string;         // Captured stdout/stderr (background and headless)
+  exitCode?: number;        // Exit code of the last process run (headless)
   createdAt: string;
   updatedAt: string;
 };
@@ -116,18 +171,50 @@ export type State = {
   notes: Note[];
 };
 
+// Everything recorded for one project, as moved by session export and import.
+// Lock waiters are left out: they belong to requests blocked in a live process.
+export type SessionData = {
+  projectContext: ProjectContext | null;
+  tasks: Task[];
+  taskEvents: TaskEvent[];
+  locks: Lock[];
+  notes: Note[];
+  implementers: Implementer[];
+  discussions: Discussion[];
+  discussionMessages: DiscussionMessage[];
+};
+
+export type SessionRecordKind = keyof SessionData;
+export type SessionCounts = Record<SessionRecordKind, number>;
+
+// What to do with imported records whose ID (or project root, for the project
+// context) already exists: fail the import, keep the existing record, overwrite
+// it, or import under a new ID
+export type ImportConflictMode = "fail" | "skip" | "replace" | "rename";
+
+export type ImportResult = {
+  imported: SessionCounts;
+  skipped: SessionCounts;
+  renamed: SessionCounts;
+};
+
 export interface Store {
   init(): Promise<void>;
-  status(): Promise<State>;
+  status(projectRoot?: string): Promise<State>;
   createTask(input: {
+    projectRoot?: string;
     title: string;
     description?: string;
     status?: TaskStatus;
     complexity?: TaskComplexity;
     isolation?: TaskIsolation;
+    priority?: TaskPriority;
+    dueAt?: string | null;  // null clears the due date
     owner?: string;
     tags?: string[];
     metadata?: Record<string, unknown>;
+    dependsOn?: string[];
+    actor?: string;
   }): Promise<Task>;
   updateTask(input: {
     id: string;
@@ -136,12 +223,17 @@ export interface Store {
     status?: TaskStatus;
     complexity?: TaskComplexity;
     isolation?: TaskIsolation;
-    owner?: string;
+    priority?: TaskPriority;
+    dueAt?: string | null;  // null clears the due date
+    owner?: string | null;  // null releases the task
     tags?: string[];
     metadata?: Record<string, unknown>;
+    dependsOn?: string[];
     reviewNotes?: string;
     reviewFeedback?: string;
     reviewRequestedAt?: string;
+    actor?: string;
+    expectedVersion?: number;  // Reject the write if the task has changed since this version
   }): Promise<Task>;
   submitTaskForReview(input: {
     id: string;
@@ -151,23 +243,54 @@ export interface Store {
   approveTask(input: {
     id: string;
     feedback?: string;
+    actor?: string;
   }): Promise<Task>;
   requestTaskChanges(input: {
     id: string;
     feedback: string;
+    actor?: string;
   }): Promise<Task>;
+  // Claims only succeed on todo tasks that are unowned or already assigned to the claimant
   claimTask(input: { id: string; owner: string }): Promise<Task>;
+  // Atomically claim the most urgent eligible task for an implementer; null when none is left
+  claimNextTask(input: {
+    owner: string;
+    projectRoot?: string;
+    isolation?: ImplementerIsolation;
+    type?: string;
+  }): Promise<Task | null>;
+  listTaskEvents(filters?: { taskId?: string; projectRoot?: string }): Promise<TaskEvent[]>;
   listTasks(filters?: {
+    projectRoot?: string;
     status?: TaskStatus;
     owner?: string;
     tag?: string;
     limit?: number;
   }): Promise<Task[]>;
-  acquireLock(input: { path: string; owner?: string; note?: string }): Promise<Lock>;
-  releaseLock(input: { path: string; owner?: string }): Promise<Lock>;
-  listLocks(filters?: { status?: LockStatus; owner?: string }): Promise<Lock[]>;
-  appendNote(input: { text: string; author?: string }): Promise<Note>;
-  listNotes(limit?: number): Promise<Note[]>;
+  acquireLock(input: {
+    path: string;
+    owner?: string;
+    note?: string;
+    projectRoot?: string;
+    ttlSeconds?: number;
+    mode?: LockMode;
+  }): Promise<Lock>;
+  waitForLock(input: {
+    path: string;
+    owner?: string;
+    note?: string;
+    projectRoot?: string;
+    ttlSeconds?: number;
+    mode?: LockMode;
+    timeoutMs?: number;
+    onQueued?: (waiter: LockWaiter) => Promise<void>;  // Called once the request joins the queue
+  }): Promise<Lock>;
+  listLockWaiters(filters?: { projectRoot?: string; status?: LockWaiterStatus }): Promise<LockWaiter[]>;
+  renewLock(input: { path: string; owner?: string; projectRoot?: string; ttlSeconds?: number }): Promise<Lock>;
+  releaseLock(input: { path: string; owner?: string; projectRoot?: string }): Promise<Lock>;
+  listLocks(filters?: { status?: LockStatus; owner?: string; projectRoot?: string }): Promise<Lock[]>;
+  appendNote(input: { text: string; author?: string; projectRoot?: string }): Promise<Note>;
+  listNotes(limit?: number, projectRoot?: string): Promise<Note[]>;
   appendLogEntry(event: string, payload?: Record<string, unknown>): Promise<void>;
   setProjectContext(input: {
     projectRoot: string;
@@ -178,7 +301,7 @@ export interface Store {
     acceptanceCriteria?: string[];
     tests?: string[];
     implementationPlan?: string[];
-    preferredImplementer?: "claude" | "codex";
+    preferredImplementer?: string;  // Agent profile name
     status?: ProjectStatus;
   }): Promise<ProjectContext>;
   getProjectContext(projectRoot: string): Promise<ProjectContext | null>;
@@ -186,14 +309,19 @@ export interface Store {
   updateProjectStatus(projectRoot: string, status: ProjectStatus): Promise<ProjectContext>;
   registerImplementer(input: {
     name: string;
-    type: "claude" | "codex";
+    type: string;
     projectRoot: string;
     pid?: number;
     isolation?: ImplementerIsolation;
     worktreePath?: string;
     branchName?: string;
+    launcher?: ImplementerLauncher;
+    tmuxTarget?: string;
+    logFile?: string;
   }): Promise<Implementer>;
   updateImplementer(id: string, status: "active" | "stopped"): Promise<Implementer>;
+  updateImplementerProcess(id: string, input: { pid?: number | null; exitCode?: number | null }): Promise<Implementer>;
+  heartbeatImplementer(input: { name: string; projectRoot: string }): Promise<Implementer>;
   listImplementers(projectRoot?: string): Promise<Implementer[]>;
   resetImplementers(projectRoot: string): Promise<number>;
 
@@ -257,32 +385,320 @@ export interface Store {
     olderThanDays?: number;  // Delete archived discussions older than X days
     projectRoot?: string;
   }): Promise<number>;  // Returns count of deleted
+
+  // Session export and import (see bundle.ts for the file format)
+  exportSession(projectRoot: string): Promise<SessionData>;
+  importSession(data: SessionData, options?: { onConflict?: ImportConflictMode }): Promise<ImportResult>;
 }
 
 function nowIso(): string {
   return new Date().toISOString();
 }
 
+function assertClaimable(task: Task, owner: string): void {
+  if (task.status !== "todo") {
+    throw new Error(`Task ${task.id} is not claimable (status: ${task.status}${task.owner ? `, owner: ${task.owner}` : ""})`);
+  }
+  if (task.owner && task.owner !== owner) {
+    throw new Error(`Task ${task.id} is already assigned to ${task.owner}`);
+  }
+}
+
+function versionConflictError(id: string, expected: number, actual: number): Error {
+  return new Error(`Task ${id} has changed since version ${expected} (now version ${actual}); re-read it and retry`);
+}
+
+// Task fields recorded in the task history
+const TASK_HISTORY_FIELDS = [
+  "status", "owner", "title", "description", "complexity", "isolation", "priority", "dueAt",
+  "tags", "metadata", "dependsOn", "reviewNotes", "reviewFeedback",
+] as const;
+
+function historyValue(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Task history entries for an update. Review notes and feedback are recorded
+ * whenever they are given, so repeated review rounds are all kept.
+ */
+function taskChanges(
+  before: Task,
+  after: Task,
+  input: { reviewNotes?: string; reviewFeedback?: string }
+): Array<Pick<TaskEvent, "type" | "field" | "from" | "to">> {
+  const changes: Array<Pick<TaskEvent, "type" | "field" | "from" | "to">> = [];
+  for (const field of TASK_HISTORY_FIELDS) {
+    const from = historyValue(before[field]);
+    const to = historyValue(after[field]);
+    if (field === "reviewNotes" || field === "reviewFeedback") {
+      if (input[field] === undefined) continue;
+      changes.push({ type: field === "reviewNotes" ? "review_requested" : "review_feedback", field, from, to });
+    } else if (from !== to) {
+      changes.push({ type: field === "status" || field === "owner" ? field : "field", field, from, to });
+    }
+  }
+  return changes;
+}
+
 async function appendLog(logDir: string, event: string, payload: Record<string, unknown>): Promise<void> {
   const logPath = path.join(logDir, "events.jsonl");
   const line = JSON.stringify({ ts: nowIso(), event, ...payload });
   await fs.appendFile(logPath, `${line}\n`, "utf8");
 }
 
-const DEFAULT_STATE: State = {
-  tasks: [],
-  locks: [],
-  notes: [],
+// A todo task with unfinished prerequisites is held as blocked until they are done
+function statusForDependencies(
+  status: TaskStatus,
+  dependsOn: string[] | undefined,
+  tasksById: Map<string, Task>
+): TaskStatus {
+  const unmet = unmetDependencies({ dependsOn }, tasksById);
+  if (status === "todo" && unmet.length > 0) return "blocked";
+  if (status === "blocked" && dependsOn?.length && unmet.length === 0) return "todo";
+  return status;
+}
+
+// Expiry timestamp for a lease starting now
+function leaseExpiry(ttlSeconds: number): string {
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0) {
+    throw new Error("ttlSeconds must be a positive number");
+  }
+  return new Date(Date.now() + ttlSeconds * 1000).toISOString();
+}
+
+// Release active locks whose lease has run out; returns the locks that expired
+function releaseExpiredLocks(locks: Lock[]): Lock[] {
+  const now = nowIso();
+  const expired = locks.filter((lock) => lock.status === "active" && lock.expiresAt && lock.expiresAt <= now);
+  for (const lock of expired) {
+    lock.status = "resolved";
+    lock.updatedAt = now;
+  }
+  return expired;
+}
+
+// Error for an acquisition that overlaps an active lock, naming the lock and its holder
+function lockConflictError(existing: Lock, requestedPath: string): Error {
+  const holder = existing.owner ? `held by ${existing.owner}` : "no owner";
+  const overlap = existing.path === requestedPath ? "" : `, which overlaps ${requestedPath}`;
+  return new Error(`Lock already active for ${existing.path} (${existing.mode}, ${holder})${overlap}`);
+}
+
+// Pick the caller's lock among the active locks on a path. Shared locks have
+// one row per holder, so the owner decides which one is meant.
+function findHeldLock(candidates: Lock[], input: { path: string; owner?: string }, notFound: string): Lock {
+  if (candidates.length === 0) throw new Error(notFound);
+  const owners = candidates.map((lock) => lock.owner ?? "unknown").join(", ");
+  if (input.owner) {
+    const lock = candidates.find((item) => item.owner === input.owner) ?? candidates.find((item) => !item.owner);
+    if (!lock) throw new Error(`Lock owned by ${owners}, not ${input.owner}`);
+    return lock;
+  }
+  if (candidates.length > 1) {
+    throw new Error(`Lock on ${input.path} is shared by ${owners}; pass owner to choose one`);
+  }
+  return candidates[0];
+}
+
+const SESSION_RECORD_KINDS = [
+  "tasks", "taskEvents", "locks", "notes", "implementers", "discussions", "discussionMessages",
+] as const;
+
+export function sessionCounts(data?: SessionData): SessionCounts {
+  return {
+    projectContext: data?.projectContext ? 1 : 0,
+    tasks: data?.tasks.length ?? 0,
+    taskEvents: data?.taskEvents.length ?? 0,
+    locks: data?.locks.length ?? 0,
+    notes: data?.notes.length ?? 0,
+    implementers: data?.implementers.length ?? 0,
+    discussions: data?.discussions.length ?? 0,
+    discussionMessages: data?.discussionMessages.length ?? 0,
+  };
+}
+
+/**
+ * Decide what an import writes, given which of its records already exist.
+ * Renamed tasks and discussions keep their references: dependencies, history,
+ * linked tasks and messages follow the new IDs.
+ */
+function planImport(
+  data: SessionData,
+  exists: (kind: SessionRecordKind, id: string) => boolean,
+  mode: ImportConflictMode
+): { data: SessionData; result: ImportResult } {
+  const conflicts: string[] = [];
+  const contextExists = data.projectContext !== null && exists("projectContext", data.projectContext.projectRoot);
+  if (contextExists) conflicts.push(`projectContext:${data.projectContext?.projectRoot}`);
+  for (const kind of SESSION_RECORD_KINDS) {
+    for (const record of data[kind]) {
+      if (exists(kind, record.id)) conflicts.push(`${kind}:${record.id}`);
+    }
+  }
+  if (mode === "fail" && conflicts.length > 0) {
+    const listed = conflicts.slice(0, 5).join(", ") + (conflicts.length > 5 ? `, and ${conflicts.length - 5} more` : "");
+    throw new Error(`Import conflicts with ${conflicts.length} existing record(s) (${listed}); import with skip, replace or rename`);
+  }
+
+  const skipped = sessionCounts();
+  const renamed = sessionCounts();
+  if (mode === "replace" || conflicts.length === 0) {
+    return { data, result: { imported: sessionCounts(data), skipped, renamed } };
+  }
+
+  // The project context is keyed by its root, so it can only be kept or replaced
+  const projectContext = contextExists ? null : data.projectContext;
+  skipped.projectContext = contextExists ? 1 : 0;
+  if (mode === "skip") {
+    const keep = <T extends { id: string }>(kind: SessionRecordKind, records: T[]): T[] => {
+      const kept = records.filter((record) => !exists(kind, record.id));
+      skipped[kind] = records.length - kept.length;
+      return kept;
+    };
+    const planned: SessionData = {
+      projectContext,
+      tasks: keep("tasks", data.tasks),
+      taskEvents: keep("taskEvents", data.taskEvents),
+      locks: keep("locks", data.locks),
+      notes: keep("notes", data.notes),
+      implementers: keep("implementers", data.implementers),
+      discussions: keep("discussions", data.discussions),
+      discussionMessages: keep("discussionMessages", data.discussionMessages),
+    };
+    return { data: planned, result: { imported: sessionCounts(planned), skipped, renamed } };
+  }
+
+  const newIds = new Map<string, string>();
+  const rename = <T extends { id: string }>(kind: SessionRecordKind, records: T[]): T[] =>
+    records.map((record) => {
+      if (!exists(kind, record.id)) return record;
+      const id = crypto.randomUUID();
+      newIds.set(`${kind}:${record.id}`, id);
+      renamed[kind] += 1;
+      return { ...record, id };
+    });
+  const taskId = (id: string) => newIds.get(`tasks:${id}`) ?? id;
+  const discussionId = (id: string) => newIds.get(`discussions:${id}`) ?? id;
+  const tasks = rename("tasks", data.tasks);
+  const discussions = rename("discussions", data.discussions);
+  const planned: SessionData = {
+    projectContext,
+    tasks: tasks.map((task) => (task.dependsOn ? { ...task, dependsOn: task.dependsOn.map(taskId) } : task)),
+    taskEvents: rename("taskEvents", data.taskEvents).map((event) => ({ ...event, taskId: taskId(event.taskId) })),
+    locks: rename("locks", data.locks),
+    notes: rename("notes", data.notes),
+    implementers: rename("implementers", data.implementers),
+    discussions: discussions.map((discussion) =>
+      discussion.linkedTaskId ? { ...discussion, linkedTaskId: taskId(discussion.linkedTaskId) } : discussion
+    ),
+    discussionMessages: rename("discussionMessages", data.discussionMessages)
+      .map((message) => ({ ...message, discussionId: discussionId(message.discussionId) })),
+  };
+  return { data: planned, result: { imported: sessionCounts(planned), skipped, renamed } };
+}
+
+// Insert records into a list, replacing any with the same ID
+function upsertById<T extends { id: string }>(list: T[], records: T[]): T[] {
+  const ids = new Set(records.map((record) => record.id));
+  return [...list.filter((item) => !ids.has(item.id)), ...records];
+}
+
+// How long lock_acquire({ wait: true }) waits by default, and how often it checks the queue
+const DEFAULT_LOCK_WAIT_MS = 30_000;
+const LOCK_WAIT_POLL_MS = 250;
+
+function newLock(input: {
+  path: string;
+  owner?: string;
+  note?: string;
+  projectRoot?: string;
+  ttlSeconds?: number;
+  mode?: LockMode;
+}): Lock {
+  return {
+    id: crypto.randomUUID(),
+    projectRoot: input.projectRoot,
+    path: input.path,
+    owner: input.owner,
+    note: input.note,
+    status: "active",
+    mode: input.mode ?? "exclusive",
+    ttlSeconds: input.ttlSeconds,
+    expiresAt: input.ttlSeconds !== undefined ? leaseExpiry(input.ttlSeconds) : undefined,
+    createdAt: nowIso(),
+    updatedAt: nowIso(),
+  };
+}
+
+// Serve a lock queue in FIFO order: a waiter is granted once no active lock and
+// no earlier waiter conflicts with it. Waiters past their deadline are timed out.
+function serveLockQueue(locks: Lock[], waiters: LockWaiter[]): { granted: Lock[]; timedOut: LockWaiter[] } {
+  const now = nowIso();
+  const timedOut = waiters.filter((waiter) => waiter.status === "waiting" && waiter.deadline <= now);
+  for (const waiter of timedOut) {
+    waiter.status = "timed_out";
+    waiter.updatedAt = now;
+  }
+
+  const active = locks.filter((lock) => lock.status === "active");
+  const ahead: LockWaiter[] = [];
+  const granted: Lock[] = [];
+  for (const waiter of waiters.filter((item) => item.status === "waiting")) {
+    const blocked = [...active, ...ahead].some(
+      (item) => item.projectRoot === waiter.projectRoot && lockRequestsConflict(item, waiter)
+    );
+    if (blocked) {
+      ahead.push(waiter);
+      continue;
+    }
+    const lock = newLock(waiter);
+    locks.push(lock);
+    waiter.status = "granted";
+    waiter.lockId = lock.id;
+    waiter.updatedAt = now;
+    active.push(lock);
+    granted.push(lock);
+  }
+  return { granted, timedOut };
+}
+
+// Open discussions are listed most urgent first
+const DISCUSSION_PRIORITY_RANK: Record<DiscussionPriority, number> = {
+  blocking: 1,
+  high: 2,
+  medium: 3,
+  low: 4,
+};
+
+function daysAgoIso(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// state.json also keeps the task history and the lock wait queue, which
+// change together with the tasks and locks they belong to
+type JsonState = State & {
+  taskEvents: TaskEvent[];
+  lockWaiters: LockWaiter[];
 };
 
+function emptyState(): JsonState {
+  return { tasks: [], locks: [], notes: [], taskEvents: [], lockWaiters: [] };
+}
+
 type ProjectContextStore = Record<string, ProjectContext>;
 
+type DiscussionStore = {
+  discussions: Discussion[];
+  messages: DiscussionMessage[];
+};
 export class JsonStore implements Store {
   private statePath: string;
   private lockPath: string;
   private contextPath: string;
 
-  constructor(private dataDir: string, private logDir: string) {
+  constructor(private dataDir: string, private logDir: string, private options: StoreOptions = {}) {
     this.statePath = path.join(this.dataDir, "state.json");
     this.lockPath = path.join(this.dataDir, "state.lock");
     this.contextPath = path.join(this.dataDir, "project_contexts.json");
@@ -291,20 +707,45 @@ export class JsonStore implements Store {
   async init(): Promise<void> {
     await ensureDir(this.dataDir);
     await ensureDir(this.logDir);
+    await this.backfillProjectRoots();
+  }
+
+  // Records written before project scoping have no projectRoot; they get the
+  // same owner as the SQLite project_root_backfill migration gives them
+  private async backfillProjectRoots(): Promise<void> {
+    const unscoped = (state: JsonState) =>
+      [state.tasks, state.notes, state.locks, state.lockWaiters, state.taskEvents]
+        .flatMap((records: Array<{ projectRoot?: string }>) => records)
+        .filter((record) => !record.projectRoot);
+    if (unscoped(await this.loadState()).length === 0) return;
+
+    const result = await this.withStateLock(async () => {
+      const contexts = Object.keys(await this.loadContexts());
+      const projectRoot = contexts.length === 1 ? contexts[0] : this.options.defaultProjectRoot;
+      if (!projectRoot) return undefined;
+      const state = await this.loadState();
+      const records = unscoped(state);
+      for (const record of records) record.projectRoot = projectRoot;
+      if (records.length > 0) await this.saveState(state);
+      return { projectRoot, updated: records.length };
+    });
+    if (result && result.updated > 0) {
+      await appendLog(this.logDir, "project_root_backfill", result);
+    }
   }
 
-  private async loadState(): Promise<State> {
+  private async loadState(): Promise<JsonState> {
     try {
       const raw = await fs.readFile(this.statePath, "utf8");
-      return { ...DEFAULT_STATE, ...JSON.parse(raw) } as State;
+      return { ...emptyState(), ...JSON.parse(raw) } as JsonState;
     } catch (error) {
       const err = error as NodeJS.ErrnoException;
-      if (err.code === "ENOENT") return { ...DEFAULT_STATE };
+      if (err.code === "ENOENT") return emptyState();
       throw error;
     }
   }
 
-  private async saveState(state: State): Promise<void> {
+  private async saveState(state: JsonState): Promise<void> {
     await fs.writeFile(this.statePath, JSON.stringify(state, null, 2), "utf8");
   }
 
@@ -333,36 +774,108 @@ export class JsonStore implements Store {
     }
   }
 
-  async status(): Promise<State> {
-    return this.loadState();
+  // Release expired leases in a loaded state, then hand any freed paths to
+  // queued waiters; returns true if the state changed
+  private async expireLocks(state: JsonState): Promise<boolean> {
+    const expired = releaseExpiredLocks(state.locks);
+    for (const lock of expired) {
+      await appendLog(this.logDir, "lock_expired", { lock });
+    }
+    const served = await this.grantLockWaiters(state);
+    return expired.length > 0 || served;
+  }
+
+  // Serve the wait queue of a loaded state; returns true if any waiter changed
+  private async grantLockWaiters(state: JsonState): Promise<boolean> {
+    const served = serveLockQueue(state.locks, state.lockWaiters);
+    await this.logLockQueue(served);
+    return served.granted.length > 0 || served.timedOut.length > 0;
+  }
+
+  private async logLockQueue(served: { granted: Lock[]; timedOut: LockWaiter[] }): Promise<void> {
+    for (const waiter of served.timedOut) {
+      await appendLog(this.logDir, "lock_wait_timeout", { waiter });
+    }
+    for (const lock of served.granted) {
+      await appendLog(this.logDir, "lock_handoff", { lock });
+    }
+  }
+
+  private recordTaskEvents(
+    state: JsonState,
+    task: Task,
+    changes: Array<Pick<TaskEvent, "type" | "field" | "from" | "to">>,
+    actor?: string
+  ): void {
+    for (const change of changes) {
+      state.taskEvents.push({
+        id: crypto.randomUUID(),
+        taskId: task.id,
+        projectRoot: task.projectRoot,
+        type: change.type,
+        field: change.field,
+        from: change.from,
+        to: change.to,
+        actor,
+        createdAt: task.updatedAt,
+      });
+    }
+  }
+
+  async status(projectRoot?: string): Promise<State> {
+    const state = await this.withStateLock(async () => {
+      const current = await this.loadState();
+      if (await this.expireLocks(current)) await this.saveState(current);
+      return current;
+    });
+    if (!projectRoot) return { tasks: state.tasks, locks: state.locks, notes: state.notes };
+    return {
+      tasks: state.tasks.filter((task) => task.projectRoot === projectRoot),
+      locks: state.locks.filter((lock) => lock.projectRoot === projectRoot),
+      notes: state.notes.filter((note) => note.projectRoot === projectRoot),
+    };
   }
 
   async createTask(input: {
+    projectRoot?: string;
     title: string;
     description?: string;
     status?: TaskStatus;
     complexity?: TaskComplexity;
     isolation?: TaskIsolation;
+    priority?: TaskPriority;
+    dueAt?: string | null;  // null clears the due date
     owner?: string;
     tags?: string[];
     metadata?: Record<string, unknown>;
+    dependsOn?: string[];
+    actor?: string;
   }): Promise<Task> {
     return this.withStateLock(async () => {
       const state = await this.loadState();
+      const id = crypto.randomUUID();
+      if (input.dependsOn?.length) assertValidDependencies(id, input.dependsOn, state.tasks, input.projectRoot);
+      const tasksById = new Map(state.tasks.map((item) => [item.id, item]));
       const task: Task = {
-        id: crypto.randomUUID(),
+        id,
+        projectRoot: input.projectRoot,
         title: input.title,
         description: input.description,
-        status: input.status ?? "todo",
+        status: statusForDependencies(input.status ?? "todo", input.dependsOn, tasksById),
         complexity: input.complexity ?? "medium",
         isolation: input.isolation ?? "shared",
+        priority: input.priority ?? DEFAULT_TASK_PRIORITY,
+        dueAt: input.dueAt ? normalizeDueAt(input.dueAt) : undefined,
         owner: input.owner,
         tags: input.tags,
         metadata: input.metadata,
+        dependsOn: input.dependsOn?.length ? input.dependsOn : undefined,
+        version: 1,
         createdAt: nowIso(),
         updatedAt: nowIso(),
       };
       state.tasks.push(task);
+      this.recordTaskEvents(state, task, [{ type: "created", to: task.status }], input.actor);
       await this.saveState(state);
       await appendLog(this.logDir, "task_create", { task });
       return task;
@@ -374,50 +887,203 @@ export class JsonStore implements Store {
     title?: string;
     description?: string;
     status?: TaskStatus;
-    owner?: string;
+    complexity?: TaskComplexity;
+    isolation?: TaskIsolation;
+    priority?: TaskPriority;
+    dueAt?: string | null;
+    owner?: string | null;
     tags?: string[];
     metadata?: Record<string, unknown>;
+    dependsOn?: string[];
+    reviewNotes?: string;
+    reviewFeedback?: string;
+    reviewRequestedAt?: string;
+    actor?: string;
+    expectedVersion?: number;
   }): Promise<Task> {
     return this.withStateLock(async () => {
       const state = await this.loadState();
       const task = state.tasks.find((item) => item.id === input.id);
       if (!task) throw new Error(`Task not found: ${input.id}`);
+      const before = { ...task };
+      const version = task.version ?? 1;
+      if (input.expectedVersion !== undefined && input.expectedVersion !== version) {
+        throw versionConflictError(task.id, input.expectedVersion, version);
+      }
+      const wasDone = task.status === "done";
+      const tasksById = new Map(state.tasks.map((item) => [item.id, item]));
+      if (input.dependsOn !== undefined) {
+        assertValidDependencies(task.id, input.dependsOn, state.tasks, task.projectRoot);
+        task.dependsOn = input.dependsOn.length ? input.dependsOn : undefined;
+        if (input.status === undefined) {
+          task.status = statusForDependencies(task.status, task.dependsOn, tasksById);
+        }
+      }
       if (input.title !== undefined) task.title = input.title;
       if (input.description !== undefined) task.description = input.description;
       if (input.status !== undefined) task.status = input.status;
-      if (input.owner !== undefined) task.owner = input.owner;
+      if (input.complexity !== undefined) task.complexity = input.complexity;
+      if (input.isolation !== undefined) task.isolation = input.isolation;
+      if (input.priority !== undefined) task.priority = input.priority;
+      if (input.dueAt !== undefined) task.dueAt = input.dueAt ? normalizeDueAt(input.dueAt) : undefined;
+      if (input.owner !== undefined) task.owner = input.owner ?? undefined;
       if (input.tags !== undefined) task.tags = input.tags;
       if (input.metadata !== undefined) task.metadata = input.metadata;
+      if (input.reviewNotes !== undefined) task.reviewNotes = input.reviewNotes;
+      if (input.reviewFeedback !== undefined) task.reviewFeedback = input.reviewFeedback;
+      if (input.reviewRequestedAt !== undefined) task.reviewRequestedAt = input.reviewRequestedAt;
+      task.version = version + 1;
       task.updatedAt = nowIso();
+      this.recordTaskEvents(state, task, taskChanges(before, task, input), input.actor);
+
+      // Release dependents whose last prerequisite just finished
+      const unblocked: string[] = [];
+      if (!wasDone && task.status === "done") {
+        for (const dependent of state.tasks) {
+          if (dependent.status !== "blocked" || !dependent.dependsOn?.includes(task.id)) continue;
+          if (unmetDependencies(dependent, tasksById).length > 0) continue;
+          const blocked = { ...dependent };
+          dependent.status = "todo";
+          dependent.version = (dependent.version ?? 1) + 1;
+          dependent.updatedAt = nowIso();
+          this.recordTaskEvents(state, dependent, taskChanges(blocked, dependent, {}), "system");
+          unblocked.push(dependent.id);
+        }
+      }
+
       await this.saveState(state);
       await appendLog(this.logDir, "task_update", { task });
+      if (unblocked.length > 0) {
+        await appendLog(this.logDir, "task_unblock", { taskId: task.id, unblocked });
+      }
       return task;
     });
   }
 
   async claimTask(input: { id: string; owner: string }): Promise<Task> {
-    return this.updateTask({ id: input.id, owner: input.owner, status: "in_progress" });
+    const state = await this.loadState();
+    const task = state.tasks.find((item) => item.id === input.id);
+    if (!task) throw new Error(`Task not found: ${input.id}`);
+    const unmet = unmetDependencies(task, new Map(state.tasks.map((item) => [item.id, item])));
+    if (unmet.length > 0) {
+      throw new Error(`Task blocked by unfinished dependencies: ${unmet.join(", ")}`);
+    }
+    assertClaimable(task, input.owner);
+    // The version check turns a claim that lost a race into an error
+    return this.updateTask({
+      id: input.id,
+      owner: input.owner,
+      status: "in_progress",
+      actor: input.owner,
+      expectedVersion: task.version ?? 1,
+    });
+  }
+
+  async claimNextTask(input: {
+    owner: string;
+    projectRoot?: string;
+    isolation?: ImplementerIsolation;
+    type?: string;
+  }): Promise<Task | null> {
+    return this.withStateLock(async () => {
+      const state = await this.loadState();
+      const candidates = input.projectRoot
+        ? state.tasks.filter((task) => task.projectRoot === input.projectRoot)
+        : state.tasks;
+      const task = pickNextTask(candidates, input);
+      if (!task) return null;
+      const before = { ...task };
+      task.owner = input.owner;
+      task.status = "in_progress";
+      task.version = (task.version ?? 1) + 1;
+      task.updatedAt = nowIso();
+      this.recordTaskEvents(state, task, taskChanges(before, task, {}), input.owner);
+      await this.saveState(state);
+      await appendLog(this.logDir, "task_update", { task });
+      return task;
+    });
+  }
+
+  private async getTask(id: string): Promise<Task> {
+    const state = await this.loadState();
+    const task = state.tasks.find((item) => item.id === id);
+    if (!task) throw new Error(`Task not found: ${id}`);
+    return task;
+  }
+
+  async submitTaskForReview(input: {
+    id: string;
+    owner: string;
+    reviewNotes: string;
+  }): Promise<Task> {
+    const task = await this.getTask(input.id);
+    if (task.owner !== input.owner) {
+      throw new Error(`Task owned by ${task.owner ?? null}, not ${input.owner}`);
+    }
+    return this.updateTask({
+      id: input.id,
+      status: "review",
+      reviewNotes: input.reviewNotes,
+      reviewRequestedAt: nowIso(),
+      actor: input.owner,
+      expectedVersion: task.version ?? 1,
+    });
   }
 
-  // Review workflow methods - not fully implemented for JSON storage
-  async submitTaskForReview(): Promise<Task> {
-    throw new Error("Review workflow requires SQLite storage. Set storage: 'sqlite' in config.");
+  async approveTask(input: {
+    id: string;
+    feedback?: string;
+    actor?: string;
+  }): Promise<Task> {
+    const task = await this.getTask(input.id);
+    if (task.status !== "review") {
+      throw new Error(`Task is not in review status (current: ${task.status})`);
+    }
+    return this.updateTask({
+      id: input.id,
+      status: "done",
+      reviewFeedback: input.feedback ?? "Approved",
+      actor: input.actor,
+      expectedVersion: task.version ?? 1,
+    });
   }
-  async approveTask(): Promise<Task> {
-    throw new Error("Review workflow requires SQLite storage.");
+
+  async requestTaskChanges(input: {
+    id: string;
+    feedback: string;
+    actor?: string;
+  }): Promise<Task> {
+    const task = await this.getTask(input.id);
+    if (task.status !== "review") {
+      throw new Error(`Task is not in review status (current: ${task.status})`);
+    }
+    return this.updateTask({
+      id: input.id,
+      status: "in_progress",  // Send back to in_progress for rework
+      reviewFeedback: input.feedback,
+      actor: input.actor,
+      expectedVersion: task.version ?? 1,
+    });
   }
-  async requestTaskChanges(): Promise<Task> {
-    throw new Error("Review workflow requires SQLite storage.");
+
+  async listTaskEvents(filters?: { taskId?: string; projectRoot?: string }): Promise<TaskEvent[]> {
+    const state = await this.loadState();
+    let events = state.taskEvents;
+    if (filters?.taskId) events = events.filter((event) => event.taskId === filters.taskId);
+    if (filters?.projectRoot) events = events.filter((event) => event.projectRoot === filters.projectRoot);
+    return [...events];
   }
 
   async listTasks(filters?: {
+    projectRoot?: string;
     status?: TaskStatus;
     owner?: string;
     tag?: string;
     limit?: number;
   }): Promise<Task[]> {
     const state = await this.loadState();
-    let tasks = [...state.tasks];
+    let tasks = [...state.tasks].sort(compareTasks);
+    if (filters?.projectRoot) tasks = tasks.filter((task) => task.projectRoot === filters.projectRoot);
     if (filters?.status) tasks = tasks.filter((task) => task.status === filters.status);
     if (filters?.owner) tasks = tasks.filter((task) => task.owner === filters.owner);
     if (filters?.tag) tasks = tasks.filter((task) => task.tags?.includes(filters.tag ?? ""));
@@ -425,19 +1091,25 @@ export class JsonStore implements Store {
     return tasks;
   }
 
-  async acquireLock(input: { path: string; owner?: string; note?: string }): Promise<Lock> {
+  async acquireLock(input: {
+    path: string;
+    owner?: string;
+    note?: string;
+    projectRoot?: string;
+    ttlSeconds?: number;
+    mode?: LockMode;
+  }): Promise<Lock> {
     return this.withStateLock(async () => {
       const state = await this.loadState();
-      const existing = state.locks.find((lock) => lock.path === input.path && lock.status === "active");
-      if (existing) throw new Error(`Lock already active for ${input.path}`);
-      const lock: Lock = {
-        path: input.path,
-        owner: input.owner,
-        note: input.note,
-        status: "active",
-        createdAt: nowIso(),
-        updatedAt: nowIso(),
-      };
+      await this.expireLocks(state);
+      const lock = newLock(input);
+      const blocker = this.findLockBlocker(state, lock);
+      if (blocker?.lock) throw lockConflictError(blocker.lock, input.path);
+      if (blocker?.waiter) {
+        throw new Error(
+          `Lock on ${blocker.waiter.path} is queued for ${blocker.waiter.owner ?? "another agent"}; use wait: true to queue behind it`
+        );
+      }
       state.locks.push(lock);
       await this.saveState(state);
       await appendLog(this.logDir, "lock_acquire", { lock });
@@ -445,35 +1117,171 @@ export class JsonStore implements Store {
     });
   }
 
-  async releaseLock(input: { path: string; owner?: string }): Promise<Lock> {
-    return this.withStateLock(async () => {
+  // The active lock or queued waiter that stands in the way of a request, if any.
+  // Queued waiters count so that a plain acquire cannot jump the queue.
+  private findLockBlocker(state: JsonState, request: Lock): { lock?: Lock; waiter?: LockWaiter } | null {
+    const lock = state.locks.find(
+      (item) => item.projectRoot === request.projectRoot && item.status === "active" && lockRequestsConflict(item, request)
+    );
+    if (lock) return { lock };
+    const waiter = state.lockWaiters.find(
+      (item) => item.projectRoot === request.projectRoot && item.status === "waiting" && lockRequestsConflict(item, request)
+    );
+    return waiter ? { waiter } : null;
+  }
+
+  async waitForLock(input: {
+    path: string;
+    owner?: string;
+    note?: string;
+    projectRoot?: string;
+    ttlSeconds?: number;
+    mode?: LockMode;
+    timeoutMs?: number;
+    onQueued?: (waiter: LockWaiter) => Promise<void>;
+  }): Promise<Lock> {
+    const timeoutMs = input.timeoutMs ?? DEFAULT_LOCK_WAIT_MS;
+    const lock = newLock(input);
+    const waiter: LockWaiter = {
+      id: crypto.randomUUID(),
+      projectRoot: input.projectRoot,
+      path: input.path,
+      owner: input.owner,
+      note: input.note,
+      mode: lock.mode,
+      ttlSeconds: input.ttlSeconds,
+      status: "waiting",
+      deadline: new Date(Date.now() + timeoutMs).toISOString(),
+      createdAt: nowIso(),
+      updatedAt: nowIso(),
+    };
+
+    // Take the lock right away if nothing is in the way, otherwise join the queue
+    const acquired = await this.withStateLock(async () => {
+      const state = await this.loadState();
+      await this.expireLocks(state);
+      const blocked = this.findLockBlocker(state, lock) !== null;
+      if (blocked) state.lockWaiters.push(waiter);
+      else state.locks.push(lock);
+      await this.saveState(state);
+      return !blocked;
+    });
+    if (acquired) {
+      await appendLog(this.logDir, "lock_acquire", { lock });
+      return lock;
+    }
+    await appendLog(this.logDir, "lock_wait", { waiter });
+    await input.onQueued?.(waiter);
+
+    // The holder's release (possibly in another process) hands the lock over;
+    // polling also covers leases that expire while we wait
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      await sleep(Math.min(LOCK_WAIT_POLL_MS, Math.max(deadline - Date.now(), 0)));
+      const granted = await this.withStateLock(async () => {
+        const state = await this.loadState();
+        if (await this.expireLocks(state)) await this.saveState(state);
+        return this.getGrantedLock(state, waiter.id);
+      });
+      if (granted) return granted;
+    }
+
+    const granted = await this.withStateLock(async () => {
       const state = await this.loadState();
-      const lock = state.locks.find((item) => item.path === input.path && item.status === "active");
-      if (!lock) throw new Error(`Active lock not found for ${input.path}`);
-      if (input.owner && lock.owner && input.owner !== lock.owner) {
-        throw new Error(`Lock owned by ${lock.owner}, not ${input.owner}`);
+      const queued = state.lockWaiters.find((item) => item.id === waiter.id);
+      if (queued?.status === "waiting") {
+        queued.status = "timed_out";
+        queued.updatedAt = nowIso();
+        await this.saveState(state);
+        await appendLog(this.logDir, "lock_wait_timeout", { waiter: queued });
+        return null;
       }
+      // Granted between the last check and the deadline
+      return this.getGrantedLock(state, waiter.id);
+    });
+    if (granted) return granted;
+    throw new Error(`Timed out after ${timeoutMs}ms waiting for lock on ${input.path}`);
+  }
+
+  private getGrantedLock(state: JsonState, waiterId: string): Lock | null {
+    const waiter = state.lockWaiters.find((item) => item.id === waiterId);
+    if (waiter?.status !== "granted" || !waiter.lockId) return null;
+    return state.locks.find((lock) => lock.id === waiter.lockId) ?? null;
+  }
+
+  async listLockWaiters(filters?: { projectRoot?: string; status?: LockWaiterStatus }): Promise<LockWaiter[]> {
+    const state = await this.withStateLock(async () => {
+      const current = await this.loadState();
+      if (await this.expireLocks(current)) await this.saveState(current);
+      return current;
+    });
+    let waiters = [...state.lockWaiters];
+    if (filters?.projectRoot) waiters = waiters.filter((waiter) => waiter.projectRoot === filters.projectRoot);
+    if (filters?.status) waiters = waiters.filter((waiter) => waiter.status === filters.status);
+    return waiters;
+  }
+
+  async renewLock(input: { path: string; owner?: string; projectRoot?: string; ttlSeconds?: number }): Promise<Lock> {
+    return this.withStateLock(async () => {
+      const state = await this.loadState();
+      await this.expireLocks(state);
+      const lock = findHeldLock(
+        state.locks.filter(
+          (item) => item.path === input.path && item.projectRoot === input.projectRoot && item.status === "active"
+        ),
+        input,
+        `Active lock not found for ${input.path} (it may have expired)`
+      );
+      const ttlSeconds = input.ttlSeconds ?? lock.ttlSeconds;
+      if (ttlSeconds === undefined) throw new Error(`Lock for ${input.path} has no TTL; pass ttlSeconds to start a lease`);
+      lock.ttlSeconds = ttlSeconds;
+      lock.expiresAt = leaseExpiry(ttlSeconds);
+      lock.updatedAt = nowIso();
+      await this.saveState(state);
+      await appendLog(this.logDir, "lock_renew", { lock });
+      return lock;
+    });
+  }
+
+  async releaseLock(input: { path: string; owner?: string; projectRoot?: string }): Promise<Lock> {
+    return this.withStateLock(async () => {
+      const state = await this.loadState();
+      const lock = findHeldLock(
+        state.locks.filter(
+          (item) => item.path === input.path && item.projectRoot === input.projectRoot && item.status === "active"
+        ),
+        input,
+        `Active lock not found for ${input.path}`
+      );
       lock.status = "resolved";
       lock.updatedAt = nowIso();
+      const served = serveLockQueue(state.locks, state.lockWaiters);
       await this.saveState(state);
       await appendLog(this.logDir, "lock_release", { lock });
+      await this.logLockQueue(served);
       return lock;
     });
   }
 
-  async listLocks(filters?: { status?: LockStatus; owner?: string }): Promise<Lock[]> {
-    const state = await this.loadState();
+  async listLocks(filters?: { status?: LockStatus; owner?: string; projectRoot?: string }): Promise<Lock[]> {
+    const state = await this.withStateLock(async () => {
+      const current = await this.loadState();
+      if (await this.expireLocks(current)) await this.saveState(current);
+      return current;
+    });
     let locks = [...state.locks];
+    if (filters?.projectRoot) locks = locks.filter((lock) => lock.projectRoot === filters.projectRoot);
     if (filters?.status) locks = locks.filter((lock) => lock.status === filters.status);
     if (filters?.owner) locks = locks.filter((lock) => lock.owner === filters.owner);
     return locks;
   }
 
-  async appendNote(input: { text: string; author?: string }): Promise<Note> {
+  async appendNote(input: { text: string; author?: string; projectRoot?: string }): Promise<Note> {
     return this.withStateLock(async () => {
       const state = await this.loadState();
       const note: Note = {
         id: crypto.randomUUID(),
+        projectRoot: input.projectRoot,
         text: input.text,
         author: input.author,
         createdAt: nowIso(),
@@ -485,10 +1293,11 @@ export class JsonStore implements Store {
     });
   }
 
-  async listNotes(limit?: number): Promise<Note[]> {
+  async listNotes(limit?: number, projectRoot?: string): Promise<Note[]> {
     const state = await this.loadState();
-    if (!limit || limit <= 0) return [...state.notes];
-    return state.notes.slice(Math.max(state.notes.length - limit, 0));
+    const notes = projectRoot ? state.notes.filter((note) => note.projectRoot === projectRoot) : state.notes;
+    if (!limit || limit <= 0) return [...notes];
+    return notes.slice(Math.max(notes.length - limit, 0));
   }
 
   async appendLogEntry(event: string, payload?: Record<string, unknown>): Promise<void> {
@@ -519,7 +1328,7 @@ export class JsonStore implements Store {
     acceptanceCriteria?: string[];
     tests?: string[];
     implementationPlan?: string[];
-    preferredImplementer?: "claude" | "codex";
+    preferredImplementer?: string;  // Agent profile name
     status?: ProjectStatus;
   }): Promise<ProjectContext> {
     return this.withStateLock(async () => {
@@ -590,12 +1399,15 @@ export class JsonStore implements Store {
 
   async registerImplementer(input: {
     name: string;
-    type: "claude" | "codex";
+    type: string;
     projectRoot: string;
     pid?: number;
     isolation?: ImplementerIsolation;
     worktreePath?: string;
     branchName?: string;
+    launcher?: ImplementerLauncher;
+    tmuxTarget?: string;
+    logFile?: string;
   }): Promise<Implementer> {
     return this.withStateLock(async () => {
       const implementers = await this.loadImplementers();
@@ -609,6 +1421,10 @@ export class JsonStore implements Store {
         isolation: input.isolation ?? "shared",
         worktreePath: input.worktreePath,
         branchName: input.branchName,
+        lastSeenAt: nowIso(),
+        launcher: input.launcher,
+        tmuxTarget: input.tmuxTarget,
+        logFile: input.logFile,
         createdAt: nowIso(),
         updatedAt: nowIso(),
       };
@@ -632,6 +1448,33 @@ export class JsonStore implements Store {
     });
   }
 
+  async updateImplementerProcess(id: string, input: { pid?: number | null; exitCode?: number | null }): Promise<Implementer> {
+    return this.withStateLock(async () => {
+      const implementers = await this.loadImplementers();
+      const implementer = implementers[id];
+      if (!implementer) throw new Error(`Implementer not found: ${id}`);
+      if (input.pid !== undefined) implementer.pid = input.pid ?? undefined;
+      if (input.exitCode !== undefined) implementer.exitCode = input.exitCode ?? undefined;
+      implementer.updatedAt = nowIso();
+      await this.saveImplementers(implementers);
+      await appendLog(this.logDir, "implementer_process", { id, pid: input.pid, exitCode: input.exitCode });
+      return implementer;
+    });
+  }
+
+  async heartbeatImplementer(input: { name: string; projectRoot: string }): Promise<Implementer> {
+    return this.withStateLock(async () => {
+      const implementers = await this.loadImplementers();
+      const implementer = Object.values(implementers).find((impl) =>
+        impl.name === input.name && impl.projectRoot === input.projectRoot && impl.status === "active"
+      );
+      if (!implementer) throw new Error(`No active implementer named ${input.name} in ${input.projectRoot}`);
+      implementer.lastSeenAt = nowIso();
+      await this.saveImplementers(implementers);
+      return implementer;
+    });
+  }
+
   async listImplementers(projectRoot?: string): Promise<Implementer[]> {
     const implementers = await this.loadImplementers();
     let list = Object.values(implementers);
@@ -669,107 +1512,417 @@ export class JsonStore implements Store {
     implementersReset: number;
     discussionsArchived: number;
   }> {
-    return this.withStateLock(async () => {
+    // Everything is rewritten under one state lock, so the reset is atomic for
+    // other servers sharing the data directory
+    const result = await this.withStateLock(async () => {
       const state = await this.loadState();
 
-      // Count and clear tasks
-      const tasksCleared = state.tasks.length;
-      state.tasks = [];
+      // Count and clear this project's tasks
+      const tasksCleared = state.tasks.filter((task) => task.projectRoot === projectRoot).length;
+      state.tasks = state.tasks.filter((task) => task.projectRoot !== projectRoot);
+      state.taskEvents = state.taskEvents.filter((event) => event.projectRoot !== projectRoot);
 
-      // Count and clear locks
-      const locksCleared = state.locks.length;
-      state.locks = [];
+      // Count active locks, then clear all of this project's locks for a clean slate
+      const locksCleared = state.locks.filter((lock) => lock.projectRoot === projectRoot && lock.status === "active").length;
+      state.locks = state.locks.filter((lock) => lock.projectRoot !== projectRoot);
+      state.lockWaiters = state.lockWaiters.filter((waiter) => waiter.projectRoot !== projectRoot);
 
-      // Count and clear notes
-      const notesCleared = state.notes.length;
-      state.notes = [];
-
-      await this.saveState(state);
+      // Count and clear this project's notes
+      const notesCleared = state.notes.filter((note) => note.projectRoot === projectRoot).length;
+      state.notes = state.notes.filter((note) => note.projectRoot !== projectRoot);
 
       // Reset implementers
-      const implementersReset = await this.resetImplementers(projectRoot);
+      const implementers = await this.loadImplementers();
+      let implementersReset = 0;
+      for (const impl of Object.values(implementers)) {
+        if (impl.projectRoot === projectRoot && impl.status === "active") {
+          impl.status = "stopped";
+          impl.updatedAt = nowIso();
+          implementersReset++;
+        }
+      }
+
+      // Archive open discussions
+      const store = await this.loadDiscussions();
+      let discussionsArchived = 0;
+      for (const discussion of store.discussions) {
+        if (discussion.projectRoot === projectRoot && (discussion.status === "open" || discussion.status === "waiting")) {
+          discussion.status = "archived";
+          discussion.archivedAt = nowIso();
+          discussion.updatedAt = nowIso();
+          discussionsArchived++;
+        }
+      }
 
       // Clear project context unless keepProjectContext is true
+      const contexts = await this.loadContexts();
       if (!options?.keepProjectContext) {
-        const contexts = await this.loadContexts();
         delete contexts[projectRoot];
-        await this.saveContexts(contexts);
+      } else if (contexts[projectRoot]) {
+        // Reset status to planning if keeping context
+        contexts[projectRoot].status = "planning";
+        contexts[projectRoot].updatedAt = nowIso();
       }
 
-      await appendLog(this.logDir, "session_reset", {
-        projectRoot,
-        tasksCleared,
-        locksCleared,
-        notesCleared,
-        implementersReset,
-        discussionsArchived: 0
-      });
+      await this.saveState(state);
+      await this.saveImplementers(implementers);
+      await this.saveDiscussions(store);
+      await this.saveContexts(contexts);
 
       return {
         tasksCleared,
         locksCleared,
         notesCleared,
         implementersReset,
-        discussionsArchived: 0 // JSON store doesn't support discussions
+        discussionsArchived
+      };
+    });
+
+    await appendLog(this.logDir, "session_reset", {
+      projectRoot,
+      keepProjectContext: options?.keepProjectContext ?? false,
+      ...result
+    });
+
+    return result;
+  }
+
+  private get discussionsPath(): string {
+    return path.join(this.dataDir, "discussions.json");
+  }
+
+  private async loadDiscussions(): Promise<DiscussionStore> {
+    try {
+      const raw = await fs.readFile(this.discussionsPath, "utf8");
+      return { discussions: [], messages: [], ...JSON.parse(raw) } as DiscussionStore;
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code === "ENOENT") return { discussions: [], messages: [] };
+      throw error;
+    }
+  }
+
+  private async saveDiscussions(store: DiscussionStore): Promise<void> {
+    await fs.writeFile(this.discussionsPath, JSON.stringify(store, null, 2), "utf8");
+  }
+
+  async createDiscussion(input: {
+    topic: string;
+    category: DiscussionCategory;
+    priority: DiscussionPriority;
+    message: string;
+    createdBy: string;
+    projectRoot: string;
+    waitingOn?: string;
+  }): Promise<{ discussion: Discussion; message: DiscussionMessage }> {
+    return this.withStateLock(async () => {
+      const store = await this.loadDiscussions();
+      const now = nowIso();
+      const discussion: Discussion = {
+        id: crypto.randomUUID(),
+        topic: input.topic,
+        category: input.category,
+        priority: input.priority,
+        status: input.waitingOn ? "waiting" : "open",
+        projectRoot: input.projectRoot,
+        createdBy: input.createdBy,
+        waitingOn: input.waitingOn,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const msg: DiscussionMessage = {
+        id: crypto.randomUUID(),
+        discussionId: discussion.id,
+        author: input.createdBy,
+        message: input.message,
+        createdAt: now,
+      };
+      store.discussions.push(discussion);
+      store.messages.push(msg);
+      await this.saveDiscussions(store);
+      await appendLog(this.logDir, "discussion_create", { discussion, message: msg });
+      return { discussion, message: msg };
+    });
+  }
+
+  async replyToDiscussion(input: {
+    discussionId: string;
+    author: string;
+    message: string;
+    recommendation?: string;
+    waitingOn?: string;
+  }): Promise<{ discussion: Discussion; message: DiscussionMessage }> {
+    return this.withStateLock(async () => {
+      const store = await this.loadDiscussions();
+      const discussion = store.discussions.find((item) => item.id === input.discussionId);
+      if (!discussion) throw new Error(`Discussion not found: ${input.discussionId}`);
+      if (discussion.status === "resolved" || discussion.status === "archived") {
+        throw new Error(`Cannot reply to ${discussion.status} discussion`);
+      }
+      const now = nowIso();
+      const msg: DiscussionMessage = {
+        id: crypto.randomUUID(),
+        discussionId: input.discussionId,
+        author: input.author,
+        message: input.message,
+        recommendation: input.recommendation,
+        createdAt: now,
       };
+      store.messages.push(msg);
+      discussion.status = input.waitingOn ? "waiting" : "open";
+      discussion.waitingOn = input.waitingOn;
+      discussion.updatedAt = now;
+      await this.saveDiscussions(store);
+      await appendLog(this.logDir, "discussion_reply", { discussion, message: msg });
+      return { discussion, message: msg };
     });
   }
 
-  // Discussion methods - not implemented for JSON storage (use SQLite)
-  async createDiscussion(): Promise<{ discussion: Discussion; message: DiscussionMessage }> {
-    throw new Error("Discussion features require SQLite storage. Set storage: 'sqlite' in config.");
+  async resolveDiscussion(input: {
+    discussionId: string;
+    decision: string;
+    reasoning: string;
+    decidedBy: string;
+    linkedTaskId?: string;
+  }): Promise<Discussion> {
+    return this.withStateLock(async () => {
+      const store = await this.loadDiscussions();
+      const discussion = store.discussions.find((item) => item.id === input.discussionId);
+      if (!discussion) throw new Error(`Discussion not found: ${input.discussionId}`);
+      const now = nowIso();
+      discussion.status = "resolved";
+      discussion.decision = input.decision;
+      discussion.decisionReasoning = input.reasoning;
+      discussion.decidedBy = input.decidedBy;
+      discussion.linkedTaskId = input.linkedTaskId;
+      discussion.waitingOn = undefined;
+      discussion.resolvedAt = now;
+      discussion.updatedAt = now;
+      await this.saveDiscussions(store);
+      await appendLog(this.logDir, "discussion_resolve", { discussion });
+      return discussion;
+    });
   }
-  async replyToDiscussion(): Promise<{ discussion: Discussion; message: DiscussionMessage }> {
-    throw new Error("Discussion features require SQLite storage.");
+
+  async getDiscussion(id: string): Promise<{ discussion: Discussion; messages: DiscussionMessage[] } | null> {
+    const store = await this.loadDiscussions();
+    const discussion = store.discussions.find((item) => item.id === id);
+    if (!discussion) return null;
+    return {
+      discussion,
+      messages: store.messages.filter((msg) => msg.discussionId === id),
+    };
   }
-  async resolveDiscussion(): Promise<Discussion> {
-    throw new Error("Discussion features require SQLite storage.");
+
+  async listDiscussions(filters?: {
+    status?: DiscussionStatus;
+    category?: DiscussionCategory;
+    projectRoot?: string;
+    waitingOn?: string;
+    limit?: number;
+  }): Promise<Discussion[]> {
+    const store = await this.loadDiscussions();
+    let discussions = store.discussions;
+    if (filters?.status) discussions = discussions.filter((item) => item.status === filters.status);
+    if (filters?.category) discussions = discussions.filter((item) => item.category === filters.category);
+    if (filters?.projectRoot) discussions = discussions.filter((item) => item.projectRoot === filters.projectRoot);
+    if (filters?.waitingOn) discussions = discussions.filter((item) => item.waitingOn === filters.waitingOn);
+    discussions = [...discussions].sort((a, b) =>
+      DISCUSSION_PRIORITY_RANK[a.priority] - DISCUSSION_PRIORITY_RANK[b.priority] ||
+      b.createdAt.localeCompare(a.createdAt)
+    );
+    if (filters?.limit && filters.limit > 0) discussions = discussions.slice(0, filters.limit);
+    return discussions;
   }
-  async getDiscussion(): Promise<{ discussion: Discussion; messages: DiscussionMessage[] } | null> {
-    throw new Error("Discussion features require SQLite storage.");
+
+  async archiveDiscussion(id: string): Promise<Discussion> {
+    return this.withStateLock(async () => {
+      const store = await this.loadDiscussions();
+      const discussion = store.discussions.find((item) => item.id === id);
+      if (!discussion) throw new Error(`Discussion not found: ${id}`);
+      const now = nowIso();
+      discussion.status = "archived";
+      discussion.archivedAt = now;
+      discussion.updatedAt = now;
+      await this.saveDiscussions(store);
+      await appendLog(this.logDir, "discussion_archive", { discussion });
+      return discussion;
+    });
   }
-  async listDiscussions(): Promise<Discussion[]> {
-    throw new Error("Discussion features require SQLite storage.");
+
+  async archiveOldDiscussions(options: {
+    olderThanDays?: number;
+    projectRoot?: string;
+  }): Promise<number> {
+    const days = options.olderThanDays ?? 7;
+    const cutoff = daysAgoIso(days);
+    const count = await this.withStateLock(async () => {
+      const store = await this.loadDiscussions();
+      const now = nowIso();
+      const archived = store.discussions.filter((item) =>
+        item.status === "resolved" &&
+        item.resolvedAt !== undefined && item.resolvedAt < cutoff &&
+        (!options.projectRoot || item.projectRoot === options.projectRoot)
+      );
+      for (const discussion of archived) {
+        discussion.status = "archived";
+        discussion.archivedAt = now;
+        discussion.updatedAt = now;
+      }
+      await this.saveDiscussions(store);
+      return archived.length;
+    });
+    await appendLog(this.logDir, "discussions_bulk_archive", { count, olderThanDays: days });
+    return count;
   }
-  async archiveDiscussion(): Promise<Discussion> {
-    throw new Error("Discussion features require SQLite storage.");
+
+  async deleteArchivedDiscussions(options: {
+    olderThanDays?: number;
+    projectRoot?: string;
+  }): Promise<number> {
+    const days = options.olderThanDays ?? 30;
+    const cutoff = daysAgoIso(days);
+    const count = await this.withStateLock(async () => {
+      const store = await this.loadDiscussions();
+      const ids = new Set(store.discussions
+        .filter((item) =>
+          item.status === "archived" &&
+          item.archivedAt !== undefined && item.archivedAt < cutoff &&
+          (!options.projectRoot || item.projectRoot === options.projectRoot)
+        )
+        .map((item) => item.id));
+      if (ids.size === 0) return 0;
+      store.discussions = store.discussions.filter((item) => !ids.has(item.id));
+      store.messages = store.messages.filter((msg) => !ids.has(msg.discussionId));
+      await this.saveDiscussions(store);
+      return ids.size;
+    });
+    if (count === 0) return 0;
+    await appendLog(this.logDir, "discussions_bulk_delete", { count, olderThanDays: days });
+    return count;
   }
-  async archiveOldDiscussions(): Promise<number> {
-    throw new Error("Discussion features require SQLite storage.");
+
+  async exportSession(projectRoot: string): Promise<SessionData> {
+    const state = await this.loadState();
+    const store = await this.loadDiscussions();
+    const discussions = store.discussions.filter((item) => item.projectRoot === projectRoot);
+    const discussionIds = new Set(discussions.map((item) => item.id));
+    return {
+      projectContext: (await this.loadContexts())[projectRoot] ?? null,
+      tasks: state.tasks.filter((task) => task.projectRoot === projectRoot),
+      taskEvents: state.taskEvents.filter((event) => event.projectRoot === projectRoot),
+      locks: state.locks.filter((lock) => lock.projectRoot === projectRoot),
+      notes: state.notes.filter((note) => note.projectRoot === projectRoot),
+      implementers: Object.values(await this.loadImplementers()).filter((impl) => impl.projectRoot === projectRoot),
+      discussions,
+      discussionMessages: store.messages.filter((msg) => discussionIds.has(msg.discussionId)),
+    };
   }
-  async deleteArchivedDiscussions(): Promise<number> {
-    throw new Error("Discussion features require SQLite storage.");
+
+  async importSession(data: SessionData, options?: { onConflict?: ImportConflictMode }): Promise<ImportResult> {
+    const result = await this.withStateLock(async () => {
+      const state = await this.loadState();
+      const contexts = await this.loadContexts();
+      const implementers = await this.loadImplementers();
+      const store = await this.loadDiscussions();
+      const existing: Record<SessionRecordKind, Set<string>> = {
+        projectContext: new Set(Object.keys(contexts)),
+        tasks: new Set(state.tasks.map((item) => item.id)),
+        taskEvents: new Set(state.taskEvents.map((item) => item.id)),
+        locks: new Set(state.locks.map((item) => item.id)),
+        notes: new Set(state.notes.map((item) => item.id)),
+        implementers: new Set(Object.keys(implementers)),
+        discussions: new Set(store.discussions.map((item) => item.id)),
+        discussionMessages: new Set(store.messages.map((item) => item.id)),
+      };
+      const plan = planImport(data, (kind, id) => existing[kind].has(id), options?.onConflict ?? "fail");
+
+      state.tasks = upsertById(state.tasks, plan.data.tasks);
+      state.taskEvents = upsertById(state.taskEvents, plan.data.taskEvents);
+      state.locks = upsertById(state.locks, plan.data.locks);
+      state.notes = upsertById(state.notes, plan.data.notes);
+      for (const implementer of plan.data.implementers) implementers[implementer.id] = implementer;
+      store.discussions = upsertById(store.discussions, plan.data.discussions);
+      store.messages = upsertById(store.messages, plan.data.discussionMessages);
+      if (plan.data.projectContext) contexts[plan.data.projectContext.projectRoot] = plan.data.projectContext;
+
+      await this.saveState(state);
+      await this.saveContexts(contexts);
+      await this.saveImplementers(implementers);
+      await this.saveDiscussions(store);
+      return plan.result;
+    });
+    await appendLog(this.logDir, "session_import", { ...result });
+    return result;
   }
 }
 
 type TaskRow = {
   id: string;
+  project_root: string | null;
   title: string;
   description: string | null;
   status: TaskStatus;
   complexity: TaskComplexity;
   isolation: TaskIsolation;
+  priority: TaskPriority | null;
+  due_at: string | null;
   owner: string | null;
   tags: string | null;
   metadata: string | null;
+  depends_on: string | null;
   review_notes: string | null;
   review_feedback: string | null;
   review_requested_at: string | null;
+  version: number;
   created_at: string;
   updated_at: string;
 };
 
 type LockRow = {
+  id: string;
+  project_root: string | null;
   path: string;
   owner: string | null;
   note: string | null;
   status: LockStatus;
+  mode: LockMode;
+  ttl_seconds: number | null;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type LockWaiterRow = {
+  id: string;
+  project_root: string | null;
+  path: string;
+  owner: string | null;
+  note: string | null;
+  mode: LockMode;
+  ttl_seconds: number | null;
+  status: LockWaiterStatus;
+  lock_id: string | null;
+  deadline: string;
   created_at: string;
   updated_at: string;
 };
 
+type TaskEventRow = {
+  id: string;
+  task_id: string;
+  project_root: string | null;
+  type: TaskEventType;
+  field: string | null;
+  from_value: string | null;
+  to_value: string | null;
+  actor: string | null;
+  created_at: string;
+};
+
 type NoteRow = {
   id: string;
+  project_root: string | null;
   text: string;
   author: string | null;
   created_at: string;
@@ -800,6 +1953,11 @@ type ImplementerRow = {
   isolation: string;
   worktree_path: string | null;
   branch_name: string | null;
+  last_seen_at: string | null;
+  launcher: string | null;
+  tmux_target: string | null;
+  log_file: string | null;
+  exit_code: number | null;
   created_at: string;
   updated_at: string;
 };
@@ -833,153 +1991,34 @@ type DiscussionMessageRow = {
 };
 
 export class SqliteStore implements Store {
-  private db?: Database.Database;
-
-  constructor(private dbPath: string, private logDir: string) {}
-
-  async init(): Promise<void> {
-    await ensureDir(path.dirname(this.dbPath));
-    await ensureDir(this.logDir);
-    this.db = new Database(this.dbPath);
-    this.db.pragma("journal_mode = WAL");
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        description TEXT,
-        status TEXT NOT NULL,
-        complexity TEXT NOT NULL DEFAULT 'medium',
-        isolation TEXT NOT NULL DEFAULT 'shared',
-        owner TEXT,
-        tags TEXT,
-        metadata TEXT,
-        review_notes TEXT,
-        review_feedback TEXT,
-        review_requested_at TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS locks (
-        path TEXT PRIMARY KEY,
-        owner TEXT,
-        note TEXT,
-        status TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS notes (
-        id TEXT PRIMARY KEY,
-        text TEXT NOT NULL,
-        author TEXT,
-        created_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS project_contexts (
-        project_root TEXT PRIMARY KEY,
-        description TEXT NOT NULL,
-        end_state TEXT NOT NULL,
-        tech_stack TEXT,
-        constraints TEXT,
-        acceptance_criteria TEXT,
-        tests TEXT,
-        implementation_plan TEXT,
-        status TEXT NOT NULL DEFAULT 'planning',
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS implementers (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        project_root TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'active',
-        pid INTEGER,
-        isolation TEXT NOT NULL DEFAULT 'shared',
-        worktree_path TEXT,
-        branch_name TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS discussions (
-        id TEXT PRIMARY KEY,
-        topic TEXT NOT NULL,
-        category TEXT NOT NULL DEFAULT 'other',
-        priority TEXT NOT NULL DEFAULT 'medium',
-        status TEXT NOT NULL DEFAULT 'open',
-        project_root TEXT NOT NULL,
-        created_by TEXT NOT NULL,
-        waiting_on TEXT,
-        decision TEXT,
-        decision_reasoning TEXT,
-        decided_by TEXT,
-        linked_task_id TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        resolved_at TEXT,
-        archived_at TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS discussion_messages (
-        id TEXT PRIMARY KEY,
-        discussion_id TEXT NOT NULL,
-        author TEXT NOT NULL,
-        message TEXT NOT NULL,
-        recommendation TEXT,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (discussion_id) REFERENCES discussions(id)
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_discussions_status ON discussions(status);
-      CREATE INDEX IF NOT EXISTS idx_discussions_project ON discussions(project_root);
-      CREATE INDEX IF NOT EXISTS idx_discussion_messages_discussion ON discussion_messages(discussion_id);
-    `);
-
-    // Migration: add new columns if they don't exist
-    try {
-      this.db.exec("ALTER TABLE project_contexts ADD COLUMN acceptance_criteria TEXT");
-    } catch { /* column exists */ }
-    try {
-      this.db.exec("ALTER TABLE project_contexts ADD COLUMN tests TEXT");
-    } catch { /* column exists */ }
-    try {
-      this.db.exec("ALTER TABLE project_contexts ADD COLUMN implementation_plan TEXT");
-    } catch { /* column exists */ }
-    try {
-      this.db.exec("ALTER TABLE project_contexts ADD COLUMN preferred_implementer TEXT");
-    } catch { /* column exists */ }
-    try {
-      this.db.exec("ALTER TABLE project_contexts ADD COLUMN status TEXT NOT NULL DEFAULT 'planning'");
-    } catch { /* column exists */ }
-    // Task review workflow columns
-    try {
-      this.db.exec("ALTER TABLE tasks ADD COLUMN complexity TEXT NOT NULL DEFAULT 'medium'");
-    } catch { /* column exists */ }
-    try {
-      this.db.exec("ALTER TABLE tasks ADD COLUMN review_notes TEXT");
-    } catch { /* column exists */ }
-    try {
-      this.db.exec("ALTER TABLE tasks ADD COLUMN review_feedback TEXT");
-    } catch { /* column exists */ }
-    try {
-      this.db.exec("ALTER TABLE tasks ADD COLUMN review_requested_at TEXT");
-    } catch { /* column exists */ }
-    // Worktree isolation columns
-    try {
-      this.db.exec("ALTER TABLE tasks ADD COLUMN isolation TEXT NOT NULL DEFAULT 'shared'");
-    } catch { /* column exists */ }
-    try {
-      this.db.exec("ALTER TABLE implementers ADD COLUMN isolation TEXT NOT NULL DEFAULT 'shared'");
-    } catch { /* column exists */ }
-    try {
-      this.db.exec("ALTER TABLE implementers ADD COLUMN worktree_path TEXT");
-    } catch { /* column exists */ }
+  private db?: Database.Database;
+
+  constructor(private dbPath: string, private logDir: string, private options: StoreOptions = {}) {}
+
+  async init(): Promise<void> {
+    await ensureDir(path.dirname(this.dbPath));
+    await ensureDir(this.logDir);
+    this.db = new Database(this.dbPath);
+    this.db.pragma("journal_mode = WAL");
+    let result: MigrationResult;
     try {
-      this.db.exec("ALTER TABLE implementers ADD COLUMN branch_name TEXT");
-    } catch { /* column exists */ }
+      result = migrate(this.db, { defaultProjectRoot: this.options.defaultProjectRoot });
+    } catch (error) {
+      this.db.close();
+      this.db = undefined;
+      throw error;
+    }
+    const { applied, toVersion } = result;
+    if (applied.length > 0) {
+      await appendLog(this.logDir, "schema_migrate", { dbPath: this.dbPath, applied, version: toVersion });
+    }
+    // Rows the migration found no owner for join the default root once there is one
+    if (this.options.defaultProjectRoot) {
+      const backfill = backfillProjectRoots(this.db, this.options.defaultProjectRoot);
+      if (backfill.updated > 0) {
+        await appendLog(this.logDir, "project_root_backfill", backfill);
+      }
+    }
   }
 
   private getDb(): Database.Database {
@@ -990,17 +2029,22 @@ export class SqliteStore implements Store {
   private parseTask(row: TaskRow): Task {
     return {
       id: row.id,
+      projectRoot: row.project_root ?? undefined,
       title: row.title,
       description: row.description ?? undefined,
       status: row.status,
       complexity: row.complexity ?? "medium",
       isolation: row.isolation ?? "shared",
+      priority: row.priority ?? DEFAULT_TASK_PRIORITY,
+      dueAt: row.due_at ?? undefined,
       owner: row.owner ?? undefined,
       tags: row.tags ? (JSON.parse(row.tags) as string[]) : undefined,
       metadata: row.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : undefined,
+      dependsOn: row.depends_on ? (JSON.parse(row.depends_on) as string[]) : undefined,
       reviewNotes: row.review_notes ?? undefined,
       reviewFeedback: row.review_feedback ?? undefined,
       reviewRequestedAt: row.review_requested_at ?? undefined,
+      version: row.version ?? 1,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -1008,29 +2052,93 @@ export class SqliteStore implements Store {
 
   private parseLock(row: LockRow): Lock {
     return {
+      id: row.id,
+      projectRoot: row.project_root ?? undefined,
+      path: row.path,
+      owner: row.owner ?? undefined,
+      note: row.note ?? undefined,
+      status: row.status,
+      mode: row.mode ?? "exclusive",
+      ttlSeconds: row.ttl_seconds ?? undefined,
+      expiresAt: row.expires_at ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private parseLockWaiter(row: LockWaiterRow): LockWaiter {
+    return {
+      id: row.id,
+      projectRoot: row.project_root ?? undefined,
       path: row.path,
       owner: row.owner ?? undefined,
       note: row.note ?? undefined,
+      mode: row.mode,
+      ttlSeconds: row.ttl_seconds ?? undefined,
       status: row.status,
+      lockId: row.lock_id ?? undefined,
+      deadline: row.deadline,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
 
+  private parseTaskEvent(row: TaskEventRow): TaskEvent {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      projectRoot: row.project_root ?? undefined,
+      type: row.type,
+      field: row.field ?? undefined,
+      from: row.from_value ?? undefined,
+      to: row.to_value ?? undefined,
+      actor: row.actor ?? undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  private recordTaskEvents(
+    task: Task,
+    changes: Array<Pick<TaskEvent, "type" | "field" | "from" | "to">>,
+    actor?: string
+  ): void {
+    const insert = this.getDb().prepare(
+      `INSERT INTO task_events (id, task_id, project_root, type, field, from_value, to_value, actor, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const change of changes) {
+      insert.run(
+        crypto.randomUUID(),
+        task.id,
+        task.projectRoot ?? null,
+        change.type,
+        change.field ?? null,
+        change.from ?? null,
+        change.to ?? null,
+        actor ?? null,
+        task.updatedAt
+      );
+    }
+  }
+
   private parseNote(row: NoteRow): Note {
     return {
       id: row.id,
+      projectRoot: row.project_root ?? undefined,
       text: row.text,
       author: row.author ?? undefined,
       createdAt: row.created_at,
     };
   }
 
-  async status(): Promise<State> {
+  async status(projectRoot?: string): Promise<State> {
     const db = this.getDb();
-    const tasks = db.prepare("SELECT * FROM tasks ORDER BY created_at ASC").all() as TaskRow[];
-    const locks = db.prepare("SELECT * FROM locks ORDER BY created_at ASC").all() as LockRow[];
-    const notes = db.prepare("SELECT * FROM notes ORDER BY created_at ASC").all() as NoteRow[];
+    await this.expireLocks();
+    const scope = projectRoot ? " WHERE project_root = ?" : "";
+    const params = projectRoot ? [projectRoot] : [];
+    const tasks = db.prepare(`SELECT * FROM tasks${scope} ORDER BY created_at ASC`).all(...params) as TaskRow[];
+    const locks = db.prepare(`SELECT * FROM locks${scope} ORDER BY created_at ASC`).all(...params) as LockRow[];
+    const notes = db.prepare(`SELECT * FROM notes${scope} ORDER BY created_at ASC`).all(...params) as NoteRow[];
     return {
       tasks: tasks.map((row) => this.parseTask(row)),
       locks: locks.map((row) => this.parseLock(row)),
@@ -1039,46 +2147,65 @@ export class SqliteStore implements Store {
   }
 
   async createTask(input: {
+    projectRoot?: string;
     title: string;
     description?: string;
     status?: TaskStatus;
     complexity?: TaskComplexity;
     isolation?: TaskIsolation;
+    priority?: TaskPriority;
+    dueAt?: string | null;  // null clears the due date
     owner?: string;
     tags?: string[];
     metadata?: Record<string, unknown>;
+    dependsOn?: string[];
+    actor?: string;
   }): Promise<Task> {
     const db = this.getDb();
+    const id = crypto.randomUUID();
+    const existing = await this.listTasks();
+    if (input.dependsOn?.length) assertValidDependencies(id, input.dependsOn, existing, input.projectRoot);
+    const tasksById = new Map(existing.map((item) => [item.id, item]));
     const task: Task = {
-      id: crypto.randomUUID(),
+      id,
+      projectRoot: input.projectRoot,
       title: input.title,
       description: input.description,
-      status: input.status ?? "todo",
+      status: statusForDependencies(input.status ?? "todo", input.dependsOn, tasksById),
       complexity: input.complexity ?? "medium",
       isolation: input.isolation ?? "shared",
+      priority: input.priority ?? DEFAULT_TASK_PRIORITY,
+      dueAt: input.dueAt ? normalizeDueAt(input.dueAt) : undefined,
       owner: input.owner,
       tags: input.tags,
       metadata: input.metadata,
+      dependsOn: input.dependsOn?.length ? input.dependsOn : undefined,
+      version: 1,
       createdAt: nowIso(),
       updatedAt: nowIso(),
     };
 
     db.prepare(
-      `INSERT INTO tasks (id, title, description, status, complexity, isolation, owner, tags, metadata, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      `INSERT INTO tasks (id, project_root, title, description, status, complexity, isolation, priority, due_at, owner, tags, metadata, depends_on, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     ).run(
       task.id,
+      task.projectRoot ?? null,
       task.title,
       task.description ?? null,
       task.status,
       task.complexity,
       task.isolation,
+      task.priority,
+      task.dueAt ?? null,
       task.owner ?? null,
       task.tags ? JSON.stringify(task.tags) : null,
       task.metadata ? JSON.stringify(task.metadata) : null,
+      task.dependsOn ? JSON.stringify(task.dependsOn) : null,
       task.createdAt,
       task.updatedAt
     );
+    this.recordTaskEvents(task, [{ type: "created", to: task.status }], input.actor);
 
     await appendLog(this.logDir, "task_create", { task });
     return task;
@@ -1091,58 +2218,159 @@ export class SqliteStore implements Store {
     status?: TaskStatus;
     complexity?: TaskComplexity;
     isolation?: TaskIsolation;
-    owner?: string;
+    priority?: TaskPriority;
+    dueAt?: string | null;  // null clears the due date
+    owner?: string | null;  // null releases the task
     tags?: string[];
     metadata?: Record<string, unknown>;
+    dependsOn?: string[];
     reviewNotes?: string;
     reviewFeedback?: string;
     reviewRequestedAt?: string;
+    actor?: string;
+    expectedVersion?: number;
   }): Promise<Task> {
     const db = this.getDb();
     const row = db.prepare("SELECT * FROM tasks WHERE id = ?").get(input.id) as TaskRow | undefined;
     if (!row) throw new Error(`Task not found: ${input.id}`);
     const task = this.parseTask(row);
-
+    const before = { ...task };
+    const version = row.version;
+    if (input.expectedVersion !== undefined && input.expectedVersion !== version) {
+      throw versionConflictError(task.id, input.expectedVersion, version);
+    }
+    const wasDone = task.status === "done";
+
+    if (input.dependsOn !== undefined) {
+      const existing = await this.listTasks();
+      assertValidDependencies(task.id, input.dependsOn, existing, task.projectRoot);
+      task.dependsOn = input.dependsOn.length ? input.dependsOn : undefined;
+      if (input.status === undefined) {
+        const tasksById = new Map(existing.map((item) => [item.id, item]));
+        task.status = statusForDependencies(task.status, task.dependsOn, tasksById);
+      }
+    }
     if (input.title !== undefined) task.title = input.title;
     if (input.description !== undefined) task.description = input.description;
     if (input.status !== undefined) task.status = input.status;
     if (input.complexity !== undefined) task.complexity = input.complexity;
     if (input.isolation !== undefined) task.isolation = input.isolation;
-    if (input.owner !== undefined) task.owner = input.owner;
+    if (input.priority !== undefined) task.priority = input.priority;
+    if (input.dueAt !== undefined) task.dueAt = input.dueAt ? normalizeDueAt(input.dueAt) : undefined;
+    if (input.owner !== undefined) task.owner = input.owner ?? undefined;
     if (input.tags !== undefined) task.tags = input.tags;
     if (input.metadata !== undefined) task.metadata = input.metadata;
     if (input.reviewNotes !== undefined) task.reviewNotes = input.reviewNotes;
     if (input.reviewFeedback !== undefined) task.reviewFeedback = input.reviewFeedback;
     if (input.reviewRequestedAt !== undefined) task.reviewRequestedAt = input.reviewRequestedAt;
+    task.version = version + 1;
     task.updatedAt = nowIso();
 
-    db.prepare(
+    // Only write over the version that was read, so a concurrent write is never lost
+    const result = db.prepare(
       `UPDATE tasks
-       SET title = ?, description = ?, status = ?, complexity = ?, isolation = ?, owner = ?, tags = ?, metadata = ?,
-           review_notes = ?, review_feedback = ?, review_requested_at = ?, updated_at = ?
-       WHERE id = ?`
+       SET title = ?, description = ?, status = ?, complexity = ?, isolation = ?, priority = ?, due_at = ?, owner = ?, tags = ?,
+           metadata = ?, depends_on = ?, review_notes = ?, review_feedback = ?, review_requested_at = ?, version = ?, updated_at = ?
+       WHERE id = ? AND version = ?`
     ).run(
       task.title,
       task.description ?? null,
       task.status,
       task.complexity,
       task.isolation,
+      task.priority ?? DEFAULT_TASK_PRIORITY,
+      task.dueAt ?? null,
       task.owner ?? null,
       task.tags ? JSON.stringify(task.tags) : null,
       task.metadata ? JSON.stringify(task.metadata) : null,
+      task.dependsOn ? JSON.stringify(task.dependsOn) : null,
       task.reviewNotes ?? null,
       task.reviewFeedback ?? null,
       task.reviewRequestedAt ?? null,
+      task.version,
       task.updatedAt,
-      task.id
+      task.id,
+      version
     );
+    if (result.changes === 0) {
+      const current = db.prepare("SELECT version FROM tasks WHERE id = ?").get(task.id) as { version: number } | undefined;
+      throw versionConflictError(task.id, version, current?.version ?? version);
+    }
+    this.recordTaskEvents(task, taskChanges(before, task, input), input.actor);
 
     await appendLog(this.logDir, "task_update", { task });
+    if (!wasDone && task.status === "done") {
+      await this.unblockDependents(task.id);
+    }
     return task;
   }
 
+  // Move blocked dependents to todo once their last prerequisite is done
+  private async unblockDependents(taskId: string): Promise<Task[]> {
+    const tasks = await this.listTasks();
+    const tasksById = new Map(tasks.map((item) => [item.id, item]));
+    const unblocked: Task[] = [];
+    for (const dependent of tasks) {
+      if (dependent.status !== "blocked" || !dependent.dependsOn?.includes(taskId)) continue;
+      if (unmetDependencies(dependent, tasksById).length > 0) continue;
+      unblocked.push(await this.updateTask({ id: dependent.id, status: "todo", actor: "system" }));
+    }
+    if (unblocked.length > 0) {
+      await appendLog(this.logDir, "task_unblock", { taskId, unblocked: unblocked.map((item) => item.id) });
+    }
+    return unblocked;
+  }
+
   async claimTask(input: { id: string; owner: string }): Promise<Task> {
-    return this.updateTask({ id: input.id, owner: input.owner, status: "in_progress" });
+    const tasks = await this.listTasks();
+    const task = tasks.find((item) => item.id === input.id);
+    if (!task) throw new Error(`Task not found: ${input.id}`);
+    const unmet = unmetDependencies(task, new Map(tasks.map((item) => [item.id, item])));
+    if (unmet.length > 0) {
+      throw new Error(`Task blocked by unfinished dependencies: ${unmet.join(", ")}`);
+    }
+    assertClaimable(task, input.owner);
+    // The version check turns a claim that lost a race into an error
+    return this.updateTask({
+      id: input.id,
+      owner: input.owner,
+      status: "in_progress",
+      actor: input.owner,
+      expectedVersion: task.version,
+    });
+  }
+
+  async claimNextTask(input: {
+    owner: string;
+    projectRoot?: string;
+    isolation?: ImplementerIsolation;
+    type?: string;
+  }): Promise<Task | null> {
+    const db = this.getDb();
+    // Pick and claim inside one write transaction so concurrent servers never
+    // hand the same task to two implementers
+    const claim = db.transaction((): Task | null => {
+      const rows = input.projectRoot
+        ? db.prepare("SELECT * FROM tasks WHERE project_root = ?").all(input.projectRoot) as TaskRow[]
+        : db.prepare("SELECT * FROM tasks").all() as TaskRow[];
+      const next = pickNextTask(rows.map((row) => this.parseTask(row)), input);
+      if (!next) return null;
+      const task: Task = {
+        ...next,
+        owner: input.owner,
+        status: "in_progress",
+        version: (next.version ?? 1) + 1,
+        updatedAt: nowIso(),
+      };
+      db.prepare("UPDATE tasks SET owner = ?, status = ?, version = ?, updated_at = ? WHERE id = ?")
+        .run(task.owner, task.status, task.version, task.updatedAt, task.id);
+      this.recordTaskEvents(task, taskChanges(next, task, {}), input.owner);
+      return task;
+    });
+
+    const task = claim.immediate();
+    if (task) await appendLog(this.logDir, "task_update", { task });
+    return task;
   }
 
   async submitTaskForReview(input: {
@@ -1161,12 +2389,15 @@ export class SqliteStore implements Store {
       status: "review",
       reviewNotes: input.reviewNotes,
       reviewRequestedAt: nowIso(),
+      actor: input.owner,
+      expectedVersion: row.version,
     });
   }
 
   async approveTask(input: {
     id: string;
     feedback?: string;
+    actor?: string;
   }): Promise<Task> {
     const db = this.getDb();
     const row = db.prepare("SELECT * FROM tasks WHERE id = ?").get(input.id) as TaskRow | undefined;
@@ -1178,12 +2409,15 @@ export class SqliteStore implements Store {
       id: input.id,
       status: "done",
       reviewFeedback: input.feedback ?? "Approved",
+      actor: input.actor,
+      expectedVersion: row.version,
     });
   }
 
   async requestTaskChanges(input: {
     id: string;
     feedback: string;
+    actor?: string;
   }): Promise<Task> {
     const db = this.getDb();
     const row = db.prepare("SELECT * FROM tasks WHERE id = ?").get(input.id) as TaskRow | undefined;
@@ -1195,10 +2429,13 @@ export class SqliteStore implements Store {
       id: input.id,
       status: "in_progress",  // Send back to in_progress for rework
       reviewFeedback: input.feedback,
+      actor: input.actor,
+      expectedVersion: row.version,
     });
   }
 
   async listTasks(filters?: {
+    projectRoot?: string;
     status?: TaskStatus;
     owner?: string;
     tag?: string;
@@ -1207,6 +2444,10 @@ export class SqliteStore implements Store {
     const db = this.getDb();
     const where: string[] = [];
     const params: (string | number)[] = [];
+    if (filters?.projectRoot) {
+      where.push("project_root = ?");
+      params.push(filters.projectRoot);
+    }
     if (filters?.status) {
       where.push("status = ?");
       params.push(filters.status);
@@ -1216,7 +2457,7 @@ export class SqliteStore implements Store {
       params.push(filters.owner);
     }
     const sql = `SELECT * FROM tasks${where.length ? ` WHERE ${where.join(" AND ")}` : ""} ORDER BY created_at ASC`;
-    let tasks = (db.prepare(sql).all(...params) as TaskRow[]).map((row) => this.parseTask(row));
+    let tasks = (db.prepare(sql).all(...params) as TaskRow[]).map((row) => this.parseTask(row)).sort(compareTasks);
     if (filters?.tag) {
       tasks = tasks.filter((task) => task.tags?.includes(filters.tag ?? ""));
     }
@@ -1224,65 +2465,309 @@ export class SqliteStore implements Store {
     return tasks;
   }
 
-  async acquireLock(input: { path: string; owner?: string; note?: string }): Promise<Lock> {
+  async listTaskEvents(filters?: { taskId?: string; projectRoot?: string }): Promise<TaskEvent[]> {
+    const db = this.getDb();
+    const where: string[] = [];
+    const params: string[] = [];
+    if (filters?.taskId) {
+      where.push("task_id = ?");
+      params.push(filters.taskId);
+    }
+    if (filters?.projectRoot) {
+      where.push("project_root = ?");
+      params.push(filters.projectRoot);
+    }
+    const sql = `SELECT * FROM task_events${where.length ? ` WHERE ${where.join(" AND ")}` : ""} ORDER BY created_at ASC, rowid ASC`;
+    return (db.prepare(sql).all(...params) as TaskEventRow[]).map((row) => this.parseTaskEvent(row));
+  }
+
+  // Release active locks whose lease has run out, logging each one, then hand
+  // any freed paths to queued waiters
+  private async expireLocks(): Promise<void> {
+    const db = this.getDb();
+    const rows = db
+      .prepare("SELECT * FROM locks WHERE status = 'active' AND expires_at IS NOT NULL AND expires_at <= ?")
+      .all(nowIso()) as LockRow[];
+    const expired = releaseExpiredLocks(rows.map((row) => this.parseLock(row)));
+    const update = db.prepare("UPDATE locks SET status = ?, updated_at = ? WHERE id = ?");
+    for (const lock of expired) {
+      update.run(lock.status, lock.updatedAt, lock.id);
+      await appendLog(this.logDir, "lock_expired", { lock });
+    }
+    await this.grantLockWaiters();
+  }
+
+  private insertLock(lock: Lock): void {
+    this.getDb().prepare(
+      `INSERT INTO locks (id, project_root, path, owner, note, status, mode, ttl_seconds, expires_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      lock.id,
+      lock.projectRoot ?? null,
+      lock.path,
+      lock.owner ?? null,
+      lock.note ?? null,
+      lock.status,
+      lock.mode,
+      lock.ttlSeconds ?? null,
+      lock.expiresAt ?? null,
+      lock.createdAt,
+      lock.updatedAt
+    );
+  }
+
+  // The active lock or queued waiter that stands in the way of a request, if any.
+  // Queued waiters count so that a plain acquire cannot jump the queue.
+  private findLockBlocker(request: Lock): { lock?: Lock; waiter?: LockWaiter } | null {
+    const db = this.getDb();
+    const active = db
+      .prepare("SELECT * FROM locks WHERE project_root IS ? AND status = 'active' ORDER BY created_at ASC")
+      .all(request.projectRoot ?? null) as LockRow[];
+    const lock = active.map((row) => this.parseLock(row)).find((item) => lockRequestsConflict(item, request));
+    if (lock) return { lock };
+    const queued = db
+      .prepare("SELECT * FROM lock_waiters WHERE project_root IS ? AND status = 'waiting' ORDER BY created_at ASC, rowid ASC")
+      .all(request.projectRoot ?? null) as LockWaiterRow[];
+    const waiter = queued.map((row) => this.parseLockWaiter(row)).find((item) => lockRequestsConflict(item, request));
+    return waiter ? { waiter } : null;
+  }
+
+  async acquireLock(input: {
+    path: string;
+    owner?: string;
+    note?: string;
+    projectRoot?: string;
+    ttlSeconds?: number;
+    mode?: LockMode;
+  }): Promise<Lock> {
+    const db = this.getDb();
+    await this.expireLocks();
+    const lock = newLock(input);
+
+    const transaction = db.transaction(() => {
+      const blocker = this.findLockBlocker(lock);
+      if (blocker?.lock) throw lockConflictError(blocker.lock, input.path);
+      if (blocker?.waiter) {
+        throw new Error(
+          `Lock on ${blocker.waiter.path} is queued for ${blocker.waiter.owner ?? "another agent"}; use wait: true to queue behind it`
+        );
+      }
+      this.insertLock(lock);
+    });
+
+    transaction();
+    await appendLog(this.logDir, "lock_acquire", { lock });
+    return lock;
+  }
+
+  async waitForLock(input: {
+    path: string;
+    owner?: string;
+    note?: string;
+    projectRoot?: string;
+    ttlSeconds?: number;
+    mode?: LockMode;
+    timeoutMs?: number;
+    onQueued?: (waiter: LockWaiter) => Promise<void>;
+  }): Promise<Lock> {
     const db = this.getDb();
-    const lock: Lock = {
+    await this.expireLocks();
+    const timeoutMs = input.timeoutMs ?? DEFAULT_LOCK_WAIT_MS;
+    const lock = newLock(input);
+    const waiter: LockWaiter = {
+      id: crypto.randomUUID(),
+      projectRoot: input.projectRoot,
       path: input.path,
       owner: input.owner,
       note: input.note,
-      status: "active",
+      mode: lock.mode,
+      ttlSeconds: input.ttlSeconds,
+      status: "waiting",
+      deadline: new Date(Date.now() + timeoutMs).toISOString(),
       createdAt: nowIso(),
       updatedAt: nowIso(),
     };
 
-    const transaction = db.transaction(() => {
-      const existing = db
-        .prepare("SELECT * FROM locks WHERE path = ? AND status = 'active'")
-        .get(input.path) as LockRow | undefined;
-      if (existing) throw new Error(`Lock already active for ${input.path}`);
+    // Take the lock right away if nothing is in the way, otherwise join the queue
+    const acquired = db.transaction(() => {
+      if (!this.findLockBlocker(lock)) {
+        this.insertLock(lock);
+        return true;
+      }
       db.prepare(
-        `INSERT INTO locks (path, owner, note, status, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?)`
+        `INSERT INTO lock_waiters (id, project_root, path, owner, note, mode, ttl_seconds, status, deadline, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       ).run(
-        lock.path,
-        lock.owner ?? null,
-        lock.note ?? null,
-        lock.status,
-        lock.createdAt,
-        lock.updatedAt
+        waiter.id,
+        waiter.projectRoot ?? null,
+        waiter.path,
+        waiter.owner ?? null,
+        waiter.note ?? null,
+        waiter.mode,
+        waiter.ttlSeconds ?? null,
+        waiter.status,
+        waiter.deadline,
+        waiter.createdAt,
+        waiter.updatedAt
       );
-    });
+      return false;
+    })();
+    if (acquired) {
+      await appendLog(this.logDir, "lock_acquire", { lock });
+      return lock;
+    }
+    await appendLog(this.logDir, "lock_wait", { waiter });
+    await input.onQueued?.(waiter);
+
+    // The holder's release (possibly in another process) hands the lock over;
+    // polling also covers leases that expire while we wait
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      await sleep(Math.min(LOCK_WAIT_POLL_MS, Math.max(deadline - Date.now(), 0)));
+      await this.expireLocks();
+      const granted = this.getGrantedLock(waiter.id);
+      if (granted) return granted;
+    }
 
-    transaction();
-    await appendLog(this.logDir, "lock_acquire", { lock });
-    return lock;
+    const timedOut = db
+      .prepare("UPDATE lock_waiters SET status = 'timed_out', updated_at = ? WHERE id = ? AND status = 'waiting'")
+      .run(nowIso(), waiter.id);
+    if (timedOut.changes > 0) {
+      await appendLog(this.logDir, "lock_wait_timeout", { waiter });
+    } else {
+      // Granted between the last check and the deadline
+      const granted = this.getGrantedLock(waiter.id);
+      if (granted) return granted;
+    }
+    throw new Error(`Timed out after ${timeoutMs}ms waiting for lock on ${input.path}`);
   }
 
-  async releaseLock(input: { path: string; owner?: string }): Promise<Lock> {
+  private getGrantedLock(waiterId: string): Lock | null {
     const db = this.getDb();
-    const row = db
-      .prepare("SELECT * FROM locks WHERE path = ? AND status = 'active'")
-      .get(input.path) as LockRow | undefined;
-    if (!row) throw new Error(`Active lock not found for ${input.path}`);
-    const lock = this.parseLock(row);
-    if (input.owner && lock.owner && input.owner !== lock.owner) {
-      throw new Error(`Lock owned by ${lock.owner}, not ${input.owner}`);
+    const row = db.prepare("SELECT * FROM lock_waiters WHERE id = ?").get(waiterId) as LockWaiterRow | undefined;
+    if (row?.status !== "granted" || !row.lock_id) return null;
+    const lockRow = db.prepare("SELECT * FROM locks WHERE id = ?").get(row.lock_id) as LockRow | undefined;
+    return lockRow ? this.parseLock(lockRow) : null;
+  }
+
+  // Serve the queue in FIFO order: a waiter is granted once no active lock and no
+  // earlier waiter conflicts with it. Waiters past their deadline are timed out.
+  private async grantLockWaiters(): Promise<void> {
+    const db = this.getDb();
+    const now = nowIso();
+    const { granted, timedOut } = db.transaction(() => {
+      const expired = (db
+        .prepare("SELECT * FROM lock_waiters WHERE status = 'waiting' AND deadline <= ?")
+        .all(now) as LockWaiterRow[]).map((row) => this.parseLockWaiter(row));
+      db.prepare("UPDATE lock_waiters SET status = 'timed_out', updated_at = ? WHERE status = 'waiting' AND deadline <= ?")
+        .run(now, now);
+
+      const waiting = (db
+        .prepare("SELECT * FROM lock_waiters WHERE status = 'waiting' ORDER BY created_at ASC, rowid ASC")
+        .all() as LockWaiterRow[]).map((row) => this.parseLockWaiter(row));
+      if (waiting.length === 0) return { granted: [] as Lock[], timedOut: expired };
+
+      const active = (db
+        .prepare("SELECT * FROM locks WHERE status = 'active'")
+        .all() as LockRow[]).map((row) => this.parseLock(row));
+      const ahead: LockWaiter[] = [];
+      const handedOff: Lock[] = [];
+      for (const waiter of waiting) {
+        const blocked = [...active, ...ahead].some(
+          (item) => item.projectRoot === waiter.projectRoot && lockRequestsConflict(item, waiter)
+        );
+        if (blocked) {
+          ahead.push(waiter);
+          continue;
+        }
+        const lock = newLock(waiter);
+        this.insertLock(lock);
+        db.prepare("UPDATE lock_waiters SET status = 'granted', lock_id = ?, updated_at = ? WHERE id = ?")
+          .run(lock.id, now, waiter.id);
+        active.push(lock);
+        handedOff.push(lock);
+      }
+      return { granted: handedOff, timedOut: expired };
+    })();
+
+    for (const waiter of timedOut) {
+      await appendLog(this.logDir, "lock_wait_timeout", { waiter });
+    }
+    for (const lock of granted) {
+      await appendLog(this.logDir, "lock_handoff", { lock });
+    }
+  }
+
+  async listLockWaiters(filters?: { projectRoot?: string; status?: LockWaiterStatus }): Promise<LockWaiter[]> {
+    const db = this.getDb();
+    await this.expireLocks();
+    const where: string[] = [];
+    const params: string[] = [];
+    if (filters?.projectRoot) {
+      where.push("project_root = ?");
+      params.push(filters.projectRoot);
+    }
+    if (filters?.status) {
+      where.push("status = ?");
+      params.push(filters.status);
     }
+    const sql = `SELECT * FROM lock_waiters${where.length ? ` WHERE ${where.join(" AND ")}` : ""} ORDER BY created_at ASC, rowid ASC`;
+    return (db.prepare(sql).all(...params) as LockWaiterRow[]).map((row) => this.parseLockWaiter(row));
+  }
+
+  async renewLock(input: { path: string; owner?: string; projectRoot?: string; ttlSeconds?: number }): Promise<Lock> {
+    const db = this.getDb();
+    await this.expireLocks();
+    const rows = db
+      .prepare("SELECT * FROM locks WHERE path = ? AND project_root IS ? AND status = 'active' ORDER BY created_at ASC")
+      .all(input.path, input.projectRoot ?? null) as LockRow[];
+    const lock = findHeldLock(
+      rows.map((row) => this.parseLock(row)),
+      input,
+      `Active lock not found for ${input.path} (it may have expired)`
+    );
+    const ttlSeconds = input.ttlSeconds ?? lock.ttlSeconds;
+    if (ttlSeconds === undefined) throw new Error(`Lock for ${input.path} has no TTL; pass ttlSeconds to start a lease`);
+    lock.ttlSeconds = ttlSeconds;
+    lock.expiresAt = leaseExpiry(ttlSeconds);
+    lock.updatedAt = nowIso();
+    db.prepare("UPDATE locks SET ttl_seconds = ?, expires_at = ?, updated_at = ? WHERE id = ?").run(
+      lock.ttlSeconds,
+      lock.expiresAt,
+      lock.updatedAt,
+      lock.id
+    );
+    await appendLog(this.logDir, "lock_renew", { lock });
+    return lock;
+  }
+
+  async releaseLock(input: { path: string; owner?: string; projectRoot?: string }): Promise<Lock> {
+    const db = this.getDb();
+    const rows = db
+      .prepare("SELECT * FROM locks WHERE path = ? AND project_root IS ? AND status = 'active' ORDER BY created_at ASC")
+      .all(input.path, input.projectRoot ?? null) as LockRow[];
+    const lock = findHeldLock(rows.map((row) => this.parseLock(row)), input, `Active lock not found for ${input.path}`);
     lock.status = "resolved";
     lock.updatedAt = nowIso();
-    db.prepare("UPDATE locks SET status = ?, updated_at = ? WHERE path = ?").run(
+    db.prepare("UPDATE locks SET status = ?, updated_at = ? WHERE id = ?").run(
       lock.status,
       lock.updatedAt,
-      lock.path
+      lock.id
     );
     await appendLog(this.logDir, "lock_release", { lock });
+    await this.grantLockWaiters();
     return lock;
   }
 
-  async listLocks(filters?: { status?: LockStatus; owner?: string }): Promise<Lock[]> {
+  async listLocks(filters?: { status?: LockStatus; owner?: string; projectRoot?: string }): Promise<Lock[]> {
     const db = this.getDb();
+    await this.expireLocks();
     const where: string[] = [];
     const params: string[] = [];
+    if (filters?.projectRoot) {
+      where.push("project_root = ?");
+      params.push(filters.projectRoot);
+    }
     if (filters?.status) {
       where.push("status = ?");
       params.push(filters.status);
@@ -1296,26 +2781,28 @@ export class SqliteStore implements Store {
     return locks.map((row) => this.parseLock(row));
   }
 
-  async appendNote(input: { text: string; author?: string }): Promise<Note> {
+  async appendNote(input: { text: string; author?: string; projectRoot?: string }): Promise<Note> {
     const db = this.getDb();
     const note: Note = {
       id: crypto.randomUUID(),
+      projectRoot: input.projectRoot,
       text: input.text,
       author: input.author,
       createdAt: nowIso(),
     };
     db.prepare(
-      `INSERT INTO notes (id, text, author, created_at)
-       VALUES (?, ?, ?, ?)`
-    ).run(note.id, note.text, note.author ?? null, note.createdAt);
+      `INSERT INTO notes (id, project_root, text, author, created_at)
+       VALUES (?, ?, ?, ?, ?)`
+    ).run(note.id, note.projectRoot ?? null, note.text, note.author ?? null, note.createdAt);
     await appendLog(this.logDir, "note_append", { note });
     return note;
   }
 
-  async listNotes(limit?: number): Promise<Note[]> {
+  async listNotes(limit?: number, projectRoot?: string): Promise<Note[]> {
     const db = this.getDb();
-    const sql = "SELECT * FROM notes ORDER BY created_at ASC";
-    let notes = (db.prepare(sql).all() as NoteRow[]).map((row) => this.parseNote(row));
+    const sql = `SELECT * FROM notes${projectRoot ? " WHERE project_root = ?" : ""} ORDER BY created_at ASC`;
+    const params = projectRoot ? [projectRoot] : [];
+    let notes = (db.prepare(sql).all(...params) as NoteRow[]).map((row) => this.parseNote(row));
     if (limit && limit > 0) notes = notes.slice(Math.max(notes.length - limit, 0));
     return notes;
   }
@@ -1334,7 +2821,7 @@ export class SqliteStore implements Store {
       acceptanceCriteria: row.acceptance_criteria ? (JSON.parse(row.acceptance_criteria) as string[]) : undefined,
       tests: row.tests ? (JSON.parse(row.tests) as string[]) : undefined,
       implementationPlan: row.implementation_plan ? (JSON.parse(row.implementation_plan) as string[]) : undefined,
-      preferredImplementer: row.preferred_implementer as "claude" | "codex" | undefined,
+      preferredImplementer: row.preferred_implementer ?? undefined,
       status: (row.status as ProjectStatus) ?? "planning",
       createdAt: row.created_at,
       updatedAt: row.updated_at,
@@ -1345,13 +2832,18 @@ export class SqliteStore implements Store {
     return {
       id: row.id,
       name: row.name,
-      type: row.type as "claude" | "codex",
+      type: row.type,
       projectRoot: row.project_root,
       status: row.status as "active" | "stopped",
       pid: row.pid ?? undefined,
       isolation: (row.isolation as ImplementerIsolation) ?? "shared",
       worktreePath: row.worktree_path ?? undefined,
       branchName: row.branch_name ?? undefined,
+      lastSeenAt: row.last_seen_at ?? undefined,
+      launcher: (row.launcher as ImplementerLauncher | null) ?? undefined,
+      tmuxTarget: row.tmux_target ?? undefined,
+      logFile: row.log_file ?? undefined,
+      exitCode: row.exit_code ?? undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -1366,7 +2858,7 @@ export class SqliteStore implements Store {
     acceptanceCriteria?: string[];
     tests?: string[];
     implementationPlan?: string[];
-    preferredImplementer?: "claude" | "codex";
+    preferredImplementer?: string;  // Agent profile name
     status?: ProjectStatus;
   }): Promise<ProjectContext> {
     const db = this.getDb();
@@ -1383,7 +2875,7 @@ export class SqliteStore implements Store {
       acceptanceCriteria: input.acceptanceCriteria,
       tests: input.tests,
       implementationPlan: input.implementationPlan,
-      preferredImplementer: input.preferredImplementer ?? existing?.preferred_implementer as "claude" | "codex" | undefined,
+      preferredImplementer: input.preferredImplementer ?? existing?.preferred_implementer ?? undefined,
       status: input.status ?? existing?.status as ProjectStatus ?? "planning",
       createdAt: existing?.created_at ?? nowIso(),
       updatedAt: nowIso(),
@@ -1470,12 +2962,15 @@ export class SqliteStore implements Store {
 
   async registerImplementer(input: {
     name: string;
-    type: "claude" | "codex";
+    type: string;
     projectRoot: string;
     pid?: number;
     isolation?: ImplementerIsolation;
     worktreePath?: string;
     branchName?: string;
+    launcher?: ImplementerLauncher;
+    tmuxTarget?: string;
+    logFile?: string;
   }): Promise<Implementer> {
     const db = this.getDb();
     const implementer: Implementer = {
@@ -1488,13 +2983,18 @@ export class SqliteStore implements Store {
       isolation: input.isolation ?? "shared",
       worktreePath: input.worktreePath,
       branchName: input.branchName,
+      lastSeenAt: nowIso(),
+      launcher: input.launcher,
+      tmuxTarget: input.tmuxTarget,
+      logFile: input.logFile,
       createdAt: nowIso(),
       updatedAt: nowIso(),
     };
 
     db.prepare(
-      `INSERT INTO implementers (id, name, type, project_root, status, pid, isolation, worktree_path, branch_name, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      `INSERT INTO implementers (id, name, type, project_root, status, pid, isolation, worktree_path, branch_name, last_seen_at,
+                                 launcher, tmux_target, log_file, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     ).run(
       implementer.id,
       implementer.name,
@@ -1505,6 +3005,10 @@ export class SqliteStore implements Store {
       implementer.isolation,
       implementer.worktreePath ?? null,
       implementer.branchName ?? null,
+      implementer.lastSeenAt,
+      implementer.launcher ?? null,
+      implementer.tmuxTarget ?? null,
+      implementer.logFile ?? null,
       implementer.createdAt,
       implementer.updatedAt
     );
@@ -1528,6 +3032,33 @@ export class SqliteStore implements Store {
     return this.parseImplementer(updated);
   }
 
+  async updateImplementerProcess(id: string, input: { pid?: number | null; exitCode?: number | null }): Promise<Implementer> {
+    const db = this.getDb();
+    const row = db.prepare("SELECT * FROM implementers WHERE id = ?").get(id) as ImplementerRow | undefined;
+    if (!row) throw new Error(`Implementer not found: ${id}`);
+
+    const pid = input.pid !== undefined ? input.pid : row.pid;
+    const exitCode = input.exitCode !== undefined ? input.exitCode : row.exit_code;
+    db.prepare("UPDATE implementers SET pid = ?, exit_code = ?, updated_at = ? WHERE id = ?")
+      .run(pid, exitCode, nowIso(), id);
+
+    await appendLog(this.logDir, "implementer_process", { id, pid: input.pid, exitCode: input.exitCode });
+
+    const updated = db.prepare("SELECT * FROM implementers WHERE id = ?").get(id) as ImplementerRow;
+    return this.parseImplementer(updated);
+  }
+
+  async heartbeatImplementer(input: { name: string; projectRoot: string }): Promise<Implementer> {
+    const db = this.getDb();
+    const row = db.prepare(
+      "SELECT * FROM implementers WHERE name = ? AND project_root = ? AND status = 'active' ORDER BY created_at DESC"
+    ).get(input.name, input.projectRoot) as ImplementerRow | undefined;
+    if (!row) throw new Error(`No active implementer named ${input.name} in ${input.projectRoot}`);
+    const lastSeenAt = nowIso();
+    db.prepare("UPDATE implementers SET last_seen_at = ? WHERE id = ?").run(lastSeenAt, row.id);
+    return this.parseImplementer({ ...row, last_seen_at: lastSeenAt });
+  }
+
   async listImplementers(projectRoot?: string): Promise<Implementer[]> {
     const db = this.getDb();
     let rows: ImplementerRow[];
@@ -1564,22 +3095,24 @@ export class SqliteStore implements Store {
 
     // Start transaction for atomic reset
     const resetTransaction = db.transaction(() => {
-      // Count and clear tasks
-      const taskCount = db.prepare("SELECT COUNT(*) as count FROM tasks").get() as { count: number };
+      // Count and clear this project's tasks
+      const taskCount = db.prepare("SELECT COUNT(*) as count FROM tasks WHERE project_root = ?").get(projectRoot) as { count: number };
       const tasksCleared = taskCount.count;
-      db.prepare("DELETE FROM tasks").run();
+      db.prepare("DELETE FROM tasks WHERE project_root = ?").run(projectRoot);
+      db.prepare("DELETE FROM task_events WHERE project_root = ?").run(projectRoot);
 
-      // Count and clear active locks (keep resolved for history if needed)
-      const lockCount = db.prepare("SELECT COUNT(*) as count FROM locks WHERE status = 'active'").get() as { count: number };
+      // Count active locks, then clear all of this project's locks for a clean slate
+      const lockCount = db.prepare(
+        "SELECT COUNT(*) as count FROM locks WHERE project_root = ? AND status = 'active'"
+      ).get(projectRoot) as { count: number };
       const locksCleared = lockCount.count;
-      db.prepare("UPDATE locks SET status = 'resolved', updated_at = ? WHERE status = 'active'").run(nowIso());
-      // Also delete all locks if we want a clean slate
-      db.prepare("DELETE FROM locks").run();
+      db.prepare("DELETE FROM locks WHERE project_root = ?").run(projectRoot);
+      db.prepare("DELETE FROM lock_waiters WHERE project_root = ?").run(projectRoot);
 
-      // Count and clear notes
-      const noteCount = db.prepare("SELECT COUNT(*) as count FROM notes").get() as { count: number };
+      // Count and clear this project's notes
+      const noteCount = db.prepare("SELECT COUNT(*) as count FROM notes WHERE project_root = ?").get(projectRoot) as { count: number };
       const notesCleared = noteCount.count;
-      db.prepare("DELETE FROM notes").run();
+      db.prepare("DELETE FROM notes WHERE project_root = ?").run(projectRoot);
 
       // Reset implementers
       const updatedAt = nowIso();
@@ -1616,6 +3149,7 @@ export class SqliteStore implements Store {
 
     await appendLog(this.logDir, "session_reset", {
       projectRoot,
+      keepProjectContext: options?.keepProjectContext ?? false,
       ...result
     });
 
@@ -1913,11 +3447,224 @@ export class SqliteStore implements Store {
     await appendLog(this.logDir, "discussions_bulk_delete", { count: result.changes, olderThanDays: days });
     return result.changes;
   }
+
+  async exportSession(projectRoot: string): Promise<SessionData> {
+    const db = this.getDb();
+    const rows = <T>(table: string) =>
+      db.prepare(`SELECT * FROM ${table} WHERE project_root = ? ORDER BY created_at ASC, rowid ASC`).all(projectRoot) as T[];
+    const messages = db.prepare(
+      `SELECT m.* FROM discussion_messages m JOIN discussions d ON d.id = m.discussion_id
+       WHERE d.project_root = ? ORDER BY m.created_at ASC, m.rowid ASC`
+    ).all(projectRoot) as DiscussionMessageRow[];
+    return {
+      projectContext: await this.getProjectContext(projectRoot),
+      tasks: rows<TaskRow>("tasks").map((row) => this.parseTask(row)),
+      taskEvents: rows<TaskEventRow>("task_events").map((row) => this.parseTaskEvent(row)),
+      locks: rows<LockRow>("locks").map((row) => this.parseLock(row)),
+      notes: rows<NoteRow>("notes").map((row) => this.parseNote(row)),
+      implementers: rows<ImplementerRow>("implementers").map((row) => this.parseImplementer(row)),
+      discussions: rows<DiscussionRow>("discussions").map((row) => this.parseDiscussion(row)),
+      discussionMessages: messages.map((row) => this.parseDiscussionMessage(row)),
+    };
+  }
+
+  async importSession(data: SessionData, options?: { onConflict?: ImportConflictMode }): Promise<ImportResult> {
+    const db = this.getDb();
+    const mode = options?.onConflict ?? "fail";
+    const tables: Record<SessionRecordKind, string> = {
+      projectContext: "project_contexts",
+      tasks: "tasks",
+      taskEvents: "task_events",
+      locks: "locks",
+      notes: "notes",
+      implementers: "implementers",
+      discussions: "discussions",
+      discussionMessages: "discussion_messages",
+    };
+    const exists = (kind: SessionRecordKind, id: string) => {
+      const key = kind === "projectContext" ? "project_root" : "id";
+      return db.prepare(`SELECT 1 FROM ${tables[kind]} WHERE ${key} = ?`).get(id) !== undefined;
+    };
+    const result = db.transaction(() => {
+      const plan = planImport(data, exists, mode);
+      this.writeSessionRecords(plan.data, mode === "replace");
+      return plan.result;
+    }).immediate();
+    await appendLog(this.logDir, "session_import", { ...result });
+    return result;
+  }
+
+  private writeSessionRecords(data: SessionData, replace: boolean): void {
+    const db = this.getDb();
+    const insert = replace ? "INSERT OR REPLACE" : "INSERT";
+    const json = (value: unknown) => (value === undefined ? null : JSON.stringify(value));
+
+    const context = data.projectContext;
+    if (context) {
+      db.prepare(
+        `${insert} INTO project_contexts (project_root, description, end_state, tech_stack, constraints,
+         acceptance_criteria, tests, implementation_plan, preferred_implementer, status, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        context.projectRoot,
+        context.description,
+        context.endState,
+        json(context.techStack),
+        json(context.constraints),
+        json(context.acceptanceCriteria),
+        json(context.tests),
+        json(context.implementationPlan),
+        context.preferredImplementer ?? null,
+        context.status,
+        context.createdAt,
+        context.updatedAt
+      );
+    }
+
+    const insertTask = db.prepare(
+      `${insert} INTO tasks (id, project_root, title, description, status, complexity, isolation, priority, due_at, owner, tags,
+       metadata, depends_on, review_notes, review_feedback, review_requested_at, version, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const task of data.tasks) {
+      insertTask.run(
+        task.id,
+        task.projectRoot ?? null,
+        task.title,
+        task.description ?? null,
+        task.status,
+        task.complexity,
+        task.isolation,
+        task.priority ?? DEFAULT_TASK_PRIORITY,
+        task.dueAt ?? null,
+        task.owner ?? null,
+        json(task.tags),
+        json(task.metadata),
+        json(task.dependsOn),
+        task.reviewNotes ?? null,
+        task.reviewFeedback ?? null,
+        task.reviewRequestedAt ?? null,
+        task.version ?? 1,
+        task.createdAt,
+        task.updatedAt
+      );
+    }
+
+    const insertEvent = db.prepare(
+      `${insert} INTO task_events (id, task_id, project_root, type, field, from_value, to_value, actor, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const event of data.taskEvents) {
+      insertEvent.run(
+        event.id,
+        event.taskId,
+        event.projectRoot ?? null,
+        event.type,
+        event.field ?? null,
+        event.from ?? null,
+        event.to ?? null,
+        event.actor ?? null,
+        event.createdAt
+      );
+    }
+
+    const insertLock = db.prepare(
+      `${insert} INTO locks (id, project_root, path, owner, note, status, mode, ttl_seconds, expires_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const lock of data.locks) {
+      insertLock.run(
+        lock.id,
+        lock.projectRoot ?? null,
+        lock.path,
+        lock.owner ?? null,
+        lock.note ?? null,
+        lock.status,
+        lock.mode,
+        lock.ttlSeconds ?? null,
+        lock.expiresAt ?? null,
+        lock.createdAt,
+        lock.updatedAt
+      );
+    }
+
+    const insertNote = db.prepare(
+      `${insert} INTO notes (id, project_root, text, author, created_at) VALUES (?, ?, ?, ?, ?)`
+    );
+    for (const note of data.notes) {
+      insertNote.run(note.id, note.projectRoot ?? null, note.text, note.author ?? null, note.createdAt);
+    }
+
+    const insertImplementer = db.prepare(
+      `${insert} INTO implementers (id, name, type, project_root, status, pid, isolation, worktree_path, branch_name, last_seen_at,
+       launcher, tmux_target, log_file, exit_code, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const impl of data.implementers) {
+      insertImplementer.run(
+        impl.id,
+        impl.name,
+        impl.type,
+        impl.projectRoot,
+        impl.status,
+        impl.pid ?? null,
+        impl.isolation,
+        impl.worktreePath ?? null,
+        impl.branchName ?? null,
+        impl.lastSeenAt ?? null,
+        impl.launcher ?? null,
+        impl.tmuxTarget ?? null,
+        impl.logFile ?? null,
+        impl.exitCode ?? null,
+        impl.createdAt,
+        impl.updatedAt
+      );
+    }
+
+    const insertDiscussion = db.prepare(
+      `${insert} INTO discussions (id, topic, category, priority, status, project_root, created_by, waiting_on, decision,
+       decision_reasoning, decided_by, linked_task_id, created_at, updated_at, resolved_at, archived_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const discussion of data.discussions) {
+      insertDiscussion.run(
+        discussion.id,
+        discussion.topic,
+        discussion.category,
+        discussion.priority,
+        discussion.status,
+        discussion.projectRoot,
+        discussion.createdBy,
+        discussion.waitingOn ?? null,
+        discussion.decision ?? null,
+        discussion.decisionReasoning ?? null,
+        discussion.decidedBy ?? null,
+        discussion.linkedTaskId ?? null,
+        discussion.createdAt,
+        discussion.updatedAt,
+        discussion.resolvedAt ?? null,
+        discussion.archivedAt ?? null
+      );
+    }
+
+    const insertMessage = db.prepare(
+      `${insert} INTO discussion_messages (id, discussion_id, author, message, recommendation, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    );
+    for (const msg of data.discussionMessages) {
+      insertMessage.run(msg.id, msg.discussionId, msg.author, msg.message, msg.recommendation ?? null, msg.createdAt);
+    }
+  }
 }
 
+export type StoreOptions = {
+  defaultProjectRoot?: string;  // Owner of records written before project scoping
+};
+
 export function createStore(config: Config): Store {
+  const options: StoreOptions = { defaultProjectRoot: config.roots[0] };
   if (config.storage === "json") {
-    return new JsonStore(config.dataDir, config.logDir);
+    return new JsonStore(config.dataDir, config.logDir, options);
   }
-  return new SqliteStore(config.dbPath, config.logDir);
+  return new SqliteStore(config.dbPath, config.logDir, options);
 }
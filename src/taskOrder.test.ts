@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { compareTasks, normalizeDueAt, pickNextTask } from './taskOrder.js';
+import type { Task } from './storage.js';
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: id,
+    status: 'todo',
+    complexity: 'medium',
+    isolation: 'shared',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Task Ordering', () => {
+  it('should order by priority, then due date, then age', () => {
+    const tasks = [
+      task('old-p2', { createdAt: '2026-01-01T00:00:00.000Z' }),
+      task('new-p2', { createdAt: '2026-01-02T00:00:00.000Z' }),
+      task('due-later', { dueAt: '2026-03-01T00:00:00.000Z' }),
+      task('due-soon', { dueAt: '2026-02-01T00:00:00.000Z' }),
+      task('p0', { priority: 'P0', createdAt: '2026-01-05T00:00:00.000Z' }),
+      task('p3', { priority: 'P3' }),
+    ];
+
+    expect([...tasks].sort(compareTasks).map((t) => t.id))
+      .toEqual(['p0', 'due-soon', 'due-later', 'old-p2', 'new-p2', 'p3']);
+  });
+
+  it('should reject invalid due dates', () => {
+    expect(normalizeDueAt('2026-02-01')).toBe('2026-02-01T00:00:00.000Z');
+    expect(() => normalizeDueAt('next week')).toThrow('Invalid dueAt');
+  });
+
+  describe('pickNextTask', () => {
+    it('should skip owned, blocked and unfinished-dependency tasks', () => {
+      const tasks = [
+        task('owned', { priority: 'P0', owner: 'impl-2' }),
+        task('prereq', { status: 'in_progress', owner: 'impl-2' }),
+        task('waiting', { priority: 'P0', dependsOn: ['prereq'] }),
+        task('free', { priority: 'P3' }),
+      ];
+
+      expect(pickNextTask(tasks, {})?.id).toBe('free');
+    });
+
+    it('should prefer tasks matching the implementer within a priority', () => {
+      const tasks = [
+        task('worktree', { isolation: 'worktree' }),
+        task('codex-only', { metadata: { implementerType: 'codex' } }),
+        task('shared'),
+      ];
+
+      expect(pickNextTask(tasks, { isolation: 'worktree' })?.id).toBe('worktree');
+      expect(pickNextTask(tasks, { isolation: 'shared', type: 'codex' })?.id).toBe('codex-only');
+      expect(pickNextTask(tasks, { isolation: 'shared', type: 'claude' })?.id).toBe('shared');
+    });
+
+    it('should still rank priority above a match', () => {
+      const tasks = [task('match'), task('urgent', { priority: 'P0', isolation: 'worktree' })];
+      expect(pickNextTask(tasks, { isolation: 'shared' })?.id).toBe('urgent');
+    });
+
+    it('should return undefined when nothing is eligible', () => {
+      expect(pickNextTask([task('done', { status: 'done' })], {})).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Task ordering: priority, due dates and picking the next task for an implementer
+ */
+import { unmetDependencies } from "./graph.js";
+import type { ImplementerIsolation, Task, TaskPriority } from "./storage.js";
+
+export const TASK_PRIORITIES: TaskPriority[] = ["P0", "P1", "P2", "P3"];
+export const DEFAULT_TASK_PRIORITY: TaskPriority = "P2";
+
+/**
+ * Validate a due date and return it as an ISO timestamp
+ */
+export function normalizeDueAt(dueAt: string): string {
+  const time = Date.parse(dueAt);
+  if (Number.isNaN(time)) throw new Error(`Invalid dueAt: ${dueAt} (expected an ISO date)`);
+  return new Date(time).toISOString();
+}
+
+/**
+ * Most urgent first: higher priority, then earlier due date (tasks with a due
+ * date before those without), then oldest
+ */
+export function compareTasks(a: Task, b: Task): number {
+  const priority = TASK_PRIORITIES.indexOf(a.priority ?? DEFAULT_TASK_PRIORITY)
+    - TASK_PRIORITIES.indexOf(b.priority ?? DEFAULT_TASK_PRIORITY);
+  if (priority !== 0) return priority;
+  if (a.dueAt !== b.dueAt) {
+    if (!a.dueAt) return 1;
+    if (!b.dueAt) return -1;
+    return Date.parse(a.dueAt) - Date.parse(b.dueAt);
+  }
+  return a.createdAt.localeCompare(b.createdAt);
+}
+
+/**
+ * Whether a task suits an implementer: same isolation mode, and the agent type
+ * the task asks for in `metadata.implementerType` (if any)
+ */
+export function taskMatchesImplementer(task: Task, implementer: { isolation?: ImplementerIsolation; type?: string }): boolean {
+  if (implementer.isolation && task.isolation !== implementer.isolation) return false;
+  const wantedType = task.metadata?.implementerType;
+  return !wantedType || !implementer.type || wantedType === implementer.type;
+}
+
+/**
+ * The best task for an implementer to claim next: unowned todo tasks with all
+ * dependencies done, by priority, then preferring tasks that match the
+ * implementer, then by due date and age
+ */
+export function pickNextTask(
+  tasks: Task[],
+  implementer: { isolation?: ImplementerIsolation; type?: string }
+): Task | undefined {
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const eligible = tasks.filter((task) =>
+    task.status === "todo" && !task.owner && unmetDependencies(task, tasksById).length === 0
+  );
+  const mismatch = (task: Task) => (taskMatchesImplementer(task, implementer) ? 0 : 1);
+  return eligible.sort((a, b) => {
+    const priority = TASK_PRIORITIES.indexOf(a.priority ?? DEFAULT_TASK_PRIORITY)
+      - TASK_PRIORITIES.indexOf(b.priority ?? DEFAULT_TASK_PRIORITY);
+    return priority || mismatch(a) - mismatch(b) || compareTasks(a, b);
+  })[0];
+}
@@ -1,12 +1,13 @@
 import { spawnSync } from "node:child_process";
 import path from "node:path";
+import { BUILTIN_AGENT_PROFILES, buildAgentCommand, pipeStdin, type AgentProfile } from "./agents.js";
 import { getPlannerPrompt, getImplementerPrompt } from "./prompts.js";
 
 export type TmuxOptions = {
   session?: string;
   repo?: string;
-  claudeCmd?: string;
-  codexCmd?: string;
+  planner?: AgentProfile;       // Agent in the first window (default claude)
+  implementer?: AgentProfile;   // Agent in the second window (default codex)
   injectPrompts?: boolean;
   layout?: "windows" | "panes";
   split?: "horizontal" | "vertical";
@@ -46,9 +47,11 @@ export async function launchTmux(options: TmuxOptions = {}) {
 
   const session = options.session ?? "lockstep";
   const repo = path.resolve(options.repo ?? process.cwd());
-  const claudeCmd = options.claudeCmd ?? "claude";
-  const codexCmd = options.codexCmd ?? "codex";
+  const planner = options.planner ?? BUILTIN_AGENT_PROFILES.claude;
+  const implementer = options.implementer ?? BUILTIN_AGENT_PROFILES.codex;
   const injectPrompts = options.injectPrompts !== false;
+  const plannerCmd = buildAgentCommand(planner, injectPrompts ? getPlannerPrompt() : undefined, { tmux: true });
+  const implementerCmd = buildAgentCommand(implementer, injectPrompts ? getImplementerPrompt() : undefined, { tmux: true });
   const layout = options.layout ?? "windows";
   const split = options.split ?? "vertical";
   const showDashboard = options.dashboard !== false;
@@ -56,7 +59,7 @@ export async function launchTmux(options: TmuxOptions = {}) {
   const statusBar = options.statusBar !== false;
 
   if (!sessionExists(session)) {
-    runTmux(["new-session", "-d", "-s", session, "-c", repo, "-n", "claude"]);
+    runTmux(["new-session", "-d", "-s", session, "-c", repo, "-n", planner.name]);
     if (statusBar) {
       runTmux(["set-option", "-t", session, "-g", "status", "on"]);
       runTmux(["set-option", "-t", session, "-g", "status-style", "bg=colour237,fg=colour252"]);
@@ -65,7 +68,7 @@ export async function launchTmux(options: TmuxOptions = {}) {
       runTmux(["set-option", "-t", session, "-g", "window-status-format", " #I:#W "]);
       runTmux(["set-option", "-t", session, "-g", "window-status-current-format", " #[bold]#I:#W "]);
     }
-    sendKeys(`${session}:0.0`, claudeCmd);
+    sendKeys(`${session}:0.0`, pipeStdin(plannerCmd.command, plannerCmd.stdin));
 
     if (layout === "panes") {
       if (split === "vertical") {
@@ -74,20 +77,19 @@ export async function launchTmux(options: TmuxOptions = {}) {
         runTmux(["split-window", "-v", "-t", `${session}:0`, "-c", repo]);
       }
       runTmux(["select-layout", "-t", `${session}:0`, "even-horizontal"]);
-      sendKeys(`${session}:0.1`, codexCmd);
+      sendKeys(`${session}:0.1`, pipeStdin(implementerCmd.command, implementerCmd.stdin));
     } else {
-      runTmux(["new-window", "-t", session, "-n", "codex", "-c", repo]);
-      sendKeys(`${session}:1.0`, codexCmd);
+      runTmux(["new-window", "-t", session, "-n", implementer.name, "-c", repo]);
+      sendKeys(`${session}:1.0`, pipeStdin(implementerCmd.command, implementerCmd.stdin));
     }
 
-    if (injectPrompts) {
+    // Profiles with promptStyle "keys" get their prompt typed in once started
+    if (plannerCmd.keys !== undefined || implementerCmd.keys !== undefined) {
       await new Promise((resolve) => setTimeout(resolve, 1500));
-      sendKeys(`${session}:0.0`, getPlannerPrompt());
+      if (plannerCmd.keys !== undefined) sendKeys(`${session}:0.0`, plannerCmd.keys);
       await new Promise((resolve) => setTimeout(resolve, 500));
-      if (layout === "panes") {
-        sendKeys(`${session}:0.1`, getImplementerPrompt());
-      } else {
-        sendKeys(`${session}:1.0`, getImplementerPrompt());
+      if (implementerCmd.keys !== undefined) {
+        sendKeys(layout === "panes" ? `${session}:0.1` : `${session}:1.0`, implementerCmd.keys);
       }
     }
 